@@ -0,0 +1,158 @@
+import { SkipBlock } from "@dedis/cothority/skipchain";
+
+import { BlockRepository, PaginateError } from "../src/blockRepository";
+import { RosterUnreachableError } from "../src/connectionManager";
+import { FakeConode } from "../src/fakeConode";
+import { fakeRepository, roster } from "./support/fixtures";
+
+describe("BlockRepository", () => {
+    // Collect the pages of a paginate request
+    const paginate = (
+        repository: BlockRepository,
+        start: SkipBlock,
+        pageSize: number,
+        numPages: number,
+        backward: boolean
+    ) => {
+        const pages: SkipBlock[][] = [];
+        return repository
+            .getBlocks(start.hash, pageSize, numPages, backward)
+            .forEach(([, page]) => pages.push(page))
+            .then(() => pages);
+    };
+
+    it("gets the pages of blocks forward and backward", async () => {
+        const [conode, repository] = fakeRepository({ length: 100 });
+
+        const forward = await paginate(
+            repository,
+            conode.blocks[10],
+            5,
+            3,
+            false
+        );
+        expect(forward.length).toBe(3);
+        expect(forward[2].map((block) => block.index)).toEqual([
+            20, 21, 22, 23, 24,
+        ]);
+
+        const backward = await paginate(
+            repository,
+            conode.blocks[10],
+            4,
+            2,
+            true
+        );
+        expect(backward[1].map((block) => block.index)).toEqual([6, 5, 4, 3]);
+    });
+
+    it("fails with a PaginateError past the end of the chain", async () => {
+        const [conode, repository] = fakeRepository({ length: 30 });
+
+        const pages: SkipBlock[][] = [];
+        const error = await repository
+            .getBlocks(conode.blocks[20].hash, 5, 3, false)
+            .forEach(([, page]) => pages.push(page))
+            .then(
+                () => undefined,
+                (e) => e
+            );
+
+        expect(error).toEqual(jasmine.any(PaginateError));
+        expect(error.errorcode).toBe(FakeConode.errorEndOfChain);
+        expect(pages.map((page) => page[0].index)).toEqual([20, 25]);
+    });
+
+    it("serves the pages up to the last block", async () => {
+        const [conode, repository] = fakeRepository({ length: 30 });
+
+        const pages = await paginate(
+            repository,
+            conode.blocks[20],
+            5,
+            2,
+            false
+        );
+        expect(pages[1][4].index).toBe(29);
+    });
+
+    it("gets a range of blocks ending at the last block", async () => {
+        const [conode, repository] = fakeRepository({ length: 30 });
+
+        const pages: SkipBlock[][] = [];
+        await repository
+            .getRange(conode.blocks[18].hash, 12, 5)
+            .forEach((page) => pages.push(page));
+        expect(pages.map((page) => page.length)).toEqual([5, 5, 2]);
+        expect(pages[2].map((block) => block.index)).toEqual([28, 29]);
+    });
+
+    it("asks the next node when a stream closes during a request", async () => {
+        const [conode, repository] = fakeRepository({ length: 100 });
+        const first = roster.list[0].getWebSocketAddress();
+
+        // The stream stays open for the next request
+        await paginate(repository, conode.blocks[0], 5, 2, false);
+        conode.closeStreams(first);
+
+        const pages = await paginate(
+            repository,
+            conode.blocks[10],
+            5,
+            2,
+            false
+        );
+        expect(pages[1][4].index).toBe(19);
+        expect(repository.connections.isHealthy(first)).toBe(false);
+    });
+
+    it("gets a block by hash and by index", async () => {
+        const [conode, repository] = fakeRepository({ length: 50 });
+
+        const byHash = await repository.getBlock(conode.blocks[42].hash);
+        expect(byHash.index).toBe(42);
+
+        const byIndex = await repository.getBlockByIndex(
+            conode.genesis.hash,
+            17
+        );
+        expect(byIndex.hash).toEqual(conode.blocks[17].hash);
+    });
+
+    it("gets the latest block", async () => {
+        const [conode, repository] = fakeRepository({ length: 50 });
+
+        const latest = await repository.getLatestBlock(conode.genesis.hash);
+        expect(latest.index).toBe(49);
+    });
+
+    it("asks the next node when a node is down", async () => {
+        const [conode, repository] = fakeRepository({ length: 20 });
+        const first = roster.list[0].getWebSocketAddress();
+        conode.setDown(first);
+
+        const block = await repository.getBlock(conode.blocks[3].hash);
+        expect(block.index).toBe(3);
+        expect(repository.connections.isHealthy(first)).toBe(false);
+
+        for (const node of roster.list) {
+            conode.setDown(node.getWebSocketAddress());
+        }
+        await expectAsync(
+            repository.getBlock(conode.blocks[4].hash)
+        ).toBeRejectedWith(jasmine.any(RosterUnreachableError));
+    });
+
+    it("does not ask the other nodes when the request fails", async () => {
+        const [conode, repository] = fakeRepository({ length: 20 });
+
+        await expectAsync(
+            repository.getBlockByIndex(conode.genesis.hash, 20)
+        ).toBeRejectedWithError(/no block with index 20/);
+        for (const node of roster.list) {
+            expect(
+                repository.connections.isHealthy(node.getWebSocketAddress())
+            ).not.toBe(false);
+        }
+    });
+});
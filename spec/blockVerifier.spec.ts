@@ -0,0 +1,105 @@
+import {
+    ByzcoinSignature,
+    ForwardLink,
+    SkipBlock,
+} from "@dedis/cothority/skipchain";
+
+import { BlockVerifier } from "../src/blockVerifier";
+import { FakeConode } from "../src/fakeConode";
+import { fakeRepository, roster } from "./support/fixtures";
+
+describe("BlockVerifier", () => {
+    // Copy of a block with some of its fields changed
+    const tamper = (block: SkipBlock, changes: Partial<SkipBlock>) =>
+        new SkipBlock({ ...block, ...changes });
+
+    it("recomputes the hash of the blocks", () => {
+        const conode = new FakeConode(roster, { length: 10 });
+        const block = conode.blocks[3];
+        expect(BlockVerifier.verifyHash(block)).toBe(true);
+
+        // The header and the position of the block are hashed
+        const header = conode.blocks[4].data;
+        expect(BlockVerifier.verifyHash(tamper(block, { data: header }))).toBe(
+            false
+        );
+        expect(BlockVerifier.verifyHash(tamper(block, { index: 4 }))).toBe(
+            false
+        );
+    });
+
+    it("checks the transactions committed in the header", () => {
+        const conode = new FakeConode(roster, { length: 10 });
+        const block = conode.blocks[3];
+        const [expected, computed] = BlockVerifier.transactionHashes(block);
+        expect(computed).toEqual(expected);
+
+        // The body is not hashed, its transactions are committed in the header
+        const payload = conode.blocks[4].payload;
+        const tampered = tamper(block, { payload });
+        expect(BlockVerifier.verifyHash(tampered)).toBe(true);
+        const [header, body] = BlockVerifier.transactionHashes(tampered);
+        expect(header).toEqual(expected);
+        expect(body).not.toEqual(expected);
+    });
+
+    it("reads the signers of a forward link from its mask", () => {
+        const conode = new FakeConode(roster, { length: 10 });
+        const block = conode.blocks[3];
+        const link = block.forwardLinks[0];
+        expect(BlockVerifier.signers(block, link)).toEqual([true, true, true]);
+
+        const masked = (mask: number[]) =>
+            new ForwardLink({
+                from: link.from,
+                signature: new ByzcoinSignature({
+                    msg: link.signature.msg,
+                    sig: Buffer.concat([
+                        Buffer.alloc(FakeConode.signatureSize),
+                        Buffer.from(mask),
+                    ]),
+                }),
+                to: link.to,
+            });
+        // The second node did not sign
+        expect(BlockVerifier.signers(block, masked([0b101]))).toEqual([
+            true,
+            false,
+            true,
+        ]);
+        // A mask too short for the roster
+        expect(BlockVerifier.signers(block, masked([]))).toEqual([
+            false,
+            false,
+            false,
+        ]);
+    });
+
+    it("verifies the forward links signed by the roster", async () => {
+        const [conode, repository] = fakeRepository({
+            brokenLink: 5,
+            length: 20,
+        });
+
+        const block = await repository.getBlock(conode.blocks[4].hash);
+        expect(block.forwardLinks.length).toBe(2);
+        for (const link of block.forwardLinks) {
+            expect(BlockVerifier.verifyForwardLink(block, link)).toBeNull();
+        }
+    });
+
+    it("fails on a forward link with a wrong signature", async () => {
+        const [conode, repository] = fakeRepository({
+            brokenLink: 5,
+            length: 20,
+        });
+
+        const block = await repository.getBlock(conode.blocks[5].hash);
+        const error = BlockVerifier.verifyForwardLink(
+            block,
+            block.forwardLinks[0]
+        );
+        expect(error).toEqual(jasmine.any(Error));
+        expect(error.message).toContain("BLS signature not verified");
+    });
+});
@@ -0,0 +1,79 @@
+import * as d3 from "d3";
+
+import { Chain } from "../src/chain";
+import { FakeConode } from "../src/fakeConode";
+import { Flash } from "../src/flash";
+import { LastAddedBlock } from "../src/lastAddedBlock";
+import { fakeRepository, waitFor } from "./support/fixtures";
+
+describe("Chain", () => {
+    // Each load of a chunk waits before sending its request
+    const loadTimeout = 10000;
+    const length = 1500;
+
+    let conode: FakeConode;
+    let chain: Chain;
+
+    // Move the view to show the blocks from an index, through the zoom
+    const moveTo = (index: number) => {
+        const transform = d3.zoomIdentity.translate(
+            -index * Chain.unitBlockAndPaddingWidth,
+            0
+        );
+        d3.select("#svg-container").call(Chain.zoom.transform, transform);
+        chain.transformHandler(transform);
+    };
+
+    const loaded = () => chain.chunks.every((chunk) => !chunk.isLoading);
+
+    beforeAll(() => {
+        jasmine.DEFAULT_TIMEOUT_INTERVAL = 4 * loadTimeout;
+    });
+
+    beforeEach(() => {
+        Chain.svgWidth = 1024;
+        Chain.pageSize = 50;
+
+        let repository;
+        [conode, repository] = fakeRepository({ length });
+        chain = new Chain(repository, new Flash(), conode.genesis, true);
+        chain.lastAddedBlock = {
+            lastBlock: conode.blocks[length - 1],
+        } as LastAddedBlock;
+    });
+
+    afterEach(() => {
+        chain.chunks.forEach((chunk) => chunk.stop());
+        Chain.resizeSubscription.unsubscribe();
+    });
+
+    it("merges and unloads the chunk that reached the end of the chain", async () => {
+        moveTo(length - 10);
+        await waitFor(loaded, loadTimeout);
+        const last = chain.chunks[0];
+        expect(last.rightBlock.index).toBe(length - 1);
+
+        // A second chunk just before the first one
+        moveTo(last.leftBlock.index - 20);
+        expect(chain.chunks.length).toBe(2);
+        await waitFor(loaded, loadTimeout);
+
+        chain.mergeChunks();
+        expect(chain.chunks.length).toBe(1);
+        expect(chain.chunks[0].rightBlock.index).toBe(length - 1);
+
+        const unloaded: [number, number][] = [];
+        chain.unloadedBlocksSubject.subscribe((range) => unloaded.push(range));
+        spyOn(chain.repository.decoder, "forget").and.callThrough();
+        Chain.totalLoaded = Chain.maxLoadedBlocks + 1;
+        chain.unloadFarBlocks({ left: 0, right: 10 });
+
+        expect(chain.chunks.length).toBe(0);
+        expect(unloaded.length).toBe(1);
+        expect(unloaded[0][1]).toBe(length - 1);
+        expect(chain.repository.decoder.forget).toHaveBeenCalledWith(
+            unloaded[0][0],
+            length - 1
+        );
+    });
+});
@@ -0,0 +1,167 @@
+import { SkipBlock } from "@dedis/cothority/skipchain";
+import { Subject } from "rxjs";
+
+import { BlockRepository } from "../src/blockRepository";
+import { Chain } from "../src/chain";
+import { ChainRenderer } from "../src/chainRenderer";
+import { Chunk } from "../src/chunk";
+import { FakeConode } from "../src/fakeConode";
+import { Flash } from "../src/flash";
+import { IndexLayout } from "../src/indexLayout";
+import { LastAddedBlock } from "../src/lastAddedBlock";
+import { fakeRepository, waitFor } from "./support/fixtures";
+
+/**
+ * Renderer keeping the indexes of the blocks drawn.
+ */
+class RecordingRenderer implements ChainRenderer {
+    readonly linkClickedSubject = new Subject<[SkipBlock, number]>();
+    readonly linkDoubleClickedSubject = new Subject<[SkipBlock, number]>();
+    readonly drawn = new Set<number>();
+
+    addBlock(x: number, block: SkipBlock) {
+        expect(this.drawn.has(block.index)).toBe(false);
+        this.drawn.add(block.index);
+    }
+
+    addArrow() {
+        // The arrows are not checked
+    }
+
+    removeBlocks(from: number, to: number) {
+        for (let index = from; index <= to; index++) {
+            this.drawn.delete(index);
+        }
+    }
+
+    setTransform() {
+        // The view is not drawn
+    }
+
+    setBlockColor() {
+        // The view is not drawn
+    }
+
+    setBlockOutline() {
+        // The view is not drawn
+    }
+
+    setHeightFilter() {
+        // The view is not drawn
+    }
+
+    highlightLinks() {
+        // The view is not drawn
+    }
+}
+
+describe("Chunk", () => {
+    // Each load waits before sending its request
+    const loadTimeout = 10000;
+
+    let conode: FakeConode;
+    let repository: BlockRepository;
+    let renderer: RecordingRenderer;
+    let transforms: Subject<any>;
+    let chunk: Chunk;
+
+    const createChunk = (
+        bounds: { left: number; right: number },
+        last: SkipBlock
+    ) =>
+        new Chunk(
+            repository,
+            new Flash(),
+            undefined,
+            undefined,
+            bounds,
+            conode.genesis,
+            { lastBlock: last } as LastAddedBlock,
+            transforms,
+            new Subject<SkipBlock[]>(),
+            new Subject<[number, number]>(),
+            renderer
+        );
+
+    // Move the view to show the blocks from an index
+    const moveTo = (index: number) =>
+        transforms.next({
+            k: 1,
+            x: -index * Chain.unitBlockAndPaddingWidth,
+            y: 0,
+        });
+
+    const range = (from: number, to: number) =>
+        Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+    beforeEach(() => {
+        jasmine.DEFAULT_TIMEOUT_INTERVAL = 4 * loadTimeout;
+        Chain.layout = new IndexLayout();
+        Chain.svgWidth = 1024;
+        Chain.pageSize = 50;
+        Chain.totalLoaded = 0;
+
+        [conode, repository] = fakeRepository({ length: 120 });
+        renderer = new RecordingRenderer();
+        transforms = new Subject();
+    });
+
+    afterEach(() => {
+        chunk.stop();
+    });
+
+    it("loads the blocks on both sides of its first block", async () => {
+        chunk = createChunk({ left: 40, right: 60 }, conode.blocks[119]);
+
+        await waitFor(() => !chunk.isLoading, loadTimeout);
+        expect(chunk.leftBlock.index).toBe(0);
+        expect(chunk.rightBlock.index).toBe(89);
+        expect(Array.from(renderer.drawn).sort((a, b) => a - b)).toEqual(
+            range(0, 89)
+        );
+        expect(Chain.totalLoaded).toBe(90);
+    });
+
+    it("loads the blocks to the right up to the end of the chain", async () => {
+        chunk = createChunk({ left: 40, right: 60 }, conode.blocks[119]);
+        await waitFor(() => !chunk.isLoading, loadTimeout);
+
+        moveTo(90);
+        await waitFor(() => chunk.rightBlock.index === 119, loadTimeout);
+        await waitFor(() => !chunk.isLoading, loadTimeout);
+        expect(renderer.drawn.size).toBe(120);
+
+        // Nothing is left to load
+        moveTo(110);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(chunk.isLoading).toBe(false);
+    });
+
+    it("loads the blocks to the left when the view moves back", async () => {
+        chunk = createChunk({ left: 100, right: 110 }, conode.blocks[119]);
+        await waitFor(() => !chunk.isLoading, loadTimeout);
+        expect(chunk.leftBlock.index).toBe(50);
+
+        moveTo(45);
+        await waitFor(() => chunk.leftBlock.index === 0, loadTimeout);
+        await waitFor(() => !chunk.isLoading, loadTimeout);
+        expect(Array.from(renderer.drawn).sort((a, b) => a - b)).toEqual(
+            range(0, 119)
+        );
+    });
+
+    it("loads the new blocks once the chain grows", async () => {
+        chunk = createChunk({ left: 80, right: 100 }, conode.blocks[100]);
+        await waitFor(() => !chunk.isLoading, loadTimeout);
+        moveTo(90);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        await waitFor(() => !chunk.isLoading, loadTimeout);
+        expect(chunk.rightBlock.index).toBe(100);
+
+        chunk.onNewHead(conode.blocks[119]);
+        await waitFor(() => chunk.rightBlock.index === 119, loadTimeout);
+        await waitFor(() => !chunk.isLoading, loadTimeout);
+        expect(renderer.drawn.has(101)).toBe(true);
+        expect(renderer.drawn.has(119)).toBe(true);
+    });
+});
@@ -0,0 +1,30 @@
+import { JSDOM, VirtualConsole } from "jsdom";
+
+// The modules of the explorer draw in the page and read the size of the
+// window when they are loaded: the specs run them in a page with the
+// containers of index.html they use.
+const dom = new JSDOM(
+    `<!DOCTYPE html>
+    <body>
+        <select id="height-filter"></select>
+        <input id="hide-filtered" type="checkbox" />
+        <svg id="svg-container"><g id="loader"></g></svg>
+        <span id="loaded-blocks">0</span>
+        <span id="live-chunks">0</span>
+        <span id="live-nodes">0</span>
+    </body>`,
+    // The canvas of jsdom cannot draw the blockies, its errors are dropped
+    { pretendToBeVisual: true, virtualConsole: new VirtualConsole() }
+);
+
+Object.assign(global, {
+    document: dom.window.document,
+    window: dom.window,
+    // Used by uikit when it is loaded
+    Element: dom.window.Element,
+    requestAnimationFrame: dom.window.requestAnimationFrame,
+});
+// Recent versions of node have their own navigator
+if (typeof navigator === "undefined") {
+    Object.assign(global, { navigator: dom.window.navigator });
+}
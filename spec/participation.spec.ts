@@ -0,0 +1,61 @@
+import {
+    ByzcoinSignature,
+    ForwardLink,
+    SkipBlock,
+} from "@dedis/cothority/skipchain";
+
+import { FakeConode } from "../src/fakeConode";
+import { Participation } from "../src/participation";
+import { roster } from "./support/fixtures";
+
+describe("Participation", () => {
+    // Copy of a block whose forward links have the given masks
+    const withMasks = (block: SkipBlock, masks: number[]) =>
+        new SkipBlock({
+            ...block,
+            forward: block.forwardLinks.map(
+                (link, level) =>
+                    new ForwardLink({
+                        from: link.from,
+                        signature: new ByzcoinSignature({
+                            msg: link.signature.msg,
+                            sig: Buffer.concat([
+                                Buffer.alloc(FakeConode.signatureSize),
+                                Buffer.from([masks[level]]),
+                            ]),
+                        }),
+                        to: link.to,
+                    })
+            ),
+        });
+
+    it("counts the forward links signed by each node", () => {
+        const conode = new FakeConode(roster, { length: 10 });
+        // Blocks 0 and 4 have two forward links each
+        const blocks = [
+            withMasks(conode.blocks[0], [0b111, 0b011]),
+            withMasks(conode.blocks[4], [0b110, 0b010]),
+        ];
+
+        const nodes = Participation.count(blocks);
+        expect(nodes.size).toBe(3);
+        const [first, second, third] = roster.list.map((node) =>
+            nodes.get(node.public.toString("hex"))
+        );
+        expect(first.address).toBe(roster.list[0].address);
+        expect(first.description).toBe(roster.list[0].description);
+
+        expect([first.rounds, first.signed]).toEqual([4, 2]);
+        // A block is missed once, even if several of its links are
+        expect(first.missed).toEqual([4]);
+        expect([second.rounds, second.signed]).toEqual([4, 4]);
+        expect(second.missed).toEqual([]);
+        expect([third.rounds, third.signed]).toEqual([4, 2]);
+        expect(third.missed).toEqual([0, 4]);
+    });
+
+    it("counts nothing for the blocks without forward links", () => {
+        const conode = new FakeConode(roster, { length: 10 });
+        expect(Participation.count([conode.blocks[9]]).size).toBe(0);
+    });
+});
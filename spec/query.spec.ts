@@ -0,0 +1,83 @@
+import { Instruction } from "@dedis/cothority/byzcoin";
+
+import { Query, QuerySyntaxError } from "../src/query";
+
+describe("Query", () => {
+    // Parse a query that must fail, and return its error
+    const syntaxError = (text: string): QuerySyntaxError => {
+        try {
+            Query.parse(text);
+        } catch (e) {
+            expect(e).toEqual(jasmine.any(QuerySyntaxError));
+            return e;
+        }
+        fail(`"${text}" is parsed`);
+    };
+
+    it("parses the fields of a query", () => {
+        const query = Query.parse(
+            "contract:coin action:invoke action:delete signer:ed25519:ab " +
+                "instance:0A1b accepted:false block:1000..2000"
+        );
+        expect(query.contracts).toEqual(["coin"]);
+        expect(query.actions).toEqual([
+            Instruction.typeInvoke,
+            Instruction.typeDelete,
+        ]);
+        expect(query.signers).toEqual(["ed25519:ab"]);
+        expect(query.instances).toEqual(["0a1b"]);
+        expect(query.accepted).toBe(false);
+        expect(query.fromIndex).toBe(1000);
+        expect(query.toIndex).toBe(2000);
+        expect(query.isInstanceQuery).toBe(false);
+    });
+
+    it("parses the ranges of blocks", () => {
+        const range = (text: string) => {
+            const query = Query.parse(`block:${text}`);
+            return [query.fromIndex, query.toIndex];
+        };
+        expect(range("12")).toEqual([12, 12]);
+        expect(range("12..")).toEqual([12, undefined]);
+        expect(range("..12")).toEqual([undefined, 12]);
+        expect(range("3..3")).toEqual([3, 3]);
+    });
+
+    it("keeps the text of the query", () => {
+        const query = Query.parse("  instance:00ff  ");
+        expect(query.toString()).toBe("instance:00ff");
+        expect(query.isInstanceQuery).toBe(true);
+    });
+
+    it("reports the failing token and its position", () => {
+        let error = syntaxError("contract:coin  action:sleep accepted:true");
+        expect(error.token).toBe("action:sleep");
+        expect(error.start).toBe(15);
+        expect(error.end).toBe(27);
+        expect(error.message).toContain("at column 16");
+
+        error = syntaxError("contract:coin oops");
+        expect([error.token, error.start, error.end]).toEqual(["oops", 14, 18]);
+
+        error = syntaxError(" color:red");
+        expect([error.start, error.end]).toEqual([1, 10]);
+        expect(error.message).toContain('unknown field "color"');
+    });
+
+    it("refuses the values that are not valid", () => {
+        const invalid = [
+            "",
+            "contract:",
+            "instance:xyz",
+            "accepted:yes",
+            "block:..",
+            "block:12..a",
+            "block:20..10",
+        ];
+        for (const text of invalid) {
+            const error = syntaxError(text);
+            expect(error.start).toBe(0);
+            expect(error.end).toBe(text.length);
+        }
+    });
+});
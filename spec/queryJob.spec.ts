@@ -0,0 +1,125 @@
+import { Instruction } from "@dedis/cothority/byzcoin";
+import { SkipBlock } from "@dedis/cothority/skipchain";
+
+import { BlockRepository } from "../src/blockRepository";
+import { FakeConode } from "../src/fakeConode";
+import { Flash } from "../src/flash";
+import { Lifecycle } from "../src/lifecycle";
+import { Query } from "../src/query";
+import { QueryJob } from "../src/queryJob";
+import { TotalBlock } from "../src/totalBlock";
+import { Utils } from "../src/utils";
+import { fakeRepository } from "./support/fixtures";
+
+describe("QueryJob", () => {
+    let conode: FakeConode;
+    let repository: BlockRepository;
+    let lifecycle: Lifecycle;
+
+    // Number of results asked, more than the instructions of the chains
+    const all = 1000;
+
+    // The fake chain has 2 transactions per block, going through 5
+    // instances in turn
+    const instructionsOfFirstInstance = (length: number) =>
+        Math.ceil((2 * length) / 5);
+
+    beforeEach(() => {
+        // The end of each browsing is flashed
+        spyOn(console, "info");
+    });
+
+    const createLifecycle = (length: number) => {
+        [conode, repository] = fakeRepository({ length });
+        lifecycle = new Lifecycle(
+            repository,
+            new Flash(),
+            new TotalBlock(repository, conode.genesis),
+            Utils.bytes2String(conode.genesis.hash)
+        );
+    };
+
+    const firstInstance = () =>
+        Query.forInstance(conode.instanceIDs[0].toString("hex"));
+
+    // Wait for the end of a job and get its results
+    const results = (job: QueryJob) =>
+        new Promise<[SkipBlock[], Instruction[]]>((resolve) => {
+            let found: [SkipBlock[], Instruction[]] = [[], []];
+            job.subjectInstruction.subscribe({
+                complete: () => resolve(found),
+                next: (value) => (found = value),
+            });
+        });
+
+    it("counts the blocks and the instructions of a whole chain", async () => {
+        createLifecycle(50);
+
+        const job = lifecycle.startQuery(firstInstance(), all, "", false, true);
+        const [blocks, instructions] = await results(job);
+
+        expect(job.isRunning).toBe(false);
+        expect(job.seenBlocks).toBe(50);
+        expect(job.nbInstanceFound).toBe(instructionsOfFirstInstance(50));
+        expect(instructions.length).toBe(job.nbInstanceFound);
+        expect(blocks.length).toBe(job.nbInstanceFound);
+    });
+
+    it("browses the last partial page block by block", async () => {
+        createLifecycle(45);
+
+        const job = lifecycle.startQuery(firstInstance(), all, "", false, true);
+        await results(job);
+
+        expect(job.seenBlocks).toBe(45);
+        expect(job.nbInstanceFound).toBe(instructionsOfFirstInstance(45));
+    });
+
+    it("stops once enough instructions are found", async () => {
+        createLifecycle(50);
+
+        const job = lifecycle.startQuery(firstInstance(), 3, "", false, true);
+        const [, instructions] = await results(job);
+
+        expect(instructions.length).toBe(3);
+        expect(job.seenBlocks).toBeLessThan(50);
+    });
+
+    it("browses the previous blocks of a block", async () => {
+        createLifecycle(50);
+
+        const job = lifecycle.startQuery(
+            firstInstance(),
+            all,
+            Utils.bytes2String(conode.blocks[29].hash),
+            true,
+            false
+        );
+        const [blocks] = await results(job);
+
+        expect(job.seenBlocks).toBe(30);
+        expect(job.nbInstanceFound).toBe(instructionsOfFirstInstance(30));
+        expect(blocks[0].index).toBeGreaterThan(blocks[1].index);
+    });
+
+    it("keeps the counters of each job apart", async () => {
+        createLifecycle(50);
+
+        const whole = lifecycle.startQuery(
+            firstInstance(),
+            all,
+            "",
+            false,
+            true
+        );
+        const range = Query.parse(
+            `instance:${conode.instanceIDs[0].toString("hex")} block:20..29`
+        );
+        const part = lifecycle.startQuery(range, all, "", false, true);
+        await Promise.all([results(whole), results(part)]);
+
+        expect(whole.nbInstanceFound).toBe(instructionsOfFirstInstance(50));
+        expect(part.nbInstanceFound).toBe(4);
+        expect(part.seenBlocks).toBe(10);
+    });
+});
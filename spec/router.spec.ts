@@ -0,0 +1,62 @@
+import { Route, Router } from "../src/router";
+
+describe("Router", () => {
+    const hash =
+        "9cc36071ccb902a1de7e0d21a2c176d73894b1cf88ae4cc2ba4c95cd76f474f3";
+
+    it("formats and parses back the routes", () => {
+        const routes: Route[] = [
+            {},
+            { skipchainID: hash },
+            { blockIndex: 0 },
+            { blockHash: hash, skipchainID: hash },
+            { blockIndex: 42, instruction: 1, transaction: 3 },
+            { blockHash: hash, transaction: 0 },
+            { instanceID: hash },
+            { blockIndex: 7, instanceID: hash, skipchainID: hash },
+        ];
+        for (const route of routes) {
+            expect(Router.parse(`#${Router.format(route)}`)).toEqual(route);
+        }
+        expect(
+            Router.format({
+                blockIndex: 42,
+                instruction: 1,
+                skipchainID: hash,
+                transaction: 3,
+            })
+        ).toBe(`chain/${hash}/block/42/tx/3/instr/1`);
+    });
+
+    it("parses the legacy links to a block index", () => {
+        expect(Router.parse("#index:12")).toEqual({ blockIndex: 12 });
+        expect(Router.parse("#index:")).toBeUndefined();
+        expect(Router.parse("#index:12a")).toBeUndefined();
+    });
+
+    it("reads a block segment as an index or a hash", () => {
+        expect(Router.parse("#block/123")).toEqual({ blockIndex: 123 });
+        expect(Router.parse("#block/12AB")).toEqual({ blockHash: "12ab" });
+        // Too long for an index, it is a hash
+        expect(Router.parse("#block/0123456789012345")).toEqual({
+            blockHash: "0123456789012345",
+        });
+        expect(Router.parse("#block/xyz")).toBeUndefined();
+    });
+
+    it("refuses the routes that are not valid", () => {
+        expect(Router.parse("#block")).toBeUndefined();
+        expect(Router.parse("#block/1/tx")).toBeUndefined();
+        expect(Router.parse("#chain/zz")).toBeUndefined();
+        expect(Router.parse("#unknown/1")).toBeUndefined();
+        expect(Router.parse("#block/1/tx/a")).toBeUndefined();
+        expect(Router.parse(`#instance/${hash}/instr/-1`)).toBeUndefined();
+    });
+
+    it("refuses a transaction or an instruction without a block", () => {
+        expect(Router.parse("#tx/1")).toBeUndefined();
+        expect(Router.parse(`#chain/${hash}/tx/1/instr/0`)).toBeUndefined();
+        expect(Router.parse("#block/1/instr/0")).toBeUndefined();
+        expect(Router.format({ instruction: 0, transaction: 1 })).toBe("");
+    });
+});
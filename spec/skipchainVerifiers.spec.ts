@@ -0,0 +1,37 @@
+import { SkipchainVerifiers } from "../src/skipchainVerifiers";
+
+describe("SkipchainVerifiers", () => {
+    // IDs of the verification functions of the nodes, created by
+    // uuid.NewV5(uuid.NamespaceURL, name) in skipchain and byzcoin
+    const ids = new Map([
+        ["Base", "a7f6cdb7-47f8-56b4-aff5-ece35a882489"],
+        ["Root", "20b519d5-97ba-583f-ad75-1fe3902b420a"],
+        ["Control", "7bea5d55-041e-54d6-ad6d-53df1f18687b"],
+        ["Data", "530318f9-9b84-5b90-b926-530590cdd5c3"],
+        ["ByzCoin", "14b74055-89f3-5031-aa63-a2839dbfdbdd"],
+    ]);
+
+    it("computes the IDs of the verification functions", () => {
+        for (const [name, uuid] of ids) {
+            expect(SkipchainVerifiers.id(name).toString("hex")).toBe(
+                uuid.replace(/-/g, "")
+            );
+        }
+    });
+
+    it("resolves the IDs of the known functions", () => {
+        for (const [name, uuid] of ids) {
+            const id = Buffer.from(uuid.replace(/-/g, ""), "hex");
+            const verifier = SkipchainVerifiers.resolve(id);
+            expect(verifier.name).toBe(name);
+            expect(verifier.known).toBe(true);
+            expect(verifier.description).toBe(
+                SkipchainVerifiers.known.get(name)
+            );
+        }
+
+        const unknown = SkipchainVerifiers.resolve(Buffer.alloc(16));
+        expect(unknown.known).toBe(false);
+        expect(unknown.name).toBe("Unknown verifier");
+    });
+});
@@ -0,0 +1,75 @@
+import { Hop, SkiplinkPath } from "../src/skiplinkPath";
+
+describe("SkiplinkPath", () => {
+    const baseHeight = 4;
+    const maxHeight = 32;
+    const lastIndex = 1000;
+
+    const path = (from: number, to: number) =>
+        SkiplinkPath.shortestPath(from, to, lastIndex, baseHeight, maxHeight);
+
+    // Check that the hops follow links the blocks have
+    const expectLinked = (hops: Hop[], from: number, to: number) => {
+        let index = from;
+        for (const hop of hops) {
+            expect(hop.from).toBe(index);
+            expect(Math.abs(hop.to - hop.from)).toBe(
+                Math.pow(baseHeight, hop.level)
+            );
+            expect(
+                SkiplinkPath.height(hop.from, baseHeight, maxHeight)
+            ).toBeGreaterThan(hop.level);
+            index = hop.to;
+        }
+        expect(index).toBe(to);
+    };
+
+    it("computes the height of the blocks", () => {
+        expect(SkiplinkPath.height(0, baseHeight, maxHeight)).toBe(maxHeight);
+        expect(SkiplinkPath.height(5, baseHeight, maxHeight)).toBe(1);
+        expect(SkiplinkPath.height(20, baseHeight, maxHeight)).toBe(2);
+        expect(SkiplinkPath.height(16, baseHeight, maxHeight)).toBe(3);
+        expect(SkiplinkPath.height(256, baseHeight, 3)).toBe(3);
+    });
+
+    it("finds a path forward", () => {
+        expect(path(0, 20)).toEqual([
+            { from: 0, level: 2, to: 16 },
+            { from: 16, level: 1, to: 20 },
+        ]);
+
+        expectLinked(path(3, 777), 3, 777);
+    });
+
+    it("finds a path backward", () => {
+        expect(path(20, 0)).toEqual([
+            { from: 20, level: 1, to: 16 },
+            { from: 16, level: 2, to: 0 },
+        ]);
+        expectLinked(path(999, 2), 999, 2);
+    });
+
+    it("goes past the target when it is shorter", () => {
+        expect(path(1, 15)).toEqual([
+            { from: 1, level: 0, to: 0 },
+            { from: 0, level: 2, to: 16 },
+            { from: 16, level: 0, to: 15 },
+        ]);
+        expect(path(63, 1)).toEqual([
+            { from: 63, level: 0, to: 64 },
+            { from: 64, level: 3, to: 0 },
+            { from: 0, level: 0, to: 1 },
+        ]);
+    });
+
+    it("does not go past the last block", () => {
+        const hops = path(990, lastIndex);
+        expectLinked(hops, 990, lastIndex);
+        expect(hops.every((hop) => hop.to <= lastIndex)).toBe(true);
+    });
+
+    it("has no hop when the path starts at the target", () => {
+        expect(path(0, 0)).toEqual([]);
+        expect(path(123, 123)).toEqual([]);
+    });
+});
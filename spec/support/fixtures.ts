@@ -0,0 +1,53 @@
+import { Roster } from "@dedis/cothority/network";
+
+import { BlockRepository } from "../../src/blockRepository";
+import { ConnectionManager } from "../../src/connectionManager";
+import { FakeConode, FixtureOptions } from "../../src/fakeConode";
+
+// Nodes of the roster of the generated chains
+export const roster = Roster.fromTOML(`[[servers]]
+  Address = "tls://conode.c4dt.org:7770"
+  Suite = "Ed25519"
+  Public = "67e30e168f83c4d4614e277cefba42dbc1fb5886b3945364ea5dae3f4e4fbc0d"
+  Description = "C4DT Conode"
+  URL = "https://conode.c4dt.org"
+
+[[servers]]
+  Address = "tls://conode2.c4dt.org:7771"
+  Suite = "Ed25519"
+  Public = "8592a0dc194d1ba035693d922dd1e5076c89c28275143de80ea4e9640b4df6ea"
+  Description = "2nd c4dt conode"
+  URL = "https://conode2.c4dt.org"
+
+[[servers]]
+  Address = "tls://conode4.c4dt.org:7773"
+  Suite = "Ed25519"
+  Public = "ac4437e2a83d688bd2e1b4c0ae1d87bcdcc8b6de28fa29018ec128a34635c59e"
+  Description = "C4DT Conode 4"
+  URL = "https://conode4.c4dt.org"`);
+
+/**
+ * Create a fake conode and a repository getting its blocks from it.
+ * @param options the shape of the generated chain
+ */
+export function fakeRepository(
+    options: FixtureOptions = {}
+): [FakeConode, BlockRepository] {
+    const conode = new FakeConode(roster, options);
+    return [conode, new BlockRepository(new ConnectionManager(roster, conode))];
+}
+
+/**
+ * Wait until a condition holds, checking it every 10ms.
+ * @param condition
+ * @param timeout the time after which the wait fails, in milliseconds
+ */
+export async function waitFor(condition: () => boolean, timeout = 5000) {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > timeout) {
+            throw new Error("timeout while waiting for the condition");
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+}
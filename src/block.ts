@@ -1,16 +1,23 @@
 import { Instruction } from "@dedis/cothority/byzcoin";
-import { DataBody } from "@dedis/cothority/byzcoin/proto";
+import { DataBody, DataHeader } from "@dedis/cothority/byzcoin/proto";
 import { Roster } from "@dedis/cothority/network";
 import { SkipBlock } from "@dedis/cothority/skipchain";
 import * as d3 from "d3";
 import { Observable, Subject } from "rxjs";
 import { throttleTime } from "rxjs/operators";
-import { Chain } from "./chain";
+import { BlockRepository } from "./blockRepository";
+import { BlockVerifier } from "./blockVerifier";
+import { ChainRenderer } from "./chainRenderer";
 import { Flash } from "./flash";
 import { InstructionChain } from "./instructionChain";
 import { Lifecycle } from "./lifecycle";
+import { Query } from "./query";
+import { QueryJob } from "./queryJob";
+import { Router } from "./router";
+import { SkipchainVerifiers } from "./skipchainVerifiers";
 import { Utils } from "./utils";
 import * as blockies from "blockies-ts";
+import UIkit from "uikit";
 
 /**
  * the two containers for the details of the clicked block
@@ -39,6 +46,9 @@ export class Block {
     hashHighligh: SkipBlock[];
 
     roster: Roster;
+    repository: BlockRepository;
+    router: Router;
+    renderer: ChainRenderer;
     // progress bar
     progressBarContainer: d3.Selection<
         HTMLDivElement,
@@ -51,8 +61,8 @@ export class Block {
     loadContainer: d3.Selection<HTMLDivElement, unknown, HTMLElement, any>;
     progressBarItem: HTMLElement;
 
-    // Subject that will be called when a query is launched
-    querySubject: [Subject<[SkipBlock[], Instruction[]]>, Subject<number[]>];
+    // The last query launched
+    queryJob: QueryJob;
 
     /**
      * Creates an instance of DetailBlock.
@@ -66,6 +76,11 @@ export class Block {
      * the blocks of an instance lifecycle, because if new blocks are added, some
      * may need to be highlighted.
      * @param {Roster} roster : The associated roster
+     * @param {BlockRepository} repository : Used to get the linked blocks
+     * @param {Router} router : Keeps the url in sync with the selected block,
+     * the opened instruction and the searched instance
+     * @param {ChainRenderer} renderer : Draws the selected and highlighted
+     * blocks of the chain
      * @memberof DetailBlock
      */
     constructor(
@@ -73,7 +88,10 @@ export class Block {
         lifecycle: Lifecycle,
         flash: Flash,
         loadedSkipBObs: Observable<SkipBlock[]>,
-        roster: Roster
+        roster: Roster,
+        repository: BlockRepository,
+        router: Router,
+        renderer: ChainRenderer
     ) {
         this.skipBclickedSubject = skipBclickedSubject;
         this.skipBclickedSubject.subscribe({
@@ -84,6 +102,9 @@ export class Block {
         this.colorClickedBlock = "#006fff";
 
         this.roster = roster;
+        this.repository = repository;
+        this.router = router;
+        this.renderer = renderer;
 
         this.loadedSkipBObs = loadedSkipBObs;
 
@@ -111,10 +132,75 @@ export class Block {
             },
         });
     }
+    /**
+     * Open the accordion of an instruction of the displayed block and scroll
+     * to it. Without instruction, it scrolls to the transaction.
+     *
+     * @param {number} transaction : the index of the transaction in the block
+     * @param {number} instruction : the index of the instruction in the
+     * transaction
+     * @memberof DetailBlock
+     */
+    openInstruction(transaction: number, instruction: number) {
+        if (transaction === undefined) {
+            return;
+        }
+
+        const transactionElement = document.querySelector(
+            `.browse-container [data-transaction="${transaction}"]`
+        );
+        const instructionElement =
+            transactionElement === null || instruction === undefined
+                ? transactionElement
+                : transactionElement.querySelector(
+                      `[data-instruction="${instruction}"]`
+                  );
+        if (instructionElement === null) {
+            this.flash.display(
+                Flash.flashType.WARNING,
+                `Block ${this.clickedBlock.index} has no ` +
+                    (instruction === undefined
+                        ? `transaction ${transaction}`
+                        : `instruction ${instruction} in transaction ${transaction}`)
+            );
+            return;
+        }
+
+        if (
+            instruction !== undefined &&
+            !instructionElement.firstElementChild.classList.contains("uk-open")
+        ) {
+            UIkit.accordion(instructionElement).toggle(0, false);
+        }
+        instructionElement.scrollIntoView();
+    }
+
     setSearch() {
         throw new Error("Method not implemented.");
     }
 
+    /**
+     * Download the data of a block, its transactions and instructions, as a
+     * JSON file.
+     *
+     * @param {SkipBlock} block
+     * @memberof DetailBlock
+     */
+    exportBlock(block: SkipBlock) {
+        // Auto click on a element, trigger the file download
+        const blobConfig = BTexportDataBlob(block);
+        // Convert Blob to URL
+        const blobUrl = URL.createObjectURL(blobConfig);
+
+        // Create an a element with blob URL
+        const anchor = document.createElement("a");
+        anchor.href = blobUrl;
+        anchor.target = "_blank";
+        anchor.download = `block_${block.index}_data.json`;
+        anchor.click();
+        URL.revokeObjectURL(blobUrl);
+    }
+
     /**
      * Display the list of all the transactions inside the clicked block.
      * It is triggered on click by the blocksDiagram class which notifies the
@@ -132,18 +218,13 @@ export class Block {
         // (re)set the color of the clickedBlock
         if (this.clickedBlock !== block) {
             if (this.clickedBlock != null) {
-                const blockSVG = d3.select(
-                    `[id = "${this.clickedBlock.hash.toString("hex")}"]`
-                );
-                blockSVG.attr("fill", Chain.getBlockColor(this.clickedBlock));
+                this.renderer.setBlockColor(this.clickedBlock, undefined);
             }
 
             this.clickedBlock = block;
+            this.router.selectBlock(block);
 
-            d3.select(`[id = "${block.hash.toString("hex")}"]`).attr(
-                "fill",
-                this.colorClickedBlock
-            );
+            this.renderer.setBlockColor(block, this.colorClickedBlock);
         }
 
         const self = this;
@@ -209,7 +290,11 @@ export class Block {
 
         blockCardHeaderDetails
             .append("p")
-            .text(`Validated on the ${Utils.getTimeString(block)}`);
+            .text(
+                `Validated on the ${Utils.getTimeString(
+                    this.repository.decoder.get(block)
+                )}`
+            );
 
         const heightParagraph = blockCardHeaderDetails.append("p");
         heightParagraph
@@ -260,16 +345,32 @@ export class Block {
             .attr("href", "assets/information-button-gray.svg")
             .attr(
                 "uk-tooltip",
-                `Before a new block is added. A number of verifiers assert that the information contained in it is correct.`
+                `The verification functions that the nodes run on a new block before adding it to the chain.`
             );
 
         aVerifier.append("text").text(`Verifiers : ${block.verifiers.length}`);
         const divVerifier = liVerifier.append("div");
         divVerifier.attr("class", "uk-accordion-content"); // Content on the accordion
-        block.verifiers.forEach((uid, j) => {
+        block.verifiers.forEach((uid) => {
+            const verifier = SkipchainVerifiers.resolve(uid);
             const verifierLine = divVerifier.append("p");
-            verifierLine.text(` Verifier ${j} , ID:  `);
-            Utils.addIDBlocky(verifierLine, uid.toString("hex"), self.flash);
+            verifierLine
+                .append("span")
+                .attr(
+                    "class",
+                    verifier.known ? "uk-label" : "uk-label uk-label-warning"
+                )
+                .attr("uk-tooltip", `ID: ${uid.toString("hex")}`)
+                .text(verifier.name);
+            verifierLine.append("span").text(` ${verifier.description} `);
+            // The ID of an unknown function can be copied to look it up
+            if (!verifier.known) {
+                Utils.addIDBlocky(
+                    verifierLine,
+                    uid.toString("hex"),
+                    self.flash
+                );
+            }
         });
 
         //ANCHOR BackLink details
@@ -310,7 +411,7 @@ export class Block {
                 .text(`Block ${blockIndex}`)
                 .on("click", async function () {
                     Utils.translateOnChain(
-                        (await Utils.getBlock(value, self.roster)).index,
+                        (await self.repository.getBlock(value)).index,
                         block.index
                     );
                 })
@@ -359,9 +460,7 @@ export class Block {
                 .text(`Block ${blockIndex}`)
                 .on("click", async function () {
                     Utils.translateOnChain(
-                        await (
-                            await Utils.getBlock(fl.to, self.roster)
-                        ).index,
+                        (await self.repository.getBlock(fl.to)).index,
                         block.index
                     );
                 })
@@ -388,9 +487,54 @@ export class Block {
                 .attr("id", "forwardlink-drop")
                 .html(lockContent)
                 .style("color", "var(--selected-colour)");
+
+            // The signature is verified with the roster of the block, the
+            // mask of the signature tells who signed
+            const error = BlockVerifier.verifyForwardLink(block, fl);
+            const signers = BlockVerifier.signers(block, fl);
+            const linkCheck = divForwardLink
+                .append("p")
+                .attr("class", "link-check");
+            linkCheck
+                .append("span")
+                .attr(
+                    "class",
+                    error === null
+                        ? "uk-label uk-label-success"
+                        : "uk-label uk-label-danger"
+                )
+                .attr(
+                    "uk-tooltip",
+                    error === null
+                        ? "The collective signature of the roster is valid"
+                        : error.message
+                )
+                .text(
+                    error === null ? "Signature verified" : "Signature failed"
+                );
+            linkCheck
+                .append("span")
+                .text(
+                    ` signed by ${signers.filter((s) => s).length}/${
+                        signers.length
+                    } nodes: `
+                );
+            block.roster.list.forEach((node, i) => {
+                linkCheck
+                    .append("span")
+                    .attr(
+                        "class",
+                        signers[i] ? "uk-badge" : "uk-badge missing-signer"
+                    )
+                    .attr(
+                        "uk-tooltip",
+                        `${node.address}${signers[i] ? "" : " did not sign"}`
+                    )
+                    .text(node.description);
+            });
         });
 
-        const ulRoster = divDetails.append("ul"); // accordion containing all the verifiers of a block
+        const ulRoster = divDetails.append("ul"); // accordion listing the nodes of the roster of the block
         ulRoster.attr("uk-accordion", "");
         const liRoster = ulRoster.append("li");
         const aRoster = liRoster.append("a");
@@ -418,32 +562,44 @@ export class Block {
             .append("div")
             .attr("class", "uk-accordion-content");
 
-        const pRoster = divRoster.append("p");
-
-        // List of participating conodes in the roster
-        const descList: string[] = [];
-        const addressList: string[] = [];
-        for (let i = 0; i < block.roster.list.length; i++) {
-            descList[i] = block.roster.list[i].description;
-            addressList[i] = block.roster.list[i].address;
-        }
-
-        // Roster group
-
-        // List the roster's node
-
-        let left = 1;
-        descList.forEach((node, i) => {
-            pRoster
-                .append("span")
-                .attr("class", "uk-badge")
-                .attr("style", "margin: 5px 4px;font-size : 0.875rem;")
-                .attr("uk-tooltip", "Address: " + addressList[i])
-                .text(node);
-
-            left += 1;
+        // Table of the nodes of the roster, the first one leads the consensus
+        const rosterTable = divRoster
+            .append("table")
+            .attr(
+                "class",
+                "uk-table uk-table-small uk-table-divider roster-table"
+            );
+        const rosterHeader = rosterTable.append("thead").append("tr");
+        ["Position", "Description", "Address", "Public key"].forEach((title) =>
+            rosterHeader.append("th").text(title)
+        );
+        const rosterBody = rosterTable.append("tbody");
+        Utils.rosterNodes(block.roster).forEach((node) => {
+            const row = rosterBody.append("tr");
+            const position = row.append("td").text(node.position);
+            if (node.leader) {
+                position
+                    .append("span")
+                    .attr("class", "uk-label leader-label")
+                    .attr("uk-tooltip", "The leader proposes the new blocks")
+                    .text("leader");
+            }
+            row.append("td").text(node.description);
+            row.append("td").text(node.address);
+            const key = row
+                .append("td")
+                .append("code")
+                .attr("uk-tooltip", "Click to copy")
+                .text(`${node.publicKey.slice(0, Utils.shortKeyLength)}…`)
+                .on("click", () => {
+                    Utils.copyToClipBoard(node.publicKey, self.flash);
+                });
+            Utils.clickable(key);
         });
 
+        // ANCHOR Header details
+        this.listHeader(divDetails, block);
+
         // This card simply hold the title of the section in its header, and lists all transactions
         // in its body
         const transactionCard = transaction_detail_container
@@ -458,18 +614,7 @@ export class Block {
             .html(Utils.downloadIconScript())
             .attr("class", "download-icon-1")
             .on("click", function () {
-                // Auto click on a element, trigger the file download
-                const blobConfig = BTexportDataBlob(block);
-                // Convert Blob to URL
-                const blobUrl = URL.createObjectURL(blobConfig);
-
-                // Create an a element with blob URL
-                const anchor = document.createElement("a");
-                anchor.href = blobUrl;
-                anchor.target = "_blank";
-                anchor.download = `block_${block.index}_data.json`;
-                anchor.click();
-                URL.revokeObjectURL(blobUrl);
+                self.exportBlock(block);
             });
 
         const transactionCardHeaderTitle = transactionCardHeader.append("h3");
@@ -497,7 +642,9 @@ export class Block {
                 ? "Accepted"
                 : `<span id ="rejected">Rejected</span>`;
 
-            const liTransaction = transactionCardBody.append("div");
+            const liTransaction = transactionCardBody
+                .append("div")
+                .attr("data-transaction", i);
             const transactionTitle = liTransaction.append("h3");
             let totalInstruction = 0;
 
@@ -515,7 +662,7 @@ export class Block {
 
             // Transaction displaying
             transaction.clientTransaction.instructions.forEach(
-                (instruction) => {
+                (instruction, j) => {
                     // This variable helps us keep tracks whether or not we should display
                     //the instruction is a coin transaction between two users.
 
@@ -524,11 +671,27 @@ export class Block {
                     let commandName = null;
 
                     const ulInstruction = liTransaction.append("ul");
-                    ulInstruction.attr("uk-accordion", "");
+                    ulInstruction
+                        .attr("uk-accordion", "")
+                        .attr("data-instruction", j);
 
                     const liInstruction = ulInstruction.append("li");
                     liInstruction.attr("style", "padding-left:15px");
 
+                    // The opened instruction is kept in the url, the events
+                    // of the nested accordions are ignored
+                    liInstruction
+                        .on("show", () => {
+                            if (d3.event.target === liInstruction.node()) {
+                                self.router.openInstruction(i, j);
+                            }
+                        })
+                        .on("hide", () => {
+                            if (d3.event.target === liInstruction.node()) {
+                                self.router.closeInstruction(i, j);
+                            }
+                        });
+
                     const aInstruction = liInstruction.append("a");
                     aInstruction.attr("class", "uk-accordion-title");
 
@@ -842,25 +1005,64 @@ export class Block {
         instanceID: string,
         direction: boolean,
         fromFirstBlock: boolean
+    ) {
+        this.launchSearch(
+            chosenQuery,
+            Query.forInstance(instanceID),
+            direction,
+            fromFirstBlock
+        );
+    }
+
+    /**
+     * Launches a query for all instructions matching a query
+     * @public
+     * @param {number} chosenQuery : The number of results we want to display
+     * @param {Query} query : The searched instructions
+     * @param direction : Searching for the last or previous blocks
+     * @param fromFirstBlock: True if the query is requested from the first block of the chain
+     * @memberof DetailBlock
+     */
+    launchSearch(
+        chosenQuery: number,
+        query: Query,
+        direction: boolean,
+        fromFirstBlock: boolean
     ) {
         const self = this;
 
-        const clickedBlockHash = this.clickedBlock.hash
-            .toString("hex")
-            .valueOf();
-        this.querySubject = self.lifecycle.getInstructionSubject(
-            instanceID,
+        // Only one query is displayed at a time
+        if (this.queryJob !== undefined && this.queryJob.isRunning) {
+            this.queryJob.cancel();
+        }
+
+        // No block is selected when searching from the search bar
+        const clickedBlockHash =
+            this.clickedBlock === null
+                ? undefined
+                : this.clickedBlock.hash.toString("hex").valueOf();
+        const job = self.lifecycle.startQuery(
+            query,
             chosenQuery,
             clickedBlockHash,
             direction,
             fromFirstBlock
         );
-        self.createLoadingScreen();
-        this.querySubject[0].subscribe({
-            next: self.printDataBrowsing.bind(self),
+        this.queryJob = job;
+        this.router.searchInstance(
+            query.isInstanceQuery ? query.instances[0] : undefined
+        );
+        const loadContainer = self.createLoadingScreen(job);
+        job.subjectInstruction.subscribe({
+            next: (tuple) => {
+                // The results of a replaced query are dropped
+                if (job === self.queryJob) {
+                    self.printDataBrowsing(tuple, query);
+                }
+            },
         });
-        this.querySubject[1].pipe(throttleTime(100)).subscribe({
-            complete: self.doneLoading,
+        job.subjectProgress.pipe(throttleTime(100)).subscribe({
+            complete: () => self.doneLoading(loadContainer),
             next: ([, seenBlock, totalBlock, nbInstanceFound]) => {
                 const rate = Math.round((nbInstanceFound / chosenQuery) * 100);
                 self.updateLoadingScreen(
@@ -881,9 +1083,21 @@ export class Block {
      * @private
      * @param {[SkipBlock[], Instruction[]]} tuple : value of the observable
      browsing.getInstructionSubject function
+     * @param {Query} query : the query that found the instructions
      * @memberof DetailBlock
      */
-    private printDataBrowsing(tuple: [SkipBlock[], Instruction[]]) {
+    private printDataBrowsing(
+        tuple: [SkipBlock[], Instruction[]],
+        query: Query
+    ) {
+        if (tuple[1].length === 0) {
+            this.flash.display(
+                Flash.flashType.INFO,
+                `No instruction found for ${query}`
+            );
+            return;
+        }
+
         // Removes previous highlighted blocks
         this.removeHighlighBlocks(this.hashHighligh);
         const self = this;
@@ -896,30 +1110,34 @@ export class Block {
         const summaryText = queryHeader
             .attr("id", "query-header")
             .append("div")
-            .text(`Evolution of the instance:`)
             .style("padding-left", "450");
-        const blocky = blockies.create({
-            seed: tuple[1][0].instanceID.toString("hex"),
-        });
-        summaryText
-            .append("object")
-            .attr("type", "image/svg+xml")
-            .attr("width", 20)
-            .attr("height", 20)
-            .attr("data", blocky.toDataURL())
-            .attr("uk-tooltip", tuple[0][0].hash.toString("hex"))
-            .on("click", function () {
-                Utils.copyToClipBoard(
-                    tuple[1][0].instanceID.toString("hex"),
-                    self.flash
-                );
-            })
-            .on("mouseover", function () {
-                d3.select(this).style("cursor", "pointer");
-            })
-            .on("mouseout", function () {
-                d3.select(this).style("cursor", "default");
+        if (!query.isInstanceQuery) {
+            summaryText.text(`Instructions matching ${query}`);
+        } else {
+            summaryText.text(`Evolution of the instance:`);
+            const blocky = blockies.create({
+                seed: tuple[1][0].instanceID.toString("hex"),
             });
+            summaryText
+                .append("object")
+                .attr("type", "image/svg+xml")
+                .attr("width", 20)
+                .attr("height", 20)
+                .attr("data", blocky.toDataURL())
+                .attr("uk-tooltip", tuple[0][0].hash.toString("hex"))
+                .on("click", () => {
+                    Utils.copyToClipBoard(
+                        tuple[1][0].instanceID.toString("hex"),
+                        self.flash
+                    );
+                })
+                .on("mouseover", function () {
+                    d3.select(this).style("cursor", "pointer");
+                })
+                .on("mouseout", function () {
+                    d3.select(this).style("cursor", "default");
+                });
+        }
 
         // Display the download icon
         queryHeader
@@ -958,6 +1176,7 @@ export class Block {
                 if (confir) {
                     self.removeHighlighBlocks(self.hashHighligh);
                     queryContainer.html("");
+                    self.router.searchInstance(undefined);
                 }
             });
 
@@ -976,6 +1195,180 @@ export class Block {
         this.hashHighligh = tuple[0];
     }
 
+    /**
+     * Adds the accordion with the decoded header of the block: the hashes of
+     * its content, the version of ByzCoin and the raw timestamp. The version
+     * is marked when it differs from the one of the previous block.
+     *
+     * @private
+     * @param {d3.Selection} divDetails : the container of the accordions
+     * @param {SkipBlock} block
+     * @memberof DetailBlock
+     */
+    private listHeader(
+        divDetails: d3.Selection<HTMLDivElement, unknown, HTMLElement, any>,
+        block: SkipBlock
+    ) {
+        const header = DataHeader.decode(block.data);
+
+        const ulHeader = divDetails.append("ul");
+        ulHeader.attr("uk-accordion", "");
+        const liHeader = ulHeader.append("li");
+        const aHeader = liHeader.append("a");
+        aHeader
+            .attr("class", "uk-accordion-title")
+            .append("svg")
+            .attr("width", "20")
+            .attr("height", "20")
+            .append("image")
+            .attr("x", "10%")
+            .attr("y", "17%")
+            .attr("width", "12")
+            .attr("height", "12")
+            .attr("href", "assets/information-button-gray.svg")
+            .attr(
+                "uk-tooltip",
+                "The header of a block summarises its content with hashes, they are signed with the block."
+            );
+        aHeader.append("text").text(`Header : version ${header.version}`);
+
+        const divHeader = liHeader
+            .append("div")
+            .attr("class", "uk-accordion-content block-header");
+        this.addHeaderValue(
+            divHeader,
+            "Trie root",
+            header.trieRoot,
+            "Root of the Merkle trie holding the state of every instance after this block."
+        );
+        this.addHeaderValue(
+            divHeader,
+            "Client transaction hash",
+            header.clientTransactionHash,
+            "Hash of the transactions of the block, accepted and rejected."
+        );
+        this.addHeaderValue(
+            divHeader,
+            "State change hash",
+            header.stateChangeHash,
+            "Hash of the changes the accepted transactions made to the instances."
+        );
+
+        const timestamp = header.timestamp.toString();
+        const timestampLine = divHeader.append("p");
+        timestampLine.append("text").text(`Timestamp : ${timestamp} ns `);
+        this.addCopyButton(timestampLine, () => timestamp);
+
+        const versionLine = divHeader.append("p");
+        versionLine.append("text").text(`Version : ${header.version} `);
+        this.markVersionChange(block, header.version, [aHeader, versionLine]);
+    }
+
+    /**
+     * Helper: add a value of the header, shown in hex, in base64 or as its
+     * length, with a button copying what is shown.
+     * @param div container of the value
+     * @param label name of the value
+     * @param value
+     * @param tooltip definition of the value
+     */
+    private addHeaderValue(
+        div: d3.Selection<HTMLDivElement, unknown, HTMLElement, any>,
+        label: string,
+        value: Buffer,
+        tooltip: string
+    ) {
+        const views = new Map<string, string>([
+            ["hex", value.toString("hex")],
+            ["base64", value.toString("base64")],
+            ["length", `${value.length} bytes`],
+        ]);
+        let shown = "hex";
+
+        const line = div.append("p");
+        line.append("text").text(`${label} : `).attr("uk-tooltip", tooltip);
+
+        const buttons = line
+            .append("span")
+            .attr("class", "uk-button-group header-views");
+        const text = line.append("code");
+        const show = (view: string) => {
+            shown = view;
+            text.text(views.get(view));
+            buttons
+                .selectAll("button")
+                .classed("uk-active", (v: string) => v === view);
+        };
+        buttons
+            .selectAll("button")
+            .data(Array.from(views.keys()))
+            .enter()
+            .append("button")
+            .attr("class", "uk-button uk-button-default uk-button-small")
+            .text((v) => v)
+            .on("click", (v) => show(v));
+
+        this.addCopyButton(line, () => views.get(shown));
+        show(shown);
+    }
+
+    /**
+     * Helper: add a button copying a text to the clipboard.
+     * @param line container of the button
+     * @param text gives the text to copy when the button is clicked
+     */
+    private addCopyButton(
+        line: d3.Selection<HTMLParagraphElement, unknown, HTMLElement, any>,
+        text: () => string
+    ) {
+        line.append("button")
+            .attr("class", "uk-icon-button uk-button-small header-copy")
+            .attr("uk-icon", "icon: copy; ratio: 0.8")
+            .attr("uk-tooltip", "Copy")
+            .on("click", () => {
+                Utils.copyToClipBoard(text(), this.flash);
+            });
+    }
+
+    /**
+     * Helper: mark the version of a block if ByzCoin was upgraded since the
+     * previous block.
+     * @param block
+     * @param version version of ByzCoin in the header of the block
+     * @param marked the elements getting the mark
+     */
+    private async markVersionChange(
+        block: SkipBlock,
+        version: number,
+        marked: d3.Selection<HTMLElement, unknown, HTMLElement, any>[]
+    ) {
+        if (block.backlinks.length === 0) {
+            return;
+        }
+
+        try {
+            const previous = await this.repository.getBlock(block.backlinks[0]);
+            const previousVersion =
+                this.repository.decoder.get(previous).version;
+            // The panel may show another block by now
+            if (previousVersion === version || this.clickedBlock !== block) {
+                return;
+            }
+
+            for (const element of marked) {
+                element
+                    .append("span")
+                    .attr("class", "uk-label uk-label-warning version-change")
+                    .text(`upgraded from version ${previousVersion}`);
+            }
+        } catch (e) {
+            this.flash.display(
+                Flash.flashType.ERROR,
+                `Unable to get the version of the previous block: ${e}`
+            );
+        }
+    }
+
     /**
      * Highlights the blocks in the blockchain
      *
@@ -984,19 +1377,17 @@ export class Block {
      * @memberof DetailBlock
      */
     private highlightBlocks(blocks: SkipBlock[]) {
+        const renderer = this.renderer;
         for (let i = 0; i < blocks.length; i++) {
-            const blockSVG = d3.select(
-                `[id = "${blocks[i].hash.toString("hex")}"]`
-            );
+            const block = blocks[i];
             const button = d3.select(`#buttonInstance${i}`);
-            if (!blockSVG.empty()) {
-                blockSVG.attr("stroke", "red").attr("stroke-width", 5);
-            } // tslint:disable-next-line
+            renderer.setBlockOutline(block, "red", 5);
+            // tslint:disable-next-line
             button.on("mouseover", function () {
-                blockSVG.attr("stroke", "red").attr("stroke-width", 10);
+                renderer.setBlockOutline(block, "red", 10);
             }); // tslint:disable-next-line
             button.on("mouseout", function () {
-                blockSVG.attr("stroke", "red").attr("stroke-width", 5);
+                renderer.setBlockOutline(block, "red", 5);
             });
         }
     }
@@ -1010,32 +1401,32 @@ export class Block {
      * @memberof DetailBlock
      */
     private removeHighlighBlocks(blocks: SkipBlock[]) {
+        const renderer = this.renderer;
         for (let i = 0; i < blocks.length; i++) {
-            const blockSVG = d3.select(
-                `[id = "${blocks[i].hash.toString("hex")}"]`
-            );
+            const block = blocks[i];
             const button = d3.select(`#buttonInstance${i}`);
-            if (!blockSVG.empty()) {
-                blockSVG.attr("stroke", "red").attr("stroke-width", 0);
-            } // tslint:disable-next-line
+            renderer.setBlockOutline(block, "red", 0);
+            // tslint:disable-next-line
             button.on("mouseover", function () {
-                blockSVG.attr("stroke", "green").attr("stroke-width", 0);
+                renderer.setBlockOutline(block, "green", 0);
             }); // tslint:disable-next-line
             button.on("mouseout", function () {
-                blockSVG.attr("stroke", "red").attr("stroke-width", 0);
+                renderer.setBlockOutline(block, "red", 0);
             });
         }
     }
 
     /**
      * Loading screen
-     * Creates the loading screen
+     * Creates the loading screen of a query, with the buttons to pause,
+     * resume and cancel it
      *
      * @private
+     * @param {QueryJob} job : the query the loading screen is for
+     * @returns the container of the loading screen
      * @memberof DetailBlock
      */
-    private createLoadingScreen() {
-        const self = this;
+    private createLoadingScreen(job: QueryJob) {
         this.loadContainer = d3
             .select(".query-answer")
             .append("div")
@@ -1069,22 +1460,37 @@ export class Block {
             .attr("id", "text-bar")
             .text(`instructions found: -`);
 
+        const pauseButton = this.progressBarContainer
+            .append("button")
+            .attr("class", "cancel-button")
+            .attr("id", "pause-button")
+            .text("Pause search");
+        pauseButton.on("click", () => {
+            if (job.isPaused) {
+                job.resume();
+                pauseButton.text("Pause search");
+            } else {
+                job.pause();
+                pauseButton.text("Resume search");
+            }
+        });
+
         this.progressBarContainer
             .append("button")
             .attr("class", "cancel-button")
             .attr("id", "cancel-button")
             .text("Abort search")
-            // tslint:disable-next-line
-            .on("click", function () {
+            .on("click", () => {
                 const conf = confirm(
                     "Are you sure you want to abort the browse?"
                 );
                 if (conf) {
-                    self.lifecycle.abort = true;
-                    self.querySubject[1].complete();
+                    job.cancel();
                 }
             });
         this.progressBarItem = document.getElementById("progress-bar");
+
+        return this.loadContainer;
     }
 
     /**
@@ -1120,10 +1526,13 @@ export class Block {
      * Removes the loading screen
      *
      * @private
+     * @param loadContainer : the loading screen of the query
      * @memberof DetailBlock
      */
-    private doneLoading() {
-        d3.select(".load-container").remove();
+    private doneLoading(
+        loadContainer: d3.Selection<HTMLDivElement, unknown, HTMLElement, any>
+    ) {
+        loadContainer.remove();
     }
 }
 
@@ -0,0 +1,429 @@
+import * as d3 from "d3";
+import { Subject } from "rxjs";
+
+import { DecodedBlock } from "./blockDecoder";
+
+/**
+ * A way of colouring the blocks from their summaries.
+ */
+interface ColoringMode {
+    label: string;
+    // Value of a block given the block before it, undefined when it is not
+    // known. The numeric values are coloured along the interpolator, the
+    // strings are categories with a colour each.
+    value: (block: DecodedBlock, previous: DecodedBlock) => number | string;
+    interpolator?: (t: number) => string;
+    // Text of a value in the legend
+    format: (value: number | string) => string;
+    // Text of the unknown values in the legend
+    unknownLabel?: string;
+}
+
+/**
+ * Colours the blocks of the chain according to the mode chosen in the
+ * colour picker, e.g. by number of transactions or by roster. The scale of
+ * the colours is computed from the loaded blocks, so that the differences
+ * between them stand out, and is explained by a legend next to the picker.
+ *
+ * The colours change when the mode changes or when newly loaded blocks
+ * extend the scale: the changedSubject is then notified so that the blocks
+ * are drawn again.
+ *
+ * @export
+ * @class BlockColoring
+ */
+export class BlockColoring {
+    // Colour of the blocks whose value is not known, e.g. the time gap of a
+    // block whose previous block is not loaded
+    static readonly unknownColor = "#c8c8c8";
+    static readonly gradientWidth = 160;
+    static readonly legendHeight = 34;
+    // Maximum number of categories shown in the legend
+    static readonly maxLegendItems = 6;
+
+    static readonly modes = new Map<string, ColoringMode>([
+        [
+            "transactions",
+            {
+                format: (v) => `${v} tx`,
+                // From the colour of the empty blocks to a darker blue
+                interpolator: d3.interpolateRgb(
+                    "rgb(23, 73, 179)",
+                    "rgb(5, 15, 36)"
+                ),
+                label: "Transactions",
+                value: (block) => block.nbTransactions,
+            },
+        ],
+        [
+            "instructions",
+            {
+                format: (v) => `${v} instr.`,
+                interpolator: d3.interpolateGreens,
+                label: "Instructions",
+                value: (block) => block.nbInstructions,
+            },
+        ],
+        [
+            "rejected",
+            {
+                format: (v) => `${Math.round((v as number) * 100)}%`,
+                interpolator: d3.interpolateReds,
+                label: "Rejected ratio",
+                value: (block) =>
+                    block.nbTransactions === 0
+                        ? 0
+                        : block.nbRejected / block.nbTransactions,
+            },
+        ],
+        [
+            "contract",
+            {
+                format: (v) => `${v}`,
+                label: "Dominant contract",
+                unknownLabel: "no transaction",
+                value: (block) => BlockColoring.dominantContract(block),
+            },
+        ],
+        [
+            "timeGap",
+            {
+                format: (v) => BlockColoring.formatDuration(v as number),
+                interpolator: d3.interpolateYlOrRd,
+                label: "Time since the previous block",
+                unknownLabel: "previous block not loaded",
+                value: (block, previous) =>
+                    previous === undefined
+                        ? undefined
+                        : block.timestamp - previous.timestamp,
+            },
+        ],
+        [
+            "payloadSize",
+            {
+                format: (v) => BlockColoring.formatSize(v as number),
+                interpolator: d3.interpolatePurples,
+                label: "Payload size",
+                value: (block) => block.payloadSize,
+            },
+        ],
+        [
+            "roster",
+            {
+                format: (v) => `roster ${(v as string).slice(0, 8)}`,
+                label: "Roster epoch",
+                value: (block) => block.rosterID,
+            },
+        ],
+        [
+            "version",
+            {
+                format: (v) => `version ${v}`,
+                label: "ByzCoin version",
+                value: (block) => `${block.version}`,
+            },
+        ],
+    ]);
+
+    // Notified when the colours of the blocks change
+    readonly changedSubject = new Subject<void>();
+
+    mode = "transactions";
+
+    // Loaded blocks, by index
+    private readonly blocks = new Map<number, DecodedBlock>();
+    // Scale of the numeric modes
+    private domain: [number, number];
+    // Colours of the categories, in the order of their first loaded block
+    private categories = new Map<string, string>();
+    private hasUnknown = false;
+
+    /**
+     * Creates an instance of BlockColoring and fills the colour picker.
+     * @memberof BlockColoring
+     */
+    constructor() {
+        const picker = d3.select("#color-mode");
+        picker.selectAll("option").remove();
+        for (const [id, mode] of BlockColoring.modes) {
+            picker.append("option").attr("value", id).text(mode.label);
+        }
+        picker.property("value", this.mode);
+        picker.on("change", () => {
+            this.setMode(picker.property("value"));
+        });
+
+        this.update();
+    }
+
+    /**
+     * Get the dominant contract of a block, i.e. the contract of most of its
+     * transactions.
+     *
+     * @static
+     * @param {DecodedBlock} block
+     * @returns {string} undefined for a block without transaction
+     * @memberof BlockColoring
+     */
+    static dominantContract(block: DecodedBlock): string {
+        let dominant: string;
+        let max = 0;
+        for (const [contract, count] of block.contracts) {
+            if (count > max) {
+                dominant = contract;
+                max = count;
+            }
+        }
+        return dominant;
+    }
+
+    /**
+     * Write a duration with its largest unit.
+     *
+     * @static
+     * @param {number} duration : in milliseconds
+     * @returns {string}
+     * @memberof BlockColoring
+     */
+    static formatDuration(duration: number): string {
+        if (duration < 1000) {
+            return `${Math.round(duration)} ms`;
+        }
+        if (duration < 60_000) {
+            return `${Math.round(duration / 1000)} s`;
+        }
+        if (duration < 3600_000) {
+            return `${Math.round(duration / 60_000)} min`;
+        }
+        return `${Math.round(duration / 3600_000)} h`;
+    }
+
+    /**
+     * Write a size with its largest unit.
+     *
+     * @static
+     * @param {number} size : in bytes
+     * @returns {string}
+     * @memberof BlockColoring
+     */
+    static formatSize(size: number): string {
+        if (size < 1024) {
+            return `${size} B`;
+        }
+        if (size < 1024 * 1024) {
+            return `${Math.round(size / 1024)} kB`;
+        }
+        return `${Math.round(size / (1024 * 1024))} MB`;
+    }
+
+    /**
+     * Change the mode, the blocks are coloured again.
+     *
+     * @param {string} mode : a key of BlockColoring.modes
+     * @memberof BlockColoring
+     */
+    setMode(mode: string) {
+        if (!BlockColoring.modes.has(mode) || mode === this.mode) {
+            return;
+        }
+        this.mode = mode;
+        this.domain = undefined;
+        this.categories = new Map();
+        this.update();
+        this.changedSubject.next();
+    }
+
+    /**
+     * Add loaded blocks to the scale. The changedSubject is notified if the
+     * scale changes.
+     *
+     * @param {DecodedBlock[]} blocks
+     * @memberof BlockColoring
+     */
+    add(blocks: DecodedBlock[]) {
+        blocks.forEach((block) => this.blocks.set(block.index, block));
+        if (this.update()) {
+            this.changedSubject.next();
+        }
+    }
+
+    /**
+     * Remove unloaded blocks from the scale. The changedSubject is notified
+     * if the scale changes.
+     *
+     * @param {number} from : the index of the first removed block
+     * @param {number} to : the index of the last removed block
+     * @memberof BlockColoring
+     */
+    remove(from: number, to: number) {
+        for (const index of Array.from(this.blocks.keys())) {
+            if (index >= from && index <= to) {
+                this.blocks.delete(index);
+            }
+        }
+        if (this.update()) {
+            this.changedSubject.next();
+        }
+    }
+
+    /**
+     * Get the colour of a block in the current mode.
+     *
+     * @param {DecodedBlock} block
+     * @returns {string} a css colour
+     * @memberof BlockColoring
+     */
+    color(block: DecodedBlock): string {
+        const mode = BlockColoring.modes.get(this.mode);
+        const value = this.value(block);
+        if (value === undefined) {
+            return BlockColoring.unknownColor;
+        }
+
+        if (typeof value === "string") {
+            return this.categories.get(value) || BlockColoring.unknownColor;
+        }
+
+        const [min, max] = this.domain;
+        const t = max === min ? 0 : (value - min) / (max - min);
+        return mode.interpolator(Math.min(Math.max(t, 0), 1));
+    }
+
+    /**
+     * Helper: get the value of a block in the current mode.
+     * @param block
+     */
+    private value(block: DecodedBlock): number | string {
+        return BlockColoring.modes
+            .get(this.mode)
+            .value(block, this.blocks.get(block.index - 1));
+    }
+
+    /**
+     * Helper: compute the scale from the loaded blocks and draw the legend.
+     * @returns true if the scale changed
+     */
+    private update(): boolean {
+        let min = Infinity;
+        let max = -Infinity;
+        let hasUnknown = false;
+        const nbCategories = this.categories.size;
+
+        const indexes = Array.from(this.blocks.keys()).sort((a, b) => a - b);
+        for (const index of indexes) {
+            const value = this.value(this.blocks.get(index));
+            if (value === undefined) {
+                hasUnknown = true;
+            } else if (typeof value === "string") {
+                if (!this.categories.has(value)) {
+                    this.categories.set(
+                        value,
+                        d3.schemeTableau10[
+                            this.categories.size % d3.schemeTableau10.length
+                        ]
+                    );
+                }
+            } else {
+                min = Math.min(min, value);
+                max = Math.max(max, value);
+            }
+        }
+
+        const domain: [number, number] = min > max ? [0, 0] : [min, max];
+        const changed =
+            this.domain === undefined ||
+            domain[0] !== this.domain[0] ||
+            domain[1] !== this.domain[1] ||
+            this.categories.size !== nbCategories ||
+            hasUnknown !== this.hasUnknown;
+
+        this.domain = domain;
+        this.hasUnknown = hasUnknown;
+        if (changed) {
+            this.drawLegend();
+        }
+        return changed;
+    }
+
+    /**
+     * Helper: draw the legend of the current mode, a gradient from the lowest
+     * to the highest value or the colours of the categories.
+     */
+    private drawLegend() {
+        const mode = BlockColoring.modes.get(this.mode);
+        const legend = d3
+            .select("#color-legend")
+            .attr("height", BlockColoring.legendHeight);
+        legend.selectAll("*").remove();
+
+        let x = 0;
+        const addItem = (text: string, color: string) => {
+            const item = legend
+                .append("g")
+                .attr("transform", `translate(${x}, 0)`);
+            item.append("rect")
+                .attr("width", 10)
+                .attr("height", 10)
+                .attr("fill", color);
+            const label = item
+                .append("text")
+                .attr("x", 14)
+                .attr("y", 10)
+                .text(text);
+            x += 24 + label.node().getComputedTextLength();
+            return item;
+        };
+
+        if (mode.interpolator !== undefined) {
+            const gradient = legend
+                .append("defs")
+                .append("linearGradient")
+                .attr("id", "color-legend-gradient");
+            for (let i = 0; i <= 10; i++) {
+                gradient
+                    .append("stop")
+                    .attr("offset", `${i * 10}%`)
+                    .attr("stop-color", mode.interpolator(i / 10));
+            }
+
+            legend
+                .append("rect")
+                .attr("width", BlockColoring.gradientWidth)
+                .attr("height", 10)
+                .attr("fill", "url(#color-legend-gradient)");
+            legend
+                .append("text")
+                .attr("y", 24)
+                .text(mode.format(this.domain[0]));
+            legend
+                .append("text")
+                .attr("x", BlockColoring.gradientWidth)
+                .attr("y", 24)
+                .attr("text-anchor", "end")
+                .text(mode.format(this.domain[1]));
+            x = BlockColoring.gradientWidth + 14;
+        } else {
+            const categories = Array.from(this.categories);
+            categories
+                .slice(0, BlockColoring.maxLegendItems)
+                .forEach(([value, color]) =>
+                    addItem(mode.format(value), color)
+                );
+
+            // The other categories are listed in the tooltip
+            const others = categories.slice(BlockColoring.maxLegendItems);
+            if (others.length > 0) {
+                addItem(`+${others.length} more`, "none")
+                    .append("title")
+                    .text(
+                        others.map(([value]) => mode.format(value)).join("\n")
+                    );
+            }
+        }
+
+        if (this.hasUnknown) {
+            addItem(mode.unknownLabel || "unknown", BlockColoring.unknownColor);
+        }
+        legend.attr("width", x);
+    }
+}
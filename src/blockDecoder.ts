@@ -0,0 +1,376 @@
+import { ClientTransaction, Instruction } from "@dedis/cothority/byzcoin";
+import { DataBody, DataHeader } from "@dedis/cothority/byzcoin/proto";
+import { SkipBlock } from "@dedis/cothority/skipchain";
+import { createHash } from "crypto";
+
+/**
+ * Summary of the content of a block, computed once and shared by every
+ * module displaying the block.
+ */
+export interface DecodedBlock {
+    // Hash of the block, in hex
+    hash: string;
+    index: number;
+    // Time the block was created, in milliseconds since the epoch
+    timestamp: number;
+    nbTransactions: number;
+    nbAccepted: number;
+    nbRejected: number;
+    nbInstructions: number;
+    // Size of the body of the block, in bytes
+    payloadSize: number;
+    // ID of the roster that created the block, in hex
+    rosterID: string;
+    // Version of ByzCoin that created the block
+    version: number;
+    // True when the transactions match the clientTransactionHash of the
+    // header
+    transactionsVerified: boolean;
+    // Number of transactions by contract of their first instruction
+    contracts: Map<string, number>;
+    // Instances touched by the instructions, in hex
+    instanceIDs: string[];
+}
+
+/**
+ * The parts of a block sent to the worker to be decoded.
+ */
+export interface EncodedBlock {
+    hash: string;
+    index: number;
+    data: Uint8Array;
+    payload: Uint8Array;
+    rosterID: string;
+}
+
+/**
+ * Message exchanged with the worker: the blocks to decode, then the same
+ * id with the decoded blocks or an error.
+ */
+export interface DecoderMessage {
+    id: number;
+    blocks?: EncodedBlock[];
+    decoded?: DecodedBlock[];
+    error?: string;
+}
+
+/**
+ * Decodes the header and the body of the blocks in a Web Worker, so that
+ * large pages do not block the main thread, and keeps the most recently used
+ * summaries in memory. When workers are not available, or for a single block
+ * needed right away, the block is decoded on the main thread.
+ *
+ * This module is also loaded by the worker: it must not import the modules
+ * using the DOM.
+ *
+ * @export
+ * @class BlockDecoder
+ */
+export class BlockDecoder {
+    // Script of the worker, built from decoderWorker.ts
+    static readonly workerURL = "dist/decoder.min.js";
+    // Maximum number of decoded blocks kept in memory
+    static readonly defaultCacheSize = 20000;
+
+    readonly cacheSize: number;
+
+    // Decoded blocks by hash (hex), from the least to the most recently used
+    private readonly blocks = new Map<string, DecodedBlock>();
+    private worker: Worker;
+    // Requests waiting for the worker, by message id
+    private readonly pending = new Map<
+        number,
+        [(decoded: DecodedBlock[]) => void, (error: Error) => void]
+    >();
+    private nextID = 0;
+
+    /**
+     * Creates an instance of BlockDecoder and starts its worker.
+     * @param {number} cacheSize : the maximum number of decoded blocks kept
+     * @memberof BlockDecoder
+     */
+    constructor(cacheSize = BlockDecoder.defaultCacheSize) {
+        this.cacheSize = cacheSize;
+        this.worker = BlockDecoder.createWorker();
+        if (this.worker !== undefined) {
+            this.worker.onmessage = (event: MessageEvent<DecoderMessage>) =>
+                this.onAnswer(event.data);
+            this.worker.onerror = (event: ErrorEvent) =>
+                this.stopWorker(new Error(event.message));
+        }
+    }
+
+    /**
+     * Compute the summary of a block.
+     *
+     * @static
+     * @param {EncodedBlock} block
+     * @returns {DecodedBlock}
+     * @memberof BlockDecoder
+     */
+    static summarize(block: EncodedBlock): DecodedBlock {
+        const header = DataHeader.decode(Buffer.from(block.data));
+        const body = DataBody.decode(Buffer.from(block.payload));
+
+        const decoded: DecodedBlock = {
+            contracts: new Map(),
+            hash: block.hash,
+            index: block.index,
+            instanceIDs: [],
+            nbAccepted: 0,
+            nbInstructions: 0,
+            nbRejected: 0,
+            nbTransactions: body.txResults.length,
+            payloadSize: block.payload.length,
+            rosterID: block.rosterID,
+            timestamp: Number(header.timestamp) / 1000_000,
+            transactionsVerified: BlockDecoder.transactionHash(
+                body,
+                header.version
+            ).equals(header.clientTransactionHash),
+            version: header.version,
+        };
+
+        const instanceIDs = new Set<string>();
+        for (const transaction of body.txResults) {
+            if (transaction.accepted) {
+                decoded.nbAccepted++;
+            } else {
+                decoded.nbRejected++;
+            }
+
+            const instructions = transaction.clientTransaction.instructions;
+            decoded.nbInstructions += instructions.length;
+            for (const instruction of instructions) {
+                instanceIDs.add(instruction.instanceID.toString("hex"));
+            }
+
+            const contractID = BlockDecoder.contractID(instructions[0]);
+            if (contractID !== undefined) {
+                decoded.contracts.set(
+                    contractID,
+                    (decoded.contracts.get(contractID) || 0) + 1
+                );
+            }
+        }
+        decoded.instanceIDs = Array.from(instanceIDs);
+
+        return decoded;
+    }
+
+    /**
+     * Compute the hash of the transactions of a block, as ByzCoin does for
+     * the clientTransactionHash of the header: each transaction adds the hash
+     * of its instructions, then a byte set to 1 if it was accepted.
+     *
+     * @static
+     * @param {DataBody} body : the decoded payload of the block
+     * @param {number} version : the version of ByzCoin in the header, it
+     * changes the hash of the instructions
+     * @returns {Buffer}
+     * @memberof BlockDecoder
+     */
+    static transactionHash(body: DataBody, version: number): Buffer {
+        const hash = createHash("sha256");
+        for (const transaction of body.txResults) {
+            const instructions = transaction.clientTransaction.instructions;
+            hash.update(
+                ClientTransaction.make(version, ...instructions).hash()
+            );
+            hash.update(Buffer.from([transaction.accepted ? 1 : 0]));
+        }
+        return hash.digest();
+    }
+
+    /**
+     * Get the contract of an instruction.
+     *
+     * @static
+     * @param {Instruction} instruction
+     * @returns {string} undefined if there is no instruction
+     * @memberof BlockDecoder
+     */
+    static contractID(instruction: Instruction): string {
+        if (instruction === undefined) {
+            return undefined;
+        }
+        switch (instruction.type) {
+            case Instruction.typeSpawn:
+                return instruction.spawn.contractID;
+            case Instruction.typeInvoke:
+                return instruction.invoke.contractID;
+            case Instruction.typeDelete:
+                return instruction.delete.contractID;
+        }
+    }
+
+    /**
+     * Get the summary of a block, decoding it on the main thread if it has
+     * not been decoded yet.
+     *
+     * @param {SkipBlock} block
+     * @returns {DecodedBlock}
+     * @memberof BlockDecoder
+     */
+    get(block: SkipBlock): DecodedBlock {
+        const id = block.hash.toString("hex");
+        const cached = this.lookup(id);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const decoded = BlockDecoder.summarize(BlockDecoder.encode(block));
+        this.cache([decoded]);
+        return decoded;
+    }
+
+    /**
+     * Forget the summaries of the blocks of a range of indexes, e.g. when
+     * they are unloaded from the view. They are decoded again if needed.
+     *
+     * @param {number} from : index of the first block
+     * @param {number} to : index of the last block
+     * @memberof BlockDecoder
+     */
+    forget(from: number, to: number) {
+        for (const [id, decoded] of this.blocks) {
+            if (decoded.index >= from && decoded.index <= to) {
+                this.blocks.delete(id);
+            }
+        }
+    }
+
+    /**
+     * Decode blocks in the worker. The summaries are then available through
+     * get without decoding again.
+     *
+     * @param {SkipBlock[]} blocks
+     * @returns {Promise<DecodedBlock[]>} the summaries, in the same order
+     * @memberof BlockDecoder
+     */
+    async decode(blocks: SkipBlock[]): Promise<DecodedBlock[]> {
+        const missing = blocks.filter(
+            (block) => this.lookup(block.hash.toString("hex")) === undefined
+        );
+
+        if (missing.length > 0 && this.worker !== undefined) {
+            try {
+                this.cache(await this.send(missing.map(BlockDecoder.encode)));
+            } catch {
+                // The blocks are then decoded below, on the main thread
+            }
+        }
+
+        // The blocks not decoded by the worker are decoded here
+        return blocks.map((block) => this.get(block));
+    }
+
+    /**
+     * Helper: start the worker, undefined if workers are not supported.
+     */
+    private static createWorker(): Worker {
+        if (typeof Worker === "undefined") {
+            return undefined;
+        }
+        try {
+            return new Worker(BlockDecoder.workerURL);
+        } catch {
+            // The blocks are then decoded on the main thread
+            return undefined;
+        }
+    }
+
+    /**
+     * Helper: extract the parts of a block needed for its summary.
+     * @param block
+     */
+    private static encode(block: SkipBlock): EncodedBlock {
+        return {
+            data: block.data,
+            hash: block.hash.toString("hex"),
+            index: block.index,
+            payload: block.payload,
+            rosterID: block.roster.id.toString("hex"),
+        };
+    }
+
+    /**
+     * Helper: send blocks to the worker and wait for their summaries.
+     * @param blocks
+     */
+    private send(blocks: EncodedBlock[]): Promise<DecodedBlock[]> {
+        const id = this.nextID++;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, [resolve, reject]);
+            const message: DecoderMessage = { blocks, id };
+            this.worker.postMessage(message);
+        });
+    }
+
+    /**
+     * Helper: settle the request answered by the worker.
+     * @param message
+     */
+    private onAnswer(message: DecoderMessage) {
+        const request = this.pending.get(message.id);
+        if (request === undefined) {
+            return;
+        }
+        this.pending.delete(message.id);
+
+        const [resolve, reject] = request;
+        if (message.error !== undefined) {
+            reject(new Error(message.error));
+        } else {
+            resolve(message.decoded);
+        }
+    }
+
+    /**
+     * Helper: stop using the worker after an error, the requests waiting for
+     * it are rejected.
+     * @param error
+     */
+    private stopWorker(error: Error) {
+        // The next blocks are decoded on the main thread
+        this.worker.terminate();
+        this.worker = undefined;
+
+        for (const [, reject] of this.pending.values()) {
+            reject(error);
+        }
+        this.pending.clear();
+    }
+
+    /**
+     * Helper: get a summary from the memory and mark it as recently used.
+     * @param id hash of the block in hex
+     */
+    private lookup(id: string): DecodedBlock {
+        const decoded = this.blocks.get(id);
+        if (decoded !== undefined) {
+            this.blocks.delete(id);
+            this.blocks.set(id, decoded);
+        }
+        return decoded;
+    }
+
+    /**
+     * Helper: keep summaries in memory, removing the least recently used
+     * ones when the cache is full.
+     * @param decoded
+     */
+    private cache(decoded: DecodedBlock[]) {
+        for (const block of decoded) {
+            this.blocks.delete(block.hash);
+            this.blocks.set(block.hash, block);
+        }
+
+        for (const id of this.blocks.keys()) {
+            if (this.blocks.size <= this.cacheSize) {
+                break;
+            }
+            this.blocks.delete(id);
+        }
+    }
+}
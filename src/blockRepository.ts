@@ -0,0 +1,790 @@
+import { ByzCoinRPC } from "@dedis/cothority/byzcoin";
+import {
+    PaginateRequest,
+    PaginateResponse,
+} from "@dedis/cothority/byzcoin/proto/stream";
+import {
+    IConnection,
+    ServerIdentity,
+    WebSocketAdapter,
+} from "@dedis/cothority/network";
+import { SkipBlock, SkipchainRPC } from "@dedis/cothority/skipchain";
+import {
+    asapScheduler,
+    concat,
+    defer,
+    EMPTY,
+    from,
+    Observable,
+    of,
+    Subscriber,
+} from "rxjs";
+import {
+    concatMap,
+    dematerialize,
+    finalize,
+    map,
+    materialize,
+    shareReplay,
+    subscribeOn,
+    tap,
+} from "rxjs/operators";
+
+import { BlockDecoder } from "./blockDecoder";
+import { BlockStore } from "./blockStore";
+import { ConnectionManager, RosterUnreachableError } from "./connectionManager";
+import { Utils } from "./utils";
+
+/**
+ * Error returned by a conode when a PaginateRequest cannot be served, for
+ * example when too many blocks are requested (code 5) or when the end of the
+ * chain is reached.
+ *
+ * @export
+ * @class PaginateError
+ */
+export class PaginateError extends Error {
+    errorcode: number;
+    errortext: string[];
+
+    constructor(errorcode: number, errortext: string[]) {
+        super(`error code ${errorcode} : ${errortext}`);
+        this.errorcode = errorcode;
+        this.errortext = errortext;
+    }
+}
+
+/**
+ * Single service used by every module to get blocks from the conodes. It
+ * keeps the most recently used blocks in memory, indexed by hash and by
+ * index, and merges identical requests that are still in flight so that the
+ * same block is never downloaded twice. The requests are sent through a
+ * ConnectionManager, so they are retried on the other nodes of the roster
+ * when a node fails. If a BlockStore is given, the finalized blocks are also
+ * saved in it and it is checked before contacting the conodes. The pages are
+ * decoded by the BlockDecoder before being delivered, so that the modules
+ * displaying them find the decoded blocks ready.
+ *
+ * @export
+ * @class BlockRepository
+ */
+export class BlockRepository {
+    // Maximum number of blocks kept in memory
+    static readonly defaultCacheSize = 5000;
+
+    connections: ConnectionManager;
+    persistent: BlockStore;
+    decoder: BlockDecoder;
+    readonly cacheSize: number;
+
+    // Cached blocks by hash (hex), from the least to the most recently used
+    private readonly blocks = new Map<string, SkipBlock>();
+    // Hash (hex) of the cached blocks by "<skipchain ID>:<index>"
+    private readonly indexes = new Map<string, string>();
+
+    // Requests waiting for an answer of the conodes
+    private readonly pendingBlocks = new Map<string, Promise<SkipBlock>>();
+    private readonly pendingPages = new Map<
+        string,
+        Observable<[number, SkipBlock[], boolean]>
+    >();
+
+    // Paginate websockets that finished their request and can be re-used
+    private readonly idleStreams: PaginateStream[] = [];
+
+    /**
+     * Creates an instance of BlockRepository.
+     * @param {ConnectionManager} connections : the nodes to get the blocks from
+     * @param {BlockStore} persistent : where to save the blocks, optional
+     * @param {number} cacheSize : the maximum number of blocks kept in memory
+     * @param {BlockDecoder} decoder : decodes the content of the blocks
+     * @memberof BlockRepository
+     */
+    constructor(
+        connections: ConnectionManager,
+        persistent?: BlockStore,
+        cacheSize = BlockRepository.defaultCacheSize,
+        decoder = new BlockDecoder()
+    ) {
+        this.connections = connections;
+        this.persistent = persistent;
+        this.cacheSize = cacheSize;
+        this.decoder = decoder;
+    }
+
+    /**
+     * Get a block by its hash.
+     *
+     * @param {Buffer} hash : the hash of the requested block
+     * @returns {Promise<SkipBlock>}
+     * @memberof BlockRepository
+     */
+    getBlock(hash: Buffer): Promise<SkipBlock> {
+        const id = Utils.bytes2String(hash);
+        const cached = this.lookup(id);
+        if (cached !== undefined) {
+            return Promise.resolve(cached);
+        }
+
+        return this.merge(
+            `hash:${id}`,
+            () => this.readStore((store) => store.get(hash)),
+            () =>
+                this.connections.send(SkipchainRPC.serviceName, (conn) =>
+                    new SkipchainRPC(conn).getSkipBlock(hash)
+                )
+        );
+    }
+
+    /**
+     * Get a block by its index.
+     *
+     * @param {Buffer} genesis : the hash of the first block of the chain
+     * @param {number} index : the index of the requested block
+     * @returns {Promise<SkipBlock>}
+     * @memberof BlockRepository
+     */
+    getBlockByIndex(genesis: Buffer, index: number): Promise<SkipBlock> {
+        const key = `${Utils.bytes2String(genesis)}:${index}`;
+        const id = this.indexes.get(key);
+        if (id !== undefined) {
+            const cached = this.lookup(id);
+            if (cached !== undefined) {
+                return Promise.resolve(cached);
+            }
+        }
+
+        return this.merge(
+            `index:${key}`,
+            () => this.readStore((store) => store.getByIndex(genesis, index)),
+            () =>
+                this.connections.send(SkipchainRPC.serviceName, (conn) =>
+                    new SkipchainRPC(conn)
+                        .getSkipBlockByIndex(genesis, index)
+                        .then((reply) => reply.skipblock)
+                )
+        );
+    }
+
+    /**
+     * Get the last block of the chain. It is always asked to the conodes as
+     * new blocks can be added at any time.
+     *
+     * @param {Buffer} startID : the hash of a known block of the chain
+     * @returns {Promise<SkipBlock>}
+     * @memberof BlockRepository
+     */
+    getLatestBlock(startID: Buffer): Promise<SkipBlock> {
+        return this.merge(
+            `latest:${Utils.bytes2String(startID)}`,
+            () => Promise.resolve(undefined),
+            () =>
+                this.connections.send(
+                    SkipchainRPC.serviceName,
+                    async (conn) => {
+                        const last = await new SkipchainRPC(
+                            conn
+                        ).getLatestBlock(startID, false, true);
+                        if (last === undefined) {
+                            // The node does not know the block
+                            throw new Error(
+                                `no update for block ${Utils.bytes2String(
+                                    startID
+                                )}`
+                            );
+                        }
+                        return last;
+                    }
+                )
+        );
+    }
+
+    /**
+     * Get (pageSize * numPages) consecutive blocks, starting from (and
+     * including) the block startID. The observable is notified once per page
+     * with the page number, the blocks of the page and the direction, then
+     * completes. The pages already in memory or in the persistent store are
+     * not requested again. The requests stop when every subscriber has
+     * unsubscribed.
+     *
+     * @param {Buffer} startID : the hash of the first block
+     * @param {number} pageSize : number of blocks in a page
+     * @param {number} numPages : number of pages
+     * @param {boolean} backward : true to follow the backlinks
+     * @returns {Observable<[number, SkipBlock[], boolean]>}
+     * @memberof BlockRepository
+     */
+    getBlocks(
+        startID: Buffer,
+        pageSize: number,
+        numPages: number,
+        backward: boolean
+    ): Observable<[number, SkipBlock[], boolean]> {
+        const key = [
+            Utils.bytes2String(startID),
+            pageSize,
+            numPages,
+            backward,
+        ].join(":");
+
+        const pending = this.pendingPages.get(key);
+        if (pending !== undefined) {
+            return pending;
+        }
+
+        const pages = new Observable<[number, SkipBlock[], boolean]>((sub) => {
+            this.servePages(sub, startID, pageSize, numPages, backward).catch(
+                (err) => sub.error(err)
+            );
+        }).pipe(
+            // Pages served from memory are still delivered asynchronously, so
+            // that a consumer requesting the next page from its callback does
+            // not recurse over the whole cached chain.
+            subscribeOn(asapScheduler),
+            // Decode the pages one after the other to keep them in order. An
+            // error is delivered after the pages received before it.
+            materialize(),
+            concatMap((notification) =>
+                notification.kind === "N"
+                    ? from(this.decoder.decode(notification.value[1])).pipe(
+                          map(() => notification)
+                      )
+                    : of(notification)
+            ),
+            dematerialize(),
+            finalize(() => this.pendingPages.delete(key)),
+            // Stop the requests once nobody waits for the pages anymore
+            shareReplay({ bufferSize: Infinity, refCount: true })
+        );
+
+        this.pendingPages.set(key, pages);
+        return pages;
+    }
+
+    /**
+     * Get count consecutive blocks, starting from (and including) the block
+     * startID and following the forward links, in pages of at most pageSize
+     * blocks. Unlike with getBlocks, the last page only holds the remaining
+     * blocks: a range ending at the last block does not go past the end of
+     * the chain.
+     *
+     * @param {Buffer} startID : the hash of the first block
+     * @param {number} count : number of blocks
+     * @param {number} pageSize : maximum number of blocks in a page
+     * @returns {Observable<SkipBlock[]>} the blocks of each page
+     * @memberof BlockRepository
+     */
+    getRange(
+        startID: Buffer,
+        count: number,
+        pageSize: number
+    ): Observable<SkipBlock[]> {
+        const size = Math.min(count, pageSize);
+        const remaining = count % size;
+        let last: SkipBlock;
+        const pages = this.getBlocks(
+            startID,
+            size,
+            Math.floor(count / size),
+            false
+        ).pipe(
+            map(([, blocks]) => blocks),
+            tap((blocks) => (last = blocks[blocks.length - 1]))
+        );
+        if (remaining === 0) {
+            return pages;
+        }
+
+        // The remaining blocks follow the last block of the full pages
+        return concat(
+            pages,
+            defer(() => {
+                const nextID = BlockRepository.nextID(last, false);
+                return nextID === undefined
+                    ? EMPTY
+                    : this.getBlocks(nextID, remaining, 1, false).pipe(
+                          map(([, blocks]) => blocks)
+                      );
+            })
+        );
+    }
+
+    /**
+     * Add blocks received from elsewhere to the cache. The finalized ones are
+     * saved in the persistent store.
+     *
+     * @param {SkipBlock[]} blocks
+     * @memberof BlockRepository
+     */
+    store(...blocks: SkipBlock[]) {
+        this.cache(blocks);
+
+        const final = blocks.filter(BlockStore.isFinal);
+        if (this.persistent !== undefined && final.length > 0) {
+            // The blocks not saved are requested again to the conodes the
+            // next time
+            this.persistent.put(final).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Helper: add blocks to the memory only.
+     * @param blocks
+     */
+    private cache(blocks: SkipBlock[]) {
+        for (const block of blocks) {
+            const id = Utils.bytes2String(block.hash);
+            this.blocks.delete(id);
+            this.blocks.set(id, block);
+            this.indexes.set(BlockRepository.indexKey(block), id);
+        }
+
+        // Evict the least recently used blocks
+        while (this.blocks.size > this.cacheSize) {
+            const [id, block] = this.blocks.entries().next().value;
+            this.blocks.delete(id);
+            this.indexes.delete(BlockRepository.indexKey(block));
+        }
+    }
+
+    /**
+     * Helper: hash of the block that follows the given one.
+     * @param block
+     * @param backward true to follow the backlinks
+     * @returns the hash, undefined if there is no such link
+     */
+    private static nextID(block: SkipBlock, backward: boolean): Buffer {
+        if (backward) {
+            return block.backlinks[0];
+        }
+        return block.forwardLinks.length > 0
+            ? block.forwardLinks[0].to
+            : undefined;
+    }
+
+    /**
+     * Helper: key of a block in the index map.
+     * @param block
+     */
+    private static indexKey(block: SkipBlock): string {
+        const skipchainID = BlockStore.skipchainID(block);
+        return `${Utils.bytes2String(skipchainID)}:${block.index}`;
+    }
+
+    /**
+     * Helper: get a block from the cache. Blocks missing forward links are
+     * ignored as they are still expecting their successors and will change.
+     * @param id the hash (hex) of the block
+     */
+    private lookup(id: string): SkipBlock {
+        const block = this.blocks.get(id);
+        if (block === undefined || !BlockStore.isFinal(block)) {
+            return undefined;
+        }
+
+        // Mark the block as the most recently used
+        this.blocks.delete(id);
+        this.blocks.set(id, block);
+        return block;
+    }
+
+    /**
+     * Helper: follow the links from the given block in the cache.
+     * @param startID the hash of the first block
+     * @param count the number of blocks to get
+     * @param backward true to follow the backlinks
+     * @returns the blocks, undefined if one of them is not in memory
+     */
+    private walk(
+        startID: Buffer,
+        count: number,
+        backward: boolean
+    ): SkipBlock[] {
+        const blocks: SkipBlock[] = [];
+        let id = startID;
+
+        while (blocks.length < count) {
+            if (id === undefined || id.length === 0) {
+                return undefined;
+            }
+
+            const block = this.lookup(Utils.bytes2String(id));
+            if (block === undefined) {
+                return undefined;
+            }
+
+            blocks.push(block);
+            id = BlockRepository.nextID(block, backward);
+        }
+
+        return blocks;
+    }
+
+    /**
+     * Helper: read from the persistent store. Its failures are not fatal, the
+     * blocks are then requested to the conodes.
+     * @param read the function reading the store
+     * @returns undefined if there is no store or the read failed
+     */
+    private async readStore<T>(
+        read: (store: BlockStore) => Promise<T>
+    ): Promise<T> {
+        if (this.persistent === undefined) {
+            return undefined;
+        }
+
+        try {
+            return await read(this.persistent);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Helper: get the page of blocks starting at startID from the persistent
+     * store.
+     * @param startID the hash of the first block
+     * @param count the number of blocks to get
+     * @param backward true to follow the backlinks
+     * @returns the blocks, undefined if one of them is not saved
+     */
+    private async readStoredPage(
+        startID: Buffer,
+        count: number,
+        backward: boolean
+    ): Promise<SkipBlock[]> {
+        let first = this.lookup(Utils.bytes2String(startID));
+        if (first === undefined) {
+            first = await this.readStore((store) => store.get(startID));
+        }
+        if (first === undefined) {
+            return undefined;
+        }
+
+        // The blocks of a page have consecutive indexes
+        const lowest = backward ? first.index - count + 1 : first.index;
+        const highest = backward ? first.index : first.index + count - 1;
+        if (lowest < 0) {
+            return undefined;
+        }
+
+        const blocks = await this.readStore((store) =>
+            store.getRange(BlockStore.skipchainID(first), lowest, highest)
+        );
+        if (blocks === undefined || blocks.length !== count) {
+            return undefined;
+        }
+
+        if (backward) {
+            blocks.reverse();
+        }
+        this.cache(blocks);
+        return blocks;
+    }
+
+    /**
+     * Helper: notify the subscriber of the pages found in memory or in the
+     * persistent store, then request the other pages to the conodes.
+     * @param sub the subscriber to notify
+     * @param startID the hash of the first block
+     * @param pageSize number of blocks in a page
+     * @param numPages number of pages
+     * @param backward true to follow the backlinks
+     */
+    private async servePages(
+        sub: Subscriber<[number, SkipBlock[], boolean]>,
+        startID: Buffer,
+        pageSize: number,
+        numPages: number,
+        backward: boolean
+    ) {
+        let cursor = startID;
+        let page = 0;
+
+        for (; page < numPages; page++) {
+            if (cursor === undefined || cursor.length === 0) {
+                break;
+            }
+
+            let blocks = this.walk(cursor, pageSize, backward);
+            if (blocks === undefined) {
+                blocks = await this.readStoredPage(cursor, pageSize, backward);
+            }
+            if (sub.closed) {
+                return;
+            }
+            if (blocks === undefined) {
+                break;
+            }
+
+            sub.next([page, blocks, backward]);
+            cursor = BlockRepository.nextID(
+                blocks[blocks.length - 1],
+                backward
+            );
+        }
+
+        if (page === numPages) {
+            sub.complete();
+            return;
+        }
+
+        this.fetchPages(
+            sub,
+            cursor,
+            pageSize,
+            numPages - page,
+            backward,
+            page,
+            this.connections.nodes(),
+            []
+        );
+    }
+
+    /**
+     * Helper: run the request only if the same one is not already waiting
+     * for an answer. The block is read from the persistent store when
+     * possible, otherwise it is requested to the conodes and saved.
+     * @param key identifier of the request
+     * @param read the function reading the persistent store
+     * @param request the function sending the request to the conodes
+     */
+    private merge(
+        key: string,
+        read: () => Promise<SkipBlock>,
+        request: () => Promise<SkipBlock>
+    ): Promise<SkipBlock> {
+        const pending = this.pendingBlocks.get(key);
+        if (pending !== undefined) {
+            return pending;
+        }
+
+        const promise = read()
+            .then(async (stored) => {
+                if (stored !== undefined) {
+                    this.cache([stored]);
+                    return stored;
+                }
+
+                const block = await request();
+                this.store(block);
+                return block;
+            })
+            .finally(() => this.pendingBlocks.delete(key));
+
+        this.pendingBlocks.set(key, promise);
+        return promise;
+    }
+
+    /**
+     * Helper: request pages of blocks to the conodes and notify the
+     * subscriber. If a node fails, the remaining pages are requested to the
+     * next one.
+     * @param sub the subscriber to notify
+     * @param startID the hash of the first block
+     * @param pageSize number of blocks in a page
+     * @param numPages number of pages
+     * @param backward true to follow the backlinks
+     * @param offset number of pages already served
+     * @param nodes the nodes that have not been tried yet
+     * @param errors the errors of the nodes already tried
+     */
+    private fetchPages(
+        sub: Subscriber<[number, SkipBlock[], boolean]>,
+        startID: Buffer,
+        pageSize: number,
+        numPages: number,
+        backward: boolean,
+        offset: number,
+        nodes: ServerIdentity[],
+        errors: Error[]
+    ) {
+        if (nodes.length === 0) {
+            sub.error(new RosterUnreachableError(errors));
+            return;
+        }
+
+        const [node, ...others] = nodes;
+        const stream = this.acquireStream(node);
+        let received = 0;
+        let done = false;
+
+        stream.request(
+            new PaginateRequest({
+                backward,
+                numpages: numPages,
+                pagesize: pageSize,
+                startid: startID,
+            }),
+            (data) => {
+                this.connections.markHealthy(stream.address);
+                // The numbers of the response are decoded as Long
+                const errorcode = Number(data.errorcode);
+                if (errorcode !== 0) {
+                    done = true;
+                    stream.close();
+                    sub.error(new PaginateError(errorcode, data.errortext));
+                    return;
+                }
+
+                this.store(...data.blocks);
+                sub.next([
+                    Number(data.pagenumber) + offset,
+                    data.blocks,
+                    data.backward,
+                ]);
+
+                received++;
+                if (received >= numPages) {
+                    done = true;
+                    stream.release();
+                    this.idleStreams.push(stream);
+                    sub.complete();
+                    return;
+                }
+
+                startID = BlockRepository.nextID(
+                    data.blocks[data.blocks.length - 1],
+                    backward
+                );
+            },
+            (err) => {
+                done = true;
+                this.connections.markFailed(stream.address);
+                // Resume after the last page received
+                this.fetchPages(
+                    sub,
+                    startID,
+                    pageSize,
+                    numPages - received,
+                    backward,
+                    offset + received,
+                    others,
+                    errors.concat(err)
+                );
+            }
+        );
+
+        sub.add(() => {
+            // The remaining pages would be delivered to the next request
+            if (!done) {
+                stream.close();
+            }
+        });
+    }
+
+    /**
+     * Helper: get an open paginate websocket to the node, or a new one.
+     * @param node the node to connect to
+     */
+    private acquireStream(node: ServerIdentity): PaginateStream {
+        const address = node.getWebSocketAddress();
+        for (let i = this.idleStreams.length - 1; i >= 0; i--) {
+            const stream = this.idleStreams[i];
+            if (stream.closed || stream.address === address) {
+                this.idleStreams.splice(i, 1);
+                if (!stream.closed) {
+                    return stream;
+                }
+            }
+        }
+
+        return new PaginateStream(
+            address,
+            this.connections.connect(node, ByzCoinRPC.serviceName)
+        );
+    }
+}
+
+/**
+ * A websocket to the paginate endpoint of ByzCoin. The conode keeps it open
+ * after the pages have been sent, so it can be re-used for the next request
+ * instead of creating a new connection each time.
+ */
+class PaginateStream {
+    closed = false;
+    readonly address: string;
+
+    private readonly conn: IConnection;
+    private ws: WebSocketAdapter;
+
+    private onNext: (data: PaginateResponse) => void;
+    private onError: (err: Error) => void;
+
+    constructor(address: string, conn: IConnection) {
+        this.address = address;
+        this.conn = conn;
+    }
+
+    /**
+     * Send a request, the callbacks are called for each page received.
+     * @param message the request
+     * @param next called with each response
+     * @param error called if the websocket fails
+     */
+    request(
+        message: PaginateRequest,
+        next: (data: PaginateResponse) => void,
+        error: (err: Error) => void
+    ) {
+        this.onNext = next;
+        this.onError = error;
+
+        if (this.ws !== undefined) {
+            this.ws.send(Buffer.from(message.$type.encode(message).finish()));
+            return;
+        }
+
+        this.conn
+            .sendStream<PaginateResponse>(message, PaginateResponse)
+            .subscribe({
+                complete: () => {
+                    const wasClosed = this.closed;
+                    this.closed = true;
+                    // The node closed the websocket normally while a request
+                    // was waiting for its pages
+                    if (!wasClosed && this.onNext !== undefined) {
+                        this.onError(
+                            new Error(
+                                `websocket ${this.address} closed before the last page`
+                            )
+                        );
+                    }
+                },
+                error: (err: Error) => {
+                    const wasClosed = this.closed;
+                    this.closed = true;
+                    // An idle websocket closed by its timeout is not an error
+                    if (!wasClosed && this.onError !== undefined) {
+                        this.onError(err);
+                    }
+                },
+                next: ([data, ws]) => {
+                    this.ws = ws;
+                    if (this.closed) {
+                        ws.close(1000);
+                        return;
+                    }
+                    this.onNext(data);
+                },
+            });
+    }
+
+    /**
+     * Forget the callbacks of the last request, once it is done.
+     */
+    release() {
+        this.onNext = undefined;
+        this.onError = undefined;
+    }
+
+    /**
+     * Close the websocket, no callback is called afterwards.
+     */
+    close() {
+        this.closed = true;
+        if (this.ws !== undefined) {
+            this.ws.close(1000);
+        }
+    }
+}
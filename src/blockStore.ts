@@ -0,0 +1,249 @@
+import { SkipBlock } from "@dedis/cothority/skipchain";
+
+import { Utils } from "./utils";
+
+/**
+ * A block as saved in the database.
+ */
+interface StoredBlock {
+    skipchainID: string;
+    hash: string;
+    index: number;
+    data: Uint8Array;
+    storedAt: number;
+}
+
+/**
+ * Persistent store of the skipblocks, saved in the IndexedDB of the browser
+ * so that they are not downloaded again after a reload. The blocks are
+ * keyed by skipchain ID (the hash of the genesis block) and block hash. Only
+ * finalized blocks should be saved: a block still missing some forward links
+ * will change.
+ *
+ * When more than maxBlocks blocks are saved, the oldest ones are removed.
+ *
+ * @export
+ * @class BlockStore
+ */
+export class BlockStore {
+    static readonly databaseName = "columbus";
+    static readonly storeName = "blocks";
+    // Maximum number of blocks kept in the database
+    static readonly defaultMaxBlocks = 200000;
+
+    readonly maxBlocks: number;
+
+    private readonly db: Promise<IDBDatabase>;
+
+    /**
+     * Creates an instance of BlockStore and opens the database.
+     * @param {number} maxBlocks : the maximum number of blocks saved
+     * @memberof BlockStore
+     */
+    constructor(maxBlocks = BlockStore.defaultMaxBlocks) {
+        this.maxBlocks = maxBlocks;
+        this.db = BlockStore.openDatabase();
+        // The errors are reported by each request, the blocks are then
+        // requested to the conodes
+        this.db.catch(() => undefined);
+    }
+
+    /**
+     * Get the skipchain ID of a block.
+     *
+     * @static
+     * @param {SkipBlock} block
+     * @returns {Buffer} the hash of the genesis block of its chain
+     * @memberof BlockStore
+     */
+    static skipchainID(block: SkipBlock): Buffer {
+        // The genesis block does not reference itself
+        return block.genesis.length === 0 ? block.hash : block.genesis;
+    }
+
+    /**
+     * Check if a block will not change anymore, i.e. if it has all its
+     * forward links.
+     *
+     * @static
+     * @param {SkipBlock} block
+     * @returns {boolean}
+     * @memberof BlockStore
+     */
+    static isFinal(block: SkipBlock): boolean {
+        return block.forwardLinks.length >= block.height;
+    }
+
+    /**
+     * Get a block by its hash.
+     *
+     * @param {Buffer} hash
+     * @returns {Promise<SkipBlock>} undefined if the block is not saved
+     * @memberof BlockStore
+     */
+    async get(hash: Buffer): Promise<SkipBlock> {
+        const store = await this.transaction("readonly");
+        const stored: StoredBlock = await BlockStore.result(
+            store.index("hash").get(Utils.bytes2String(hash))
+        );
+        return stored === undefined ? undefined : BlockStore.decode(stored);
+    }
+
+    /**
+     * Get a block by its index.
+     *
+     * @param {Buffer} skipchainID
+     * @param {number} index
+     * @returns {Promise<SkipBlock>} undefined if the block is not saved
+     * @memberof BlockStore
+     */
+    async getByIndex(skipchainID: Buffer, index: number): Promise<SkipBlock> {
+        const blocks = await this.getRange(skipchainID, index, index);
+        return blocks[0];
+    }
+
+    /**
+     * Get the saved blocks between two indexes (included), sorted by index.
+     *
+     * @param {Buffer} skipchainID
+     * @param {number} from : the lowest index
+     * @param {number} to : the highest index
+     * @returns {Promise<SkipBlock[]>}
+     * @memberof BlockStore
+     */
+    async getRange(
+        skipchainID: Buffer,
+        from: number,
+        to: number
+    ): Promise<SkipBlock[]> {
+        const id = Utils.bytes2String(skipchainID);
+        const store = await this.transaction("readonly");
+        const stored: StoredBlock[] = await BlockStore.result(
+            store.index("index").getAll(IDBKeyRange.bound([id, from], [id, to]))
+        );
+        return stored.map(BlockStore.decode);
+    }
+
+    /**
+     * Save blocks, then remove the oldest ones if there are too many.
+     *
+     * @param {SkipBlock[]} blocks
+     * @returns {Promise<void>}
+     * @memberof BlockStore
+     */
+    async put(blocks: SkipBlock[]): Promise<void> {
+        const store = await this.transaction("readwrite");
+        const storedAt = Date.now();
+
+        for (const block of blocks) {
+            const stored: StoredBlock = {
+                data: SkipBlock.encode(block).finish(),
+                hash: Utils.bytes2String(block.hash),
+                index: block.index,
+                skipchainID: Utils.bytes2String(BlockStore.skipchainID(block)),
+                storedAt,
+            };
+            store.put(stored);
+        }
+
+        let excess = (await BlockStore.result(store.count())) - this.maxBlocks;
+        if (excess <= 0) {
+            return;
+        }
+
+        const cursors = store.index("storedAt").openCursor();
+        await new Promise<void>((resolve, reject) => {
+            cursors.onerror = () => reject(cursors.error);
+            cursors.onsuccess = () => {
+                const cursor = cursors.result;
+                if (cursor === null || excess <= 0) {
+                    resolve();
+                    return;
+                }
+                cursor.delete();
+                excess--;
+                cursor.continue();
+            };
+        });
+    }
+
+    /**
+     * Get the number of saved blocks.
+     *
+     * @returns {Promise<number>}
+     * @memberof BlockStore
+     */
+    async count(): Promise<number> {
+        const store = await this.transaction("readonly");
+        return BlockStore.result(store.count());
+    }
+
+    /**
+     * Remove all the saved blocks.
+     *
+     * @returns {Promise<number>} the number of blocks removed
+     * @memberof BlockStore
+     */
+    async clear(): Promise<number> {
+        const store = await this.transaction("readwrite");
+        const count = await BlockStore.result(store.count());
+        await BlockStore.result(store.clear());
+        return count;
+    }
+
+    /**
+     * Helper: open the database, creating the object store if needed.
+     */
+    private static openDatabase(): Promise<IDBDatabase> {
+        if (typeof indexedDB === "undefined") {
+            return Promise.reject(new Error("IndexedDB is not supported"));
+        }
+
+        const request = indexedDB.open(BlockStore.databaseName, 1);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(
+                BlockStore.storeName,
+                { keyPath: ["skipchainID", "hash"] }
+            );
+            store.createIndex("hash", "hash", { unique: true });
+            store.createIndex("index", ["skipchainID", "index"], {
+                unique: true,
+            });
+            store.createIndex("storedAt", "storedAt");
+        };
+
+        return BlockStore.result(request);
+    }
+
+    /**
+     * Helper: resolve with the result of an IndexedDB request.
+     * @param request
+     */
+    private static result<T>(request: IDBRequest<T>): Promise<T> {
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    /**
+     * Helper: rebuild a block from its saved bytes.
+     * @param stored
+     */
+    private static decode(stored: StoredBlock): SkipBlock {
+        return SkipBlock.decode(Buffer.from(stored.data));
+    }
+
+    /**
+     * Helper: start a transaction on the blocks.
+     * @param mode
+     */
+    private async transaction(
+        mode: IDBTransactionMode
+    ): Promise<IDBObjectStore> {
+        const db = await this.db;
+        return db
+            .transaction(BlockStore.storeName, mode)
+            .objectStore(BlockStore.storeName);
+    }
+}
@@ -0,0 +1,508 @@
+import { DataBody, DataHeader } from "@dedis/cothority/byzcoin/proto";
+import {
+    ForwardLink,
+    SkipBlock,
+    SkipchainRPC,
+} from "@dedis/cothority/skipchain";
+import * as d3 from "d3";
+import UIkit from "uikit";
+
+import { BlockDecoder } from "./blockDecoder";
+import { PaginateError } from "./blockRepository";
+import { Chain } from "./chain";
+import { Flash } from "./flash";
+
+/**
+ * Result of the check of a block in an audit.
+ */
+export interface AuditEntry {
+    index: number;
+    // Hash of the block, in hex
+    hash: string;
+    verified: boolean;
+    // Hashes of the transactions in the header and computed from the body,
+    // in hex, only for the blocks not verified
+    expected?: string;
+    computed?: string;
+}
+
+/**
+ * Checks the blocks in the browser, without trusting the nodes:
+ * - the hash of a block must be the one of its content
+ * - the transactions of a block must be the ones committed in its header:
+ *   the clientTransactionHash of the header must be the hash of the
+ *   transactions of the body
+ * - the forward links of a block must be signed by its roster
+ * The results are shown by badges in the card of the selected block.
+ *
+ * An audit runs the check of the transactions over a range of blocks and
+ * downloads a JSON report of the blocks checked, with the hashes of the ones
+ * that do not match. The chain of trust is verified from the genesis block
+ * by following the forward links, as a light client does.
+ *
+ * @export
+ * @class BlockVerifier
+ */
+export class BlockVerifier {
+    // Maximum number of blocks checked by an audit
+    static readonly maxAuditedBlocks = 10000;
+
+    chain: Chain;
+    flash: Flash;
+
+    // True while an audit runs, another one cannot be launched
+    auditing = false;
+    // True while the chain of trust is verified
+    walking = false;
+
+    /**
+     * Creates an instance of BlockVerifier, the badge is added to the card of
+     * each selected block.
+     * @param {Chain} chain
+     * @param {Flash} flash
+     * @memberof BlockVerifier
+     */
+    constructor(chain: Chain, flash: Flash) {
+        this.chain = chain;
+        this.flash = flash;
+
+        // The badge is added after the details of the block
+        chain.blockClickedSubject.subscribe({
+            next: (block) => {
+                this.draw(block);
+            },
+        });
+
+        d3.select("#audit-run").on("click", () => {
+            this.audit(
+                parseInt(d3.select("#audit-from").property("value"), 10),
+                parseInt(d3.select("#audit-to").property("value"), 10)
+            );
+        });
+        d3.select("#walk-run").on("click", () => {
+            this.verifyFromGenesis();
+        });
+    }
+
+    /**
+     * Check the hash of a block: it must be the hash of the content of the
+     * block.
+     *
+     * @static
+     * @param {SkipBlock} block
+     * @returns {boolean}
+     * @memberof BlockVerifier
+     */
+    static verifyHash(block: SkipBlock): boolean {
+        return block.computeHash().equals(block.hash);
+    }
+
+    /**
+     * Verify the collective signature of a forward link of a block with the
+     * public keys of the roster of the block. The nodes sign the links with
+     * the keys of their skipchain service, as the light client of cothority
+     * verifies them, or with their own key when they have none.
+     *
+     * @static
+     * @param {SkipBlock} block
+     * @param {ForwardLink} link : a forward link of the block
+     * @returns {Error} why the link is not valid, null if it is
+     * @memberof BlockVerifier
+     */
+    static verifyForwardLink(block: SkipBlock, link: ForwardLink): Error {
+        if (!link.from.equals(block.hash)) {
+            return new Error("the link does not start from the block");
+        }
+
+        try {
+            return link.verifyWithScheme(
+                block.roster.list.map((node) => {
+                    const service = node.serviceIdentities.find(
+                        (s) => s.name === SkipchainRPC.serviceName
+                    );
+                    return service === undefined
+                        ? node.getPublic()
+                        : service.getPublic();
+                }),
+                block.signatureScheme
+            );
+        } catch (e) {
+            // A mask of the wrong size cannot even be read
+            return e instanceof Error ? e : new Error(`${e}`);
+        }
+    }
+
+    /**
+     * Find the nodes of the roster of a block that signed one of its forward
+     * links, from the mask of the signature.
+     *
+     * @static
+     * @param {SkipBlock} block
+     * @param {ForwardLink} link : a forward link of the block
+     * @returns {boolean[]} true for each node of the roster that signed
+     * @memberof BlockVerifier
+     */
+    static signers(block: SkipBlock, link: ForwardLink): boolean[] {
+        const mask = link.signature.getMask();
+        return block.roster.list.map((_, i) => {
+            const byte = Math.floor(i / 8);
+            // tslint:disable-next-line:no-bitwise
+            return byte < mask.length && (mask[byte] & (1 << i % 8)) !== 0;
+        });
+    }
+
+    /**
+     * Compare the hash of the transactions of a block with the one in its
+     * header.
+     *
+     * @static
+     * @param {SkipBlock} block
+     * @returns {[Buffer, Buffer]} the hash in the header and the computed
+     * one
+     * @memberof BlockVerifier
+     */
+    static transactionHashes(block: SkipBlock): [Buffer, Buffer] {
+        const header = DataHeader.decode(block.data);
+        const body = DataBody.decode(block.payload);
+        return [
+            header.clientTransactionHash,
+            BlockDecoder.transactionHash(body, header.version),
+        ];
+    }
+
+    /**
+     * Open the dialog of the audit, the range starts at a block.
+     *
+     * @param {number} [from] : index of the first block of the range, the
+     * selected block by default
+     * @memberof BlockVerifier
+     */
+    openAudit(from?: number) {
+        if (from !== undefined) {
+            d3.select("#audit-from").property("value", from);
+            d3.select("#audit-to").property(
+                "value",
+                Math.min(from + 999, this.lastIndex())
+            );
+        }
+        UIkit.modal("#audit-modal").show();
+    }
+
+    /**
+     * Check the transactions of a range of blocks and download the report.
+     *
+     * @param {number} from : index of the first block
+     * @param {number} to : index of the last block
+     * @memberof BlockVerifier
+     */
+    async audit(from: number, to: number) {
+        const genesis = this.chain.initialBlock;
+        const lastIndex = this.lastIndex();
+        if (
+            isNaN(from) ||
+            isNaN(to) ||
+            from < genesis.index ||
+            to > lastIndex ||
+            from > to
+        ) {
+            this.flash.display(
+                Flash.flashType.WARNING,
+                `The range must be between blocks ${genesis.index} and ${lastIndex}`
+            );
+            return;
+        }
+        if (to - from + 1 > BlockVerifier.maxAuditedBlocks) {
+            this.flash.display(
+                Flash.flashType.WARNING,
+                `An audit checks at most ${BlockVerifier.maxAuditedBlocks} blocks`
+            );
+            return;
+        }
+        if (this.auditing) {
+            this.flash.display(
+                Flash.flashType.INFO,
+                "An audit is already running"
+            );
+            return;
+        }
+
+        this.auditing = true;
+        const progress = d3
+            .select("#audit-progress")
+            .attr("max", to - from + 1)
+            .attr("value", 0);
+        const result = d3.select("#audit-result").text("");
+        const entries = new Map<number, AuditEntry>();
+
+        try {
+            const repository = this.chain.repository;
+            const first = await repository.getBlockByIndex(genesis.hash, from);
+            try {
+                await repository
+                    .getRange(first.hash, to - from + 1, Chain.pageSize)
+                    .forEach((blocks) => {
+                        blocks.forEach((block) =>
+                            entries.set(block.index, this.check(block))
+                        );
+                        progress.attr("value", entries.size);
+                    });
+            } catch (e) {
+                // The nodes can refuse a page, its blocks are reported as
+                // unchecked
+                if (!(e instanceof PaginateError)) {
+                    throw e;
+                }
+            }
+
+            const checked = Array.from(entries.values()).sort(
+                (a, b) => a.index - b.index
+            );
+            const failed = checked.filter((entry) => !entry.verified);
+            const unchecked: number[] = [];
+            for (let index = from; index <= to; index++) {
+                if (!entries.has(index)) {
+                    unchecked.push(index);
+                }
+            }
+            result.text(
+                `${checked.length} of ${to - from + 1} block(s) checked, ${
+                    failed.length
+                } mismatch(es)`
+            );
+            this.download(from, to, checked, unchecked);
+
+            if (failed.length > 0) {
+                this.flash.display(
+                    Flash.flashType.WARNING,
+                    `The transactions of ${failed.length} block(s) do not match their header, e.g. block ${failed[0].index}`
+                );
+            }
+            if (unchecked.length > 0) {
+                this.flash.display(
+                    Flash.flashType.WARNING,
+                    `${unchecked.length} block(s) could not be checked, e.g. block ${unchecked[0]}, the report lists them`
+                );
+            }
+            if (failed.length === 0 && unchecked.length === 0) {
+                this.flash.display(
+                    Flash.flashType.INFO,
+                    `The transactions of blocks ${from} to ${to} match their headers`
+                );
+            }
+        } catch (e) {
+            this.flash.display(
+                Flash.flashType.ERROR,
+                `Unable to audit the blocks: ${e}`
+            );
+        } finally {
+            this.auditing = false;
+        }
+    }
+
+    /**
+     * Follow the chain of trust from the genesis block, as a light client
+     * does: the highest forward link of each block is verified with the
+     * roster of the block, then the block it points to must have the signed
+     * hash. The walk stops at the last block or at the first block breaking
+     * the chain, which is then selected.
+     *
+     * @memberof BlockVerifier
+     */
+    async verifyFromGenesis() {
+        if (this.walking) {
+            this.flash.display(
+                Flash.flashType.INFO,
+                "The chain of trust is already being verified"
+            );
+            return;
+        }
+
+        this.walking = true;
+        const result = d3.select("#walk-result").text("Verifying…");
+        const broken = (block: SkipBlock, reason: string) => {
+            result.text(`The chain of trust breaks at block ${block.index}: `);
+            result.append("span").attr("class", "walk-problem").text(reason);
+            this.flash.display(
+                Flash.flashType.WARNING,
+                `The chain of trust breaks at block ${block.index}: ${reason}`
+            );
+            this.chain.selectBlockByIndex(block.index);
+        };
+
+        try {
+            let block = this.chain.initialBlock;
+            let nbLinks = 0;
+            if (!BlockVerifier.verifyHash(block)) {
+                broken(block, "its hash does not match its content");
+                return;
+            }
+
+            while (block.forwardLinks.length > 0) {
+                const level = block.forwardLinks.length - 1;
+                const link = block.forwardLinks[level];
+                const error = BlockVerifier.verifyForwardLink(block, link);
+                if (error !== null) {
+                    broken(block, `forward link ${level}: ${error.message}`);
+                    return;
+                }
+
+                const next = await this.chain.repository.getBlock(link.to);
+                if (!next.hash.equals(link.to)) {
+                    broken(
+                        next,
+                        `it is not the block signed by block ${block.index}`
+                    );
+                    return;
+                }
+                if (!BlockVerifier.verifyHash(next)) {
+                    broken(next, "its hash does not match its content");
+                    return;
+                }
+
+                block = next;
+                nbLinks++;
+                result.text(`Verifying… block ${block.index}`);
+            }
+
+            result.text(
+                `The chain of trust holds from block ${this.chain.initialBlock.index} to block ${block.index}, through ${nbLinks} forward link(s)`
+            );
+        } catch (e) {
+            result.text("");
+            this.flash.display(
+                Flash.flashType.ERROR,
+                `Unable to verify the chain of trust: ${e}`
+            );
+        } finally {
+            this.walking = false;
+        }
+    }
+
+    /**
+     * Helper: check the transactions of a block, the summary of the block
+     * already tells if they match.
+     * @param block
+     */
+    private check(block: SkipBlock): AuditEntry {
+        const entry: AuditEntry = {
+            hash: block.hash.toString("hex"),
+            index: block.index,
+            verified:
+                this.chain.repository.decoder.get(block).transactionsVerified,
+        };
+        if (!entry.verified) {
+            const [expected, computed] = BlockVerifier.transactionHashes(block);
+            entry.expected = expected.toString("hex");
+            entry.computed = computed.toString("hex");
+        }
+        return entry;
+    }
+
+    /**
+     * Helper: download the report of an audit as a JSON file.
+     * @param from index of the first block of the range
+     * @param to index of the last block of the range
+     * @param entries the checked blocks
+     * @param unchecked indexes of the blocks that could not be fetched
+     */
+    private download(
+        from: number,
+        to: number,
+        entries: AuditEntry[],
+        unchecked: number[]
+    ) {
+        const report = {
+            blocks: entries,
+            date: new Date().toISOString(),
+            from,
+            genesis: this.chain.initialBlock.hash.toString("hex"),
+            mismatches: entries.filter((entry) => !entry.verified).length,
+            to,
+            unchecked,
+        };
+        const blob = new Blob([JSON.stringify(report, null, 2)], {
+            type: "application/json",
+        });
+        const blobUrl = URL.createObjectURL(blob);
+
+        const anchor = document.createElement("a");
+        anchor.href = blobUrl;
+        anchor.download = `audit_${from}_${to}.json`;
+        anchor.click();
+        URL.revokeObjectURL(blobUrl);
+    }
+
+    /**
+     * Helper: add the results of the checks of the selected block to its
+     * card, with the button to audit a range from it.
+     * @param block
+     */
+    private draw(block: SkipBlock) {
+        const details = d3.select(".block-card-header-details");
+        details.select(".block-check").remove();
+        if (details.empty()) {
+            return;
+        }
+
+        const line = details.append("p").attr("class", "block-check");
+        const hashVerified = BlockVerifier.verifyHash(block);
+        line.append("span")
+            .attr(
+                "class",
+                hashVerified
+                    ? "uk-label uk-label-success"
+                    : "uk-label uk-label-danger"
+            )
+            .text(hashVerified ? "Hash verified" : "Hash mismatch")
+            .attr(
+                "uk-tooltip",
+                hashVerified
+                    ? "The hash of the block is the one of its content"
+                    : `Computed: ${block.computeHash().toString("hex")}`
+            );
+
+        const verified =
+            this.chain.repository.decoder.get(block).transactionsVerified;
+        const badge = line
+            .append("span")
+            .attr(
+                "class",
+                verified
+                    ? "uk-label uk-label-success"
+                    : "uk-label uk-label-danger"
+            )
+            .text(
+                verified ? "Transactions verified" : "Transaction hash mismatch"
+            );
+        if (verified) {
+            badge.attr(
+                "uk-tooltip",
+                "The hash of the transactions matches the clientTransactionHash of the header"
+            );
+        } else {
+            const [expected, computed] = BlockVerifier.transactionHashes(block);
+            badge.attr(
+                "uk-tooltip",
+                `Header: ${expected.toString(
+                    "hex"
+                )}<br>Computed: ${computed.toString("hex")}`
+            );
+        }
+
+        line.append("button")
+            .attr("class", "uk-button uk-button-default uk-button-small")
+            .attr("uk-tooltip", "Check the transactions of a range of blocks")
+            .text("Audit range")
+            .on("click", () => {
+                this.openAudit(block.index);
+            });
+    }
+
+    /**
+     * Helper: index of the last known block of the chain.
+     */
+    private lastIndex(): number {
+        const last = this.chain.lastAddedBlock.lastBlock;
+        return last !== undefined ? last.index : this.chain.initialBlock.index;
+    }
+}
@@ -0,0 +1,984 @@
+import { SkipBlock } from "@dedis/cothority/skipchain";
+import * as blockies from "blockies-ts";
+import * as d3 from "d3";
+import { Subject } from "rxjs";
+
+import { BlockColoring } from "./blockColoring";
+import { DecodedBlock } from "./blockDecoder";
+import { Chain } from "./chain";
+import { ChainRenderer } from "./chainRenderer";
+import { Flash } from "./flash";
+import { Utils } from "./utils";
+
+/**
+ * A block drawn on the canvas.
+ */
+interface DrawnBlock {
+    block: SkipBlock;
+    decoded: DecodedBlock;
+    // Horizontal position in the coordinates of the chain
+    x: number;
+    // Colour given by the colouring mode of the chain
+    color: string;
+    // Blocky of the hash, created the first time it is drawn
+    blocky?: HTMLCanvasElement;
+}
+
+/**
+ * The arrow of a link drawn on the canvas.
+ */
+interface DrawnArrow {
+    from: SkipBlock;
+    toIndex: number;
+    level: number;
+    // Start and end of the arrow in the coordinates of the chain
+    x1: number;
+    x2: number;
+}
+
+/**
+ * Neighbouring blocks grouped when the view is zoomed out.
+ */
+interface Bin {
+    // Index of the first block of the bin and number of blocks it holds
+    first: number;
+    size: number;
+    // Number of loaded blocks in the bin, the other fields only count them
+    loaded: number;
+    nbTransactions: number;
+    nbRejected: number;
+    // Time of the first and the last loaded blocks, in milliseconds since
+    // the epoch
+    start: number;
+    end: number;
+}
+
+/**
+ * The element under the pointer.
+ */
+interface Hit {
+    block?: DrawnBlock;
+    arrow?: DrawnArrow;
+    bin?: Bin;
+    // Parts of the block drawn only when the chain is not simplified
+    blocky?: boolean;
+    accepted?: boolean;
+    rejected?: boolean;
+}
+
+/**
+ * Renderer drawing the chain on a canvas. The blocks of the same colour, the
+ * arrows and the circles are drawn in batches, and only the visible ones are
+ * drawn. The clicks are tested against the drawn elements to find the block
+ * or the arrow under the pointer.
+ *
+ * When the view is zoomed out (transform.k < 1) the chain is simplified: a
+ * single block is drawn per column of pixels, and the circles, the blockies,
+ * the links between consecutive blocks and the arrows too short to be seen
+ * are not drawn. Further out, the blocks are grouped in bins showing their
+ * number of transactions, the ratio of rejected ones and the time they span
+ * as bars. Clicking on a bin zooms into it.
+ *
+ * @export
+ * @class CanvasRenderer
+ * @implements {ChainRenderer}
+ */
+export class CanvasRenderer implements ChainRenderer {
+    // Scale below which the chain is simplified
+    static readonly detailScale = 1;
+    // Minimum length in pixels of the arrows drawn when the chain is
+    // simplified
+    static readonly minArrowLength = 4;
+    // Distance in pixels from an arrow at which it is still under the pointer
+    static readonly arrowMargin = 4;
+    // Scale below which the blocks are grouped in bins, a block is then
+    // narrower than 4 pixels
+    static readonly binScale = 0.05;
+    // Minimum width of a bin in pixels, the number of blocks of a bin is the
+    // next power of 2 so that the bins do not move while zooming
+    static readonly minBinWidth = 24;
+    // Vertical extent of the bars of the bins
+    static readonly binTop = 30;
+    static readonly binBottom = 180;
+
+    static readonly linkColor = "#808080";
+    static readonly arrowColor = "#A0A0A0";
+    static readonly acceptedColor = "#b3ffb3";
+    static readonly acceptedHoverColor = "#00cc00";
+    static readonly rejectedColor = "#EF5959";
+    static readonly rejectedHoverColor = "#d11515";
+    static readonly timeColor = "#8C764A";
+    static readonly binColor = "#f2f2f2";
+    static readonly binHoverColor = "#e0e0e0";
+    // Colour of the blocks lower than the height filter, and opacity of the
+    // bins when the filter is on
+    static readonly filteredColor = "#e6e6e6";
+    static readonly filteredBinAlpha = 0.3;
+
+    readonly linkClickedSubject = new Subject<[SkipBlock, number]>();
+    readonly linkDoubleClickedSubject = new Subject<[SkipBlock, number]>();
+
+    flash: Flash;
+    blockClickedSubject: Subject<SkipBlock>;
+    coloring: BlockColoring;
+
+    private readonly svg: SVGSVGElement;
+    private readonly canvas: HTMLCanvasElement;
+    private readonly context: CanvasRenderingContext2D;
+
+    // Drawn blocks by index
+    private readonly blocks = new Map<number, DrawnBlock>();
+    // Drawn arrows by level
+    private readonly arrows: DrawnArrow[][] = [];
+    // Colours and outlines given to the blocks by hash (hex), they are kept
+    // for the blocks not loaded yet
+    private readonly colors = new Map<string, string>();
+    private readonly outlines = new Map<string, [string, number]>();
+    // Highlighted links, as "<from index>-<to index>"
+    private highlighted = new Set<string>();
+    // The blocks lower than minHeight are greyed out, or hidden, and only the
+    // arrows of their levels and above are drawn
+    private minHeight = 1;
+    private hideFiltered = false;
+
+    // Bins drawn by the last frame, by index of their first block
+    private bins = new Map<number, Bin>();
+
+    private transform = { x: 0, y: 0, k: 1 };
+    private hovered: Hit = {};
+    // Pending animation frame, undefined when the canvas is up to date
+    private frame: number;
+    // A click on an arrow waits for a possible double click
+    private clickTimeout: NodeJS.Timeout;
+
+    /**
+     * Creates an instance of CanvasRenderer and its canvas in the svg.
+     * @param {*} svg : the svg container of the chain
+     * @param {Flash} flash
+     * @param {Subject<SkipBlock>} blockClickedSubject : notified when a block
+     * is clicked on
+     * @param {BlockColoring} coloring : gives the colours of the blocks
+     * @memberof CanvasRenderer
+     */
+    constructor(
+        svg: any,
+        flash: Flash,
+        blockClickedSubject: Subject<SkipBlock>,
+        coloring: BlockColoring
+    ) {
+        this.flash = flash;
+        this.blockClickedSubject = blockClickedSubject;
+        this.coloring = coloring;
+        this.svg = svg.node();
+
+        coloring.changedSubject.subscribe({
+            next: () => {
+                for (const drawn of this.blocks.values()) {
+                    drawn.color = coloring.color(drawn.decoded);
+                }
+                this.invalidate();
+            },
+        });
+
+        // The canvas is in the svg so that the axis and the loaders are drawn
+        // above it and the zoom still applies
+        const canvas = svg
+            .append("foreignObject")
+            .attr("width", "100%")
+            .attr("height", Chain.svgHeight)
+            .append("xhtml:canvas")
+            .style("display", "block");
+        this.canvas = canvas.node();
+        this.context = this.canvas.getContext("2d");
+
+        const self = this;
+        canvas
+            .on("mousemove", function () {
+                const [x, y] = d3.mouse(this);
+                self.hover(self.hitTest(x, y));
+            })
+            .on("mouseleave", () => {
+                this.hover({});
+            })
+            .on("click", function () {
+                const [x, y] = d3.mouse(this);
+                self.click(self.hitTest(x, y));
+            })
+            .on("dblclick", function () {
+                const [x, y] = d3.mouse(this);
+                const hit = self.hitTest(x, y);
+                if (hit.arrow !== undefined) {
+                    clearTimeout(self.clickTimeout);
+                    self.linkDoubleClickedSubject.next([
+                        hit.arrow.from,
+                        hit.arrow.toIndex,
+                    ]);
+                }
+            });
+    }
+
+    addBlock(x: number, block: SkipBlock, decoded: DecodedBlock) {
+        this.blocks.set(block.index, {
+            block,
+            color: this.coloring.color(decoded),
+            decoded,
+            x,
+        });
+        this.invalidate();
+    }
+
+    addArrow(x: number, toIndex: number, from: SkipBlock, level: number) {
+        if (this.arrows[level] === undefined) {
+            this.arrows[level] = [];
+        }
+        this.arrows[level].push({
+            from,
+            level,
+            toIndex,
+            x1: x + Chain.blockWidth,
+            x2: Chain.layout.indexToX(toIndex) - Chain.blockPadding + 2,
+        });
+        this.invalidate();
+    }
+
+    removeBlocks(from: number, to: number) {
+        for (const index of Array.from(this.blocks.keys())) {
+            if (index >= from && index <= to) {
+                this.blocks.delete(index);
+            }
+        }
+        for (let level = 0; level < this.arrows.length; level++) {
+            if (this.arrows[level] !== undefined) {
+                this.arrows[level] = this.arrows[level].filter(
+                    (a) => a.from.index < from || a.from.index > to
+                );
+            }
+        }
+        this.hovered = {};
+        this.invalidate();
+    }
+
+    setTransform(transform: { x: number; y: number; k: number }) {
+        this.transform = { x: transform.x, y: 0, k: transform.k };
+        this.invalidate();
+    }
+
+    setBlockColor(block: SkipBlock, color: string) {
+        const id = block.hash.toString("hex");
+        if (color === undefined) {
+            this.colors.delete(id);
+        } else {
+            this.colors.set(id, color);
+        }
+        this.invalidate();
+    }
+
+    setBlockOutline(block: SkipBlock, color: string, width: number) {
+        const id = block.hash.toString("hex");
+        if (width === 0) {
+            this.outlines.delete(id);
+        } else {
+            this.outlines.set(id, [color, width]);
+        }
+        this.invalidate();
+    }
+
+    setHeightFilter(minHeight: number, hide: boolean) {
+        this.minHeight = minHeight;
+        this.hideFiltered = hide;
+        this.hovered = {};
+        this.invalidate();
+    }
+
+    highlightLinks(links: [number, number][]) {
+        this.highlighted = new Set(links.map(([from, to]) => `${from}-${to}`));
+        this.invalidate();
+    }
+
+    /**
+     * Helper: draw the canvas at the next animation frame.
+     */
+    private invalidate() {
+        if (this.frame === undefined) {
+            this.frame = window.requestAnimationFrame(() => this.draw());
+        }
+    }
+
+    /**
+     * Helper: draw the visible part of the chain.
+     */
+    private draw() {
+        this.frame = undefined;
+
+        // The canvas follows the size of the svg and the density of the screen
+        const width = this.svg.getBoundingClientRect().width;
+        const height = Chain.svgHeight;
+        const ratio = window.devicePixelRatio || 1;
+        if (this.canvas.width !== Math.round(width * ratio)) {
+            this.canvas.width = Math.round(width * ratio);
+            this.canvas.height = Math.round(height * ratio);
+            this.canvas.style.width = `${width}px`;
+            this.canvas.style.height = `${height}px`;
+        }
+
+        const ctx = this.context;
+        ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+        ctx.clearRect(0, 0, width, height);
+
+        // The visible part of the chain, in its coordinates
+        const { x, k } = this.transform;
+        const left = -x / k - Chain.unitBlockAndPaddingWidth;
+        const right = (width - x) / k;
+        const detailed = k >= CanvasRenderer.detailScale;
+
+        this.bins.clear();
+        if (k < CanvasRenderer.binScale) {
+            // The blocks of the filter are drawn above the bins
+            const filtered = this.minHeight > 1;
+            this.drawBins(
+                left,
+                right,
+                !filtered
+                    ? 1
+                    : this.hideFiltered
+                    ? 0
+                    : CanvasRenderer.filteredBinAlpha
+            );
+            if (filtered) {
+                this.drawBlocks(
+                    this.visibleBlocks(left, right, false).filter(
+                        (drawn) => !this.isFiltered(drawn.block)
+                    )
+                );
+            }
+            return;
+        }
+
+        const blocks = this.visibleBlocks(left, right, detailed);
+        this.drawBlocks(blocks);
+        this.drawArrows(left, right, detailed);
+        if (detailed) {
+            this.drawCircles(
+                blocks.filter((drawn) => !this.isFiltered(drawn.block))
+            );
+        }
+    }
+
+    /**
+     * Helper: get the blocks to draw, a single one by column of pixels when
+     * the chain is simplified.
+     * @param left the left edge of the view, in the coordinates of the chain
+     * @param right the right edge of the view
+     * @param detailed false if the chain is simplified
+     */
+    private visibleBlocks(
+        left: number,
+        right: number,
+        detailed: boolean
+    ): DrawnBlock[] {
+        const visible: DrawnBlock[] = [];
+        // The highest block of each column of pixels
+        const columns = new Map<number, DrawnBlock>();
+
+        for (const drawn of this.blocks.values()) {
+            if (
+                drawn.x < left ||
+                drawn.x > right ||
+                (this.hideFiltered && this.isFiltered(drawn.block))
+            ) {
+                continue;
+            }
+            if (detailed) {
+                visible.push(drawn);
+                continue;
+            }
+
+            const column = Math.floor(this.screenX(drawn.x));
+            const other = columns.get(column);
+            if (
+                other === undefined ||
+                other.block.height < drawn.block.height
+            ) {
+                columns.set(column, drawn);
+            }
+        }
+
+        return detailed ? visible : Array.from(columns.values());
+    }
+
+    /**
+     * Helper: draw the blocks, in one batch per colour, and their outlines.
+     * @param blocks the visible blocks
+     */
+    private drawBlocks(blocks: DrawnBlock[]) {
+        const ctx = this.context;
+        const width = Math.max(1, Chain.blockWidth * this.transform.k);
+
+        const batches = new Map<string, DrawnBlock[]>();
+        for (const drawn of blocks) {
+            const color = this.isFiltered(drawn.block)
+                ? CanvasRenderer.filteredColor
+                : this.colors.get(drawn.decoded.hash) || drawn.color;
+            if (!batches.has(color)) {
+                batches.set(color, []);
+            }
+            batches.get(color).push(drawn);
+        }
+
+        for (const [color, batch] of batches) {
+            ctx.fillStyle = color;
+            ctx.beginPath();
+            for (const drawn of batch) {
+                ctx.rect(
+                    this.screenX(drawn.x),
+                    Chain.blockTop,
+                    width,
+                    CanvasRenderer.blockHeight(drawn.block)
+                );
+            }
+            ctx.fill();
+        }
+
+        for (const drawn of blocks) {
+            const outline = this.outlines.get(drawn.decoded.hash);
+            if (outline !== undefined) {
+                ctx.strokeStyle = outline[0];
+                ctx.lineWidth = outline[1];
+                ctx.strokeRect(
+                    this.screenX(drawn.x),
+                    Chain.blockTop,
+                    width,
+                    CanvasRenderer.blockHeight(drawn.block)
+                );
+            }
+        }
+    }
+
+    /**
+     * Helper: draw the arrows of the links in one batch, then the hovered
+     * one above the others.
+     * @param left the left edge of the view, in the coordinates of the chain
+     * @param right the right edge of the view
+     * @param detailed false if the chain is simplified
+     */
+    private drawArrows(left: number, right: number, detailed: boolean) {
+        const ctx = this.context;
+
+        if (detailed && this.minHeight <= 1 && this.arrows[0] !== undefined) {
+            ctx.strokeStyle = CanvasRenderer.linkColor;
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            for (const arrow of this.arrows[0]) {
+                if (arrow.x1 >= left && arrow.x1 <= right) {
+                    this.traceLine(arrow);
+                }
+            }
+            ctx.stroke();
+        }
+
+        const visible: DrawnArrow[] = [];
+        const highlighted: DrawnArrow[] = [];
+        for (const arrows of this.arrows) {
+            for (const arrow of arrows || []) {
+                if (arrow.x2 < left || arrow.x1 > right) {
+                    continue;
+                }
+                // The highlighted arrows are drawn even if they are short
+                if (
+                    this.highlighted.has(`${arrow.from.index}-${arrow.toIndex}`)
+                ) {
+                    highlighted.push(arrow);
+                } else if (
+                    arrow.level > 0 &&
+                    arrow !== this.hovered.arrow &&
+                    this.isDrawn(arrow, detailed)
+                ) {
+                    visible.push(arrow);
+                }
+            }
+        }
+        this.strokeArrows(visible, CanvasRenderer.arrowColor, detailed);
+        this.strokeArrows(
+            highlighted,
+            CanvasRenderer.cssColor("--path-colour"),
+            detailed
+        );
+
+        if (this.hovered.arrow !== undefined) {
+            this.strokeArrows(
+                [this.hovered.arrow],
+                CanvasRenderer.cssColor("--selected-colour"),
+                detailed
+            );
+        }
+    }
+
+    /**
+     * Helper: draw arrows of a colour, with their heads if the chain is not
+     * simplified.
+     * @param arrows
+     * @param color
+     * @param detailed false if the chain is simplified
+     */
+    private strokeArrows(
+        arrows: DrawnArrow[],
+        color: string,
+        detailed: boolean
+    ) {
+        const ctx = this.context;
+        const k = this.transform.k;
+
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2.8;
+        ctx.beginPath();
+        for (const arrow of arrows) {
+            this.traceLine(arrow);
+        }
+        ctx.stroke();
+
+        if (!detailed) {
+            return;
+        }
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        for (const arrow of arrows) {
+            const tip = this.screenX(arrow.x2) + 9.6 * k;
+            const base = this.screenX(arrow.x2) - 9.4 * k;
+            const y = Chain.getLinkY(arrow.level);
+            ctx.moveTo(base, y - 6.5);
+            ctx.lineTo(tip, y);
+            ctx.lineTo(base, y + 6.5);
+            ctx.closePath();
+        }
+        ctx.fill();
+    }
+
+    /**
+     * Helper: draw the circles counting the accepted and rejected
+     * transactions, and the blockies of the hashes.
+     * @param blocks the visible blocks
+     */
+    private drawCircles(blocks: DrawnBlock[]) {
+        const ctx = this.context;
+        const k = this.transform.k;
+
+        const circles: [boolean, string][] = [
+            [true, CanvasRenderer.acceptedColor],
+            [false, CanvasRenderer.rejectedColor],
+        ];
+        for (const [accepted, color] of circles) {
+            ctx.strokeStyle = color;
+            ctx.lineWidth = k;
+            ctx.beginPath();
+            for (const drawn of blocks) {
+                const x = this.screenX(CanvasRenderer.circleX(drawn, accepted));
+                ctx.moveTo(x + 4 * k, Chain.circleTop);
+                ctx.arc(x, Chain.circleTop, 4 * k, 0, 2 * Math.PI);
+            }
+            ctx.stroke();
+        }
+
+        const hovered = this.hovered.block;
+        if (
+            hovered !== undefined &&
+            (this.hovered.accepted || this.hovered.rejected)
+        ) {
+            const accepted = this.hovered.accepted === true;
+            ctx.strokeStyle = accepted
+                ? CanvasRenderer.acceptedHoverColor
+                : CanvasRenderer.rejectedHoverColor;
+            ctx.beginPath();
+            ctx.arc(
+                this.screenX(CanvasRenderer.circleX(hovered, accepted)),
+                Chain.circleTop,
+                4 * k,
+                0,
+                2 * Math.PI
+            );
+            ctx.stroke();
+        }
+
+        ctx.globalAlpha = 0.6;
+        for (const drawn of blocks) {
+            if (drawn.blocky === undefined) {
+                drawn.blocky = blockies.create({ seed: drawn.decoded.hash });
+            }
+            ctx.drawImage(
+                drawn.blocky,
+                this.screenX(drawn.x + 30),
+                Chain.circleTop - 4 * k,
+                9 * k,
+                9 * k
+            );
+        }
+        ctx.globalAlpha = 1;
+    }
+
+    /**
+     * Helper: group the visible blocks in bins and draw their bars. The
+     * number of transactions and the time span are relative to the largest
+     * visible bin, bins with blocks not loaded yet are lighter.
+     * @param left the left edge of the view, in the coordinates of the chain
+     * @param right the right edge of the view
+     * @param opacity of the bins, 0 to only group the blocks
+     */
+    private drawBins(left: number, right: number, opacity: number) {
+        const ctx = this.context;
+        const size = this.binSize();
+
+        for (const drawn of this.blocks.values()) {
+            if (drawn.x < left || drawn.x > right) {
+                continue;
+            }
+
+            const first = drawn.block.index - (drawn.block.index % size);
+            let bin = this.bins.get(first);
+            if (bin === undefined) {
+                bin = {
+                    end: drawn.decoded.timestamp,
+                    first,
+                    loaded: 0,
+                    nbRejected: 0,
+                    nbTransactions: 0,
+                    size,
+                    start: drawn.decoded.timestamp,
+                };
+                this.bins.set(first, bin);
+            }
+            bin.loaded++;
+            bin.nbTransactions += drawn.decoded.nbTransactions;
+            bin.nbRejected += drawn.decoded.nbRejected;
+            bin.start = Math.min(bin.start, drawn.decoded.timestamp);
+            bin.end = Math.max(bin.end, drawn.decoded.timestamp);
+        }
+
+        // The bins are still used to zoom on the blocks
+        if (opacity === 0) {
+            return;
+        }
+
+        let maxTransactions = 1;
+        let maxSpan = 1;
+        for (const bin of this.bins.values()) {
+            maxTransactions = Math.max(maxTransactions, bin.nbTransactions);
+            maxSpan = Math.max(maxSpan, bin.end - bin.start);
+        }
+
+        const height = CanvasRenderer.binBottom - CanvasRenderer.binTop;
+        const blockColor = `rgb(${Chain.blockColor.r}, ${Chain.blockColor.v}, ${Chain.blockColor.b})`;
+        for (const bin of this.bins.values()) {
+            const start = Chain.layout.indexToX(bin.first);
+            const x = this.screenX(start);
+            const width =
+                (Chain.layout.indexToX(bin.first + size) - start) *
+                this.transform.k;
+
+            ctx.globalAlpha = opacity;
+            ctx.fillStyle =
+                bin === this.hovered.bin
+                    ? CanvasRenderer.binHoverColor
+                    : CanvasRenderer.binColor;
+            ctx.fillRect(x + 1, Chain.blockTop, width - 2, height + 10);
+
+            ctx.globalAlpha = (bin.loaded < size ? 0.5 : 1) * opacity;
+            const bars: [number, string][] = [
+                [bin.nbTransactions / maxTransactions, blockColor],
+                [
+                    bin.nbTransactions === 0
+                        ? 0
+                        : bin.nbRejected / bin.nbTransactions,
+                    CanvasRenderer.rejectedColor,
+                ],
+                [(bin.end - bin.start) / maxSpan, CanvasRenderer.timeColor],
+            ];
+            const barWidth = (width - 4) / bars.length;
+            bars.forEach(([ratio, color], i) => {
+                ctx.fillStyle = color;
+                ctx.fillRect(
+                    x + 2 + i * barWidth,
+                    CanvasRenderer.binBottom - ratio * height,
+                    Math.max(1, barWidth - 1),
+                    ratio * height
+                );
+            });
+            ctx.globalAlpha = 1;
+        }
+    }
+
+    /**
+     * Helper: get the block starting before a position, the last drawn one
+     * if blocks overlap.
+     * @param chainX the position in the coordinates of the chain
+     */
+    private blockAt(chainX: number): DrawnBlock {
+        let index = Math.floor(Chain.layout.xToIndex(chainX));
+        while (
+            this.blocks.has(index + 1) &&
+            this.blocks.get(index + 1).x <= chainX
+        ) {
+            index++;
+        }
+
+        const drawn = this.blocks.get(index);
+        return drawn !== undefined && drawn.x <= chainX ? drawn : undefined;
+    }
+
+    /**
+     * Helper: get the number of blocks of the bins at the current scale.
+     */
+    private binSize(): number {
+        const blockWidth = Chain.unitBlockAndPaddingWidth * this.transform.k;
+        return (
+            2 ** Math.ceil(Math.log2(CanvasRenderer.minBinWidth / blockWidth))
+        );
+    }
+
+    /**
+     * Helper: find the element at a position of the canvas.
+     * @param x horizontal position in pixels
+     * @param y vertical position in pixels
+     */
+    private hitTest(x: number, y: number): Hit {
+        const k = this.transform.k;
+        const detailed = k >= CanvasRenderer.detailScale;
+        // The position in the coordinates of the chain
+        const chainX = (x - this.transform.x) / k;
+
+        if (k < CanvasRenderer.binScale) {
+            const index = Math.floor(Chain.layout.xToIndex(chainX));
+            const bin = this.bins.get(index - (index % this.binSize()));
+            return bin !== undefined && y >= Chain.blockTop ? { bin } : {};
+        }
+
+        let drawn = this.blockAt(chainX);
+        if (
+            drawn !== undefined &&
+            this.hideFiltered &&
+            this.isFiltered(drawn.block)
+        ) {
+            drawn = undefined;
+        }
+
+        if (drawn !== undefined && detailed && !this.isFiltered(drawn.block)) {
+            // The blocky and the circles are above the block
+            if (
+                Math.abs(y - (Chain.circleTop + 0.5 * k)) <= 4.5 * k &&
+                Math.abs(chainX - (drawn.x + 34.5)) <= 4.5
+            ) {
+                return { block: drawn, blocky: true };
+            }
+            for (const accepted of [true, false]) {
+                const circleX = CanvasRenderer.circleX(drawn, accepted);
+                if (
+                    Math.hypot((chainX - circleX) * k, y - Chain.circleTop) <=
+                    4 * k
+                ) {
+                    return {
+                        accepted,
+                        block: drawn,
+                        rejected: !accepted,
+                    };
+                }
+            }
+        }
+
+        // The arrows are above the blocks
+        const levelHeight = Chain.svgHeight / Chain.maxHeightBlock;
+        const level = Math.round((y - Chain.axisPadding) / levelHeight) - 1;
+        if (
+            level > 0 &&
+            this.arrows[level] !== undefined &&
+            Math.abs(y - Chain.getLinkY(level)) <= CanvasRenderer.arrowMargin
+        ) {
+            const margin = CanvasRenderer.arrowMargin / k;
+            const arrow = this.arrows[level].find(
+                (a) =>
+                    chainX >= a.x1 - margin &&
+                    chainX <= a.x2 + margin &&
+                    this.isDrawn(a, detailed)
+            );
+            if (arrow !== undefined) {
+                return { arrow };
+            }
+        }
+
+        if (
+            drawn !== undefined &&
+            chainX <= drawn.x + Math.max(Chain.blockWidth, 1 / k) &&
+            y >= Chain.blockTop &&
+            y <= Chain.blockTop + CanvasRenderer.blockHeight(drawn.block)
+        ) {
+            return { block: drawn };
+        }
+        return {};
+    }
+
+    /**
+     * Helper: update the cursor, the tooltip and the hovered element.
+     * @param hit the element under the pointer
+     */
+    private hover(hit: Hit) {
+        const tooltip = d3.select(".tooltip");
+        const text = CanvasRenderer.describe(hit);
+        if (text !== undefined) {
+            tooltip
+                .style("opacity", 1)
+                .html(text)
+                .style(
+                    "left",
+                    d3.event.x - parseInt(tooltip.style("width"), 10) / 2 + "px"
+                )
+                .style("top", d3.event.y - 30 + "px");
+        } else if (CanvasRenderer.describe(this.hovered) !== undefined) {
+            tooltip
+                .transition()
+                .duration(100)
+                .style("opacity", 0)
+                .style("pointer-events", "none");
+        }
+
+        const clickable =
+            hit.arrow !== undefined ||
+            hit.bin !== undefined ||
+            (hit.block !== undefined && !hit.accepted && !hit.rejected);
+        this.canvas.style.cursor = clickable ? "pointer" : "default";
+
+        const previous = this.hovered;
+        this.hovered = hit;
+        if (
+            previous.arrow !== hit.arrow ||
+            previous.bin !== hit.bin ||
+            previous.accepted !== hit.accepted ||
+            previous.rejected !== hit.rejected ||
+            (previous.block !== hit.block && (hit.accepted || hit.rejected))
+        ) {
+            this.invalidate();
+        }
+    }
+
+    /**
+     * Helper: select the clicked block, copy the clicked hash, move to the
+     * block pointed by the clicked arrow or zoom into the clicked bin.
+     * @param hit the clicked element
+     */
+    private click(hit: Hit) {
+        if (hit.bin !== undefined) {
+            Utils.zoomOnChain(hit.bin.first, hit.bin.first + hit.bin.size - 1);
+        } else if (hit.arrow !== undefined) {
+            const arrow = hit.arrow;
+            clearTimeout(this.clickTimeout);
+            this.clickTimeout = setTimeout(() => {
+                this.linkClickedSubject.next([arrow.from, arrow.toIndex]);
+            }, 300);
+        } else if (hit.blocky) {
+            Utils.copyToClipBoard(hit.block.decoded.hash, this.flash);
+        } else if (hit.block !== undefined && !hit.accepted && !hit.rejected) {
+            this.blockClickedSubject.next(hit.block.block);
+        }
+    }
+
+    /**
+     * Helper: check if an arrow is drawn, the short ones are hidden when the
+     * chain is simplified and the levels below the height filter are hidden.
+     * @param arrow
+     * @param detailed false if the chain is simplified
+     */
+    private isDrawn(arrow: DrawnArrow, detailed: boolean): boolean {
+        return (
+            arrow.level >= this.minHeight - 1 &&
+            (detailed ||
+                (arrow.x2 - arrow.x1) * this.transform.k >=
+                    CanvasRenderer.minArrowLength)
+        );
+    }
+
+    /**
+     * Helper: check if a block is lower than the height filter.
+     * @param block
+     */
+    private isFiltered(block: SkipBlock): boolean {
+        return block.height < this.minHeight;
+    }
+
+    /**
+     * Helper: add the line of an arrow to the current path.
+     * @param arrow
+     */
+    private traceLine(arrow: DrawnArrow) {
+        const y = Chain.getLinkY(arrow.level);
+        this.context.moveTo(this.screenX(arrow.x1), y);
+        this.context.lineTo(this.screenX(arrow.x2), y);
+    }
+
+    /**
+     * Helper: convert a horizontal position of the chain to the canvas.
+     * @param x
+     */
+    private screenX(x: number): number {
+        return this.transform.x + x * this.transform.k;
+    }
+
+    /**
+     * Helper: get the text of the tooltip of an element, undefined if it has
+     * none.
+     * @param hit
+     */
+    private static describe(hit: Hit): string {
+        if (hit.bin !== undefined) {
+            const bin = hit.bin;
+            const rejected =
+                bin.nbTransactions === 0
+                    ? 0
+                    : Math.round((bin.nbRejected / bin.nbTransactions) * 100);
+            return (
+                `Blocks ${bin.first} to ${bin.first + bin.size - 1}: ` +
+                `${bin.nbTransactions} transactions, ${rejected}% rejected, ` +
+                `from ${new Date(bin.start).toLocaleString()} ` +
+                `to ${new Date(bin.end).toLocaleString()}` +
+                (bin.loaded < bin.size ? ` (${bin.loaded} blocks loaded)` : "")
+            );
+        }
+        if (hit.arrow !== undefined) {
+            return `From block ${hit.arrow.from.index} to ${hit.arrow.toIndex}`;
+        }
+        if (hit.blocky) {
+            return `Block hash: ${hit.block.decoded.hash}`;
+        }
+        if (hit.accepted) {
+            return `${hit.block.decoded.nbAccepted} accepted transactions`;
+        }
+        if (hit.rejected) {
+            return `${hit.block.decoded.nbRejected} rejected transactions`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Helper: get the height of a block, given by its number of links.
+     * @param block
+     */
+    private static blockHeight(block: SkipBlock): number {
+        return block.height * (Chain.svgHeight / Chain.maxHeightBlock);
+    }
+
+    /**
+     * Helper: get the horizontal position of the circle counting the accepted
+     * or the rejected transactions of a block.
+     * @param drawn
+     * @param accepted
+     */
+    private static circleX(drawn: DrawnBlock, accepted: boolean): number {
+        return accepted ? drawn.x + 15 : drawn.x + Chain.blockWidth - 15;
+    }
+
+    /**
+     * Helper: get a colour defined in the style sheet, e.g. the colour of the
+     * selected elements.
+     * @param name the name of the css variable
+     */
+    private static cssColor(name: string): string {
+        return getComputedStyle(document.documentElement)
+            .getPropertyValue(name)
+            .trim();
+    }
+}
@@ -1,12 +1,19 @@
-import { DataBody } from "@dedis/cothority/byzcoin/proto";
-import { Roster } from "@dedis/cothority/network";
 import { SkipBlock } from "@dedis/cothority/skipchain";
 import * as d3 from "d3";
-import { Subject } from "rxjs";
+import { fromEvent, Subject, Subscription } from "rxjs";
 import { debounceTime } from "rxjs/operators";
+import { BlockColoring } from "./blockColoring";
+import { BlockRepository } from "./blockRepository";
+import { CanvasRenderer } from "./canvasRenderer";
+import { ChainLayout } from "./chainLayout";
+import { ChainRenderer } from "./chainRenderer";
 import { Chunk } from "./chunk";
 import { Flash } from "./flash";
+import { IndexLayout } from "./indexLayout";
 import { LastAddedBlock } from "./lastAddedBlock";
+import { Minimap } from "./minimap";
+import { SvgRenderer } from "./svgRenderer";
+import { TimeLayout } from "./timeLayout";
 import { Utils } from "./utils";
 
 /**
@@ -34,52 +41,79 @@ export class Chain {
     static readonly blockHeight = 50;
     static readonly blockWidth = 70;
     static readonly svgHeight = 200;
-    static readonly svgWidth = window.innerWidth;
+    // Width of the view, updated when the window is resized
+    static svgWidth = window.innerWidth;
 
     static unitBlockAndPaddingWidth = Chain.blockPadding + Chain.blockWidth;
     static readonly axisPadding = 8;
+    // Minimum width of an idle period to write its duration, in pixels
+    static readonly idleLabelWidth = 60;
+    // Vertical position of the blocks, below the axis
+    static readonly blockTop = 20;
+    // Vertical position of the circles on the blocks
+    static readonly circleTop = 32;
+
+    // Maximum known possible height of block
+    // We fix it to 8 so that all arrows can fit in the canevas
+    static readonly maxHeightBlock = 8;
 
     // The number of blocks the window can display at normal scale. Used to
-    // define the domain for the xScale
+    // define the domain for the xScale, updated with the width of the view
     static numBlocks = Chain.svgWidth / (Chain.blockWidth + Chain.blockPadding);
 
+    // Scale factor of a step of the zoom buttons and keys
+    static readonly zoomFactor = 1.2;
+
     // Recommended pageSize / nbPages: 80 / 50
     static pageSize = 50;
     static readonly nbPages = 1;
 
+    // Number of loaded blocks above which the blocks far from the view are
+    // unloaded
+    static readonly maxLoadedBlocks = 5000;
+    // Number of blocks kept on each side of the view when unloading, at
+    // least the width of the view
+    static readonly keptMargin = 1000;
+
     // The coordinate transformation of the chain.
     static zoom: any;
 
+    // Places the blocks along the chain, by index or by time
+    static layout: ChainLayout;
+
     // The number of total loaded blocks on the chains
     // Initialized to 0
     static totalLoaded = 0;
 
+    // Polling of the new blocks, defined when following the head of the chain
+    static headSubscription: Subscription;
+
+    // Resizing of the view with the window, replaced by each new chain
+    static resizeSubscription: Subscription;
+
     /**
-     * Determine the color of the blocks.
-     * The darker the block the more transactions it contains.
+     * Determine the vertical position of the arrows of a level of links.
+     * Arrows are appended to each level of height.
      */
-    static getBlockColor(block: SkipBlock): string {
-        const body = DataBody.decode(block.payload);
-        const nbTransactions = body.txResults.length;
-        const factor = 1 - nbTransactions * 0.004;
-        return `rgb(${Chain.blockColor.r * factor}, ${
-            Chain.blockColor.v * factor
-        }, ${Chain.blockColor.b * factor})`;
+    static getLinkY(level: number): number {
+        return (
+            Chain.axisPadding +
+            Chain.svgHeight / Chain.maxHeightBlock +
+            level * (Chain.svgHeight / Chain.maxHeightBlock)
+        );
     }
 
-    // The group that contains the blocks on the chain.
-    readonly gblocks: any;
-    // The group that contains the arrows between blocks.
-    readonly garrow: any;
-    // The groups that contains the circles on the blocks of the chain
-    readonly gcircle: any;
-    readonly blockies: any;
+    // Draws the blocks, the arrows and the circles of the chain.
+    readonly renderer: ChainRenderer;
+
+    // Colours of the blocks, according to the mode chosen by the user
+    readonly coloring = new BlockColoring();
 
     // The array that contains all autonomous parts on the chain.
     readonly chunks = new Array<Chunk>();
 
-    // The roster defines the blockchain nodes
-    roster: Roster;
+    // The repository gets the blocks from the blockchain nodes
+    repository: BlockRepository;
 
     // This subject is notified each time a block is clicked.
     blockClickedSubject = new Subject<SkipBlock>();
@@ -88,6 +122,10 @@ export class Chain {
     // view.
     newBlocksSubject = new Subject<SkipBlock[]>();
 
+    // This subject is notified with the first and last indexes of the blocks
+    // removed from the view.
+    unloadedBlocksSubject = new Subject<[number, number]>();
+
     // Flash is a utility class to display flash messages in the view.
     flash: Flash;
 
@@ -96,14 +134,45 @@ export class Chain {
 
     lastAddedBlock: LastAddedBlock;
 
+    // Strip below the chain that covers it from the genesis to the last block
+    minimap: Minimap;
+
     // Coordinates and scale factor of the view of the chain
     lastTransform = { x: 0, y: 0, k: 1 };
 
     private transformSubject: Subject<unknown>;
 
-    constructor(roster: Roster, flash: Flash, initialBlock: SkipBlock) {
+    // The axis above the chain, its scale before the transformation and its
+    // group in the svg
+    private xAxis: any;
+    private xScale: any;
+    private readonly xAxisDraw: any;
+
+    // Idle periods marked between the loaded blocks, duration in
+    // milliseconds by index of the block ending them
+    private readonly idleGaps = new Map<number, number>();
+    private readonly gidle: any;
+
+    /**
+     * Creates an instance of Chain.
+     * @param {BlockRepository} repository
+     * @param {Flash} flash
+     * @param {SkipBlock} initialBlock : the first block displayed by the chain
+     * @param {boolean} useSvg : true to draw the chain with svg elements
+     * instead of a canvas
+     * @param {boolean} useTime : true to place the blocks by the time they
+     * were created instead of by index
+     * @memberof Chain
+     */
+    constructor(
+        repository: BlockRepository,
+        flash: Flash,
+        initialBlock: SkipBlock,
+        useSvg = false,
+        useTime = false
+    ) {
         // Blockchain properties
-        this.roster = roster;
+        this.repository = repository;
         this.flash = flash;
 
         // First block displayed on the chain
@@ -120,40 +189,81 @@ export class Chain {
         // Main SVG canvas that contains the chain
         const svg = d3.select("#svg-container").attr("height", Chain.svgHeight);
 
-        // This group will contain the blocks
-        this.gblocks = svg.append("g").attr("class", "gblocks");
+        // The view takes the width of its container, as when it is resized
+        const width = parseInt(svg.style("width"), 10);
+        if (!isNaN(width)) {
+            Chain.svgWidth = width;
+            Chain.numBlocks = width / Chain.unitBlockAndPaddingWidth;
+        }
 
-        // This group will contain the arrows between blocks
-        this.garrow = svg.append("g").attr("class", "garrow");
+        Chain.layout = useTime ? new TimeLayout() : new IndexLayout();
+
+        // The blocks, arrows and circles
+        this.renderer = useSvg
+            ? new SvgRenderer(
+                  svg,
+                  flash,
+                  this.blockClickedSubject,
+                  this.coloring
+              )
+            : new CanvasRenderer(
+                  svg,
+                  flash,
+                  this.blockClickedSubject,
+                  this.coloring
+              );
+
+        this.initHeightFilter();
+
+        // The scale of the colours follows the loaded blocks
+        this.newBlocksSubject.subscribe({
+            next: (blocks) => {
+                this.coloring.add(
+                    blocks.map((block) => repository.decoder.get(block))
+                );
+                this.markIdleGaps(blocks);
+                this.updateDebugInfo();
+            },
+        });
+        this.unloadedBlocksSubject.subscribe({
+            next: ([from, to]) => {
+                this.coloring.remove(from, to);
+                repository.decoder.forget(from, to);
+                this.unmarkIdleGaps(from, to);
+                this.updateDebugInfo();
+            },
+        });
+
+        // This group contains the marks of the idle periods, above the blocks
+        this.gidle = svg.append("g").attr("class", "idle-gaps");
+
+        // Clicking on an arrow moves to the block it points to, double
+        // clicking moves back to the block it starts from
+        this.renderer.linkClickedSubject.subscribe({
+            next: ([, toIndex]) => {
+                this.selectBlockByIndex(toIndex);
+            },
+        });
+        this.renderer.linkDoubleClickedSubject.subscribe({
+            next: ([from]) => {
+                Utils.translateOnChain(from.index, initialBlock.index);
+                this.blockClickedSubject.next(from);
+            },
+        });
 
         d3.select("body")
             .append("div")
             .attr("class", "tooltip")
             .style("opacity", 0);
 
-        // This group will contain the circles. We need two separate groups because the
-        // transform on the text group should not change the scale to keep the text
-        // readable
-        this.gcircle = svg.append("g").attr("class", "gcircle");
-        this.blockies = svg.append("g").attr("class", "blockies");
-
-        // The xScale displays the block index and allows the user to quickly see
-        // where he is in the chain
-        const xScale = d3
-            .scaleLinear()
-            .domain([initialBlock.index, initialBlock.index + Chain.numBlocks])
-            .range([0, Chain.svgWidth]);
-
-        const xAxis = d3
-            .axisBottom(xScale)
-            .ticks(Chain.numBlocks)
-            .tickFormat(d3.format("d"));
-
-        const xAxisDraw = svg
+        // The axis displays the block index, or the date of the blocks, and
+        // allows the user to quickly see where he is in the chain
+        this.resetAxis();
+        this.xAxisDraw = svg
             .insert("g", ":first-child")
             .attr("class", "x-axis")
             .attr("fill", "#8C764A")
-            .call(xAxis);
+            .call(this.xAxis);
 
         // Update the subject when the view is dragged and zoomed in-out
         const zoom = d3
@@ -171,47 +281,18 @@ export class Chain {
         svg.call(zoom).on("dblclick.zoom", null);
         Chain.zoom = zoom;
 
-        //Implementation of a scrollbar underneath the chain
-
-        const scrollbar = svg.append("g").attr("transform", "translate(0,90)"); //move the bar to the bottom of the chain
-
-        scrollbar
-            .append("rect")
-            .attr("class", "mover")
-            .attr("x", Chain.svgWidth / 2)
-            .attr("y", Chain.svgHeight / 2)
-            .attr("rx", "3px")
-            .attr("width", Math.round(Chain.svgWidth / Chain.numBlocks)); //TODO fix size of mover according to total number of blocks on the chain.numblock is the numbber of blocks loaded
-
-        const self = this;
-        let last = Chain.svgWidth / 2;
-
-        var dragHandler = d3.drag().on("drag", function () {
-            d3.select(this).attr("x", d3.event.x);
-
-            if (self.lastTransform.k == 1) {
-                var newTransform = d3.zoomIdentity
-                    .translate(self.lastTransform.x + (last - d3.event.x), 0)
-                    .scale(1);
-            } else {
-                newTransform = d3.zoomIdentity
-                    .translate(
-                        self.lastTransform.x / self.lastTransform.k +
-                            (last - d3.event.x),
-                        0
-                    )
-                    .scale(1);
-            }
-
-            last = d3.event.x;
-
-            d3.select("#svg-container").call(
-                Chain.zoom.transform,
-                newTransform
-            );
-        });
-
-        dragHandler(d3.selectAll(".mover"));
+        // The width of the view follows the window, e.g. when a tablet is
+        // rotated
+        if (Chain.resizeSubscription !== undefined) {
+            Chain.resizeSubscription.unsubscribe();
+        }
+        Chain.resizeSubscription = fromEvent(window, "resize")
+            .pipe(debounceTime(100))
+            .subscribe({
+                next: () => {
+                    this.resize();
+                },
+            });
 
         //Drop down-menu for clickable zoom in & out
         const divZoomDropdown = d3
@@ -254,16 +335,12 @@ export class Chain {
             document.getElementById("dropdown-zoom").classList.toggle("show");
         });
 
-        const zoomFromButtons = d3.zoom().on("zoom", () => {
-            subject.next(d3.event.transform);
-        });
-
         //Zoom transformation when clicking on zoom buttons
-        d3.select("#zoom-in").on("click", function () {
-            zoomFromButtons.scaleBy(d3.select("#svg-container"), 1.2);
+        d3.select("#zoom-in").on("click", () => {
+            this.zoomBy(Chain.zoomFactor);
         });
-        d3.select("#zoom-out").on("click", function () {
-            zoomFromButtons.scaleBy(d3.select("#svg-container"), 0.8);
+        d3.select("#zoom-out").on("click", () => {
+            this.zoomBy(1 / Chain.zoomFactor);
         });
 
         // This group will contain the left and right loaders that display a
@@ -275,40 +352,6 @@ export class Chain {
         // zoomed in-out by the user.
         subject.subscribe({
             next: (transform: any) => {
-                var last = parseInt(d3.select(".mover").attr("x"));
-
-                //TODO find the perfect threshhold
-                //TODO modify width of mover according to transform.k 1370 before
-                var svgWidth = parseInt(
-                    d3.select("#svg-container").style("width")
-                );
-                var moverWidth = parseInt(d3.select(".mover").style("width"));
-
-                if (last > svgWidth - moverWidth) {
-                    d3.select(".mover").attr("x", svgWidth - moverWidth);
-                } else if (last < moverWidth / 3) {
-                    d3.select(".mover").attr("x", moverWidth / 3);
-                } else {
-                    var newX = last + this.lastTransform.x - transform.x;
-                    if (newX > svgWidth - moverWidth) {
-                        d3.select(".mover").attr("x", svgWidth - moverWidth);
-                    } else if (newX < moverWidth / 3) {
-                        d3.select(".mover").attr("x", moverWidth / 3);
-                    } else {
-                        d3.select(".mover").attr(
-                            "x",
-                            last + this.lastTransform.x - transform.x
-                        );
-                    }
-                }
-
-                var newWidth =
-                    parseInt(d3.select(".mover").style("width")) * transform.k;
-
-                if (newWidth >= 50 && newWidth <= svgWidth / 2) {
-                    //d3.select(".mover").attr("width",newWidth);
-                }
-
                 this.lastTransform = transform;
 
                 // This line disables translate to the left. (for reference)
@@ -318,9 +361,9 @@ export class Chain {
                 transform.y = 0;
 
                 // Update the scale
-                const xScaleNew = transform.rescaleX(xScale);
-                xAxis.scale(xScaleNew);
-                xAxisDraw.call(xAxis);
+                this.xAxis.scale(transform.rescaleX(this.xScale));
+                this.xAxisDraw.call(this.xAxis);
+                this.drawIdleGaps();
 
                 gloader.attr("transform", transform);
                 // resize the loaders to always have a relative scale of 1
@@ -328,44 +371,8 @@ export class Chain {
                     .selectAll("svg")
                     .attr("transform", `scale(${1 / transform.k})`);
 
-                // Horizontal transformation on the blocks only (sets Y scale to 1)
-                const transformString =
-                    "translate(" +
-                    transform.x +
-                    "," +
-                    "0) scale(" +
-                    transform.k +
-                    "," +
-                    "1" +
-                    ")";
-
-                var transformCircle =
-                    "translate(" +
-                    transform.x +
-                    "," +
-                    "32) scale(" +
-                    transform.k +
-                    "," +
-                    transform.k +
-                    ")";
-
-                if (transform.k <= 0.99) {
-                    transformCircle =
-                        "translate(" +
-                        transform.x +
-                        "," +
-                        "0) scale(" +
-                        "0" +
-                        "," +
-                        "0" +
-                        ")";
-                }
-
                 // The blocks, arrows, circles follow the transformations of the chain.
-                this.gblocks.attr("transform", transformString);
-                this.garrow.attr("transform", transformString);
-                this.gcircle.attr("transform", transformCircle);
-                this.blockies.attr("transform", transformCircle);
+                this.renderer.setTransform(transform);
             },
         });
     }
@@ -375,14 +382,50 @@ export class Chain {
         // It is initialized here as it takes longer to load.
         // We need to use it when creating new chunks
 
-        this.lastAddedBlock = new LastAddedBlock(this.flash);
+        this.lastAddedBlock = new LastAddedBlock(this.flash, this.coloring);
 
         await this.lastAddedBlock.init(
-            this.roster,
+            this.repository,
             this.initialBlock,
             this.blockClickedSubject
         );
 
+        // The layout needs the extent of the chain, the view keeps the same
+        // block in its centre
+        if (this.lastAddedBlock.lastBlock !== undefined) {
+            this.keepCentre(() => {
+                Chain.layout.init(
+                    this.repository.decoder.get(this.initialBlock),
+                    this.repository.decoder.get(this.lastAddedBlock.lastBlock)
+                );
+            });
+        }
+
+        // Extend the chain when new blocks are added
+        this.lastAddedBlock.headSubject.subscribe({
+            next: (head) => {
+                this.onNewHead(head);
+            },
+        });
+
+        this.minimap = new Minimap(
+            this.repository,
+            this.flash,
+            this.initialBlock,
+            this.lastAddedBlock,
+            this.newBlocksSubject,
+            this.transformSubject,
+            this.lastTransform
+        );
+
+        const followHead = document.getElementById(
+            "follow-head"
+        ) as HTMLInputElement;
+        d3.select(followHead).on("change", () => {
+            this.followHead(followHead.checked);
+        });
+        this.followHead(followHead.checked);
+
         // Subject that is notified about the transformation on the chain
         this.transformSubject.pipe(debounceTime(50)).subscribe({
             next: (transform: any) => {
@@ -391,12 +434,27 @@ export class Chain {
         });
     }
 
+    /**
+     * Start or stop the polling of the new blocks of the chain.
+     * @param enabled true to follow the head of the chain
+     */
+    followHead(enabled: boolean) {
+        if (Chain.headSubscription !== undefined) {
+            Chain.headSubscription.unsubscribe();
+            Chain.headSubscription = undefined;
+        }
+
+        if (enabled && this.lastAddedBlock.lastBlock !== undefined) {
+            Chain.headSubscription = this.lastAddedBlock.follow(
+                this.repository
+            );
+        }
+    }
+
     transformHandler(transform: any) {
-        const bounds = Utils.transformToIndexes(
-            transform,
-            Chain.blockWidth + Chain.blockPadding,
-            Chain.svgWidth
-        );
+        const bounds = Utils.transformToChainIndexes(transform, Chain.svgWidth);
+        this.mergeChunks();
+        this.unloadFarBlocks(bounds);
 
         let alreadyHandled = false;
 
@@ -471,7 +529,7 @@ export class Chain {
             }
 
             const c = new Chunk(
-                this.roster,
+                this.repository,
                 this.flash,
                 leftNei,
                 rightNei,
@@ -480,7 +538,8 @@ export class Chain {
                 this.lastAddedBlock,
                 this.transformSubject,
                 this.getNewBlocksSubject,
-                this.blockClickedSubject
+                this.unloadedBlocksSubject,
+                this.renderer
             );
 
             if (leftNei !== undefined) {
@@ -494,5 +553,295 @@ export class Chain {
             // Keep the chunks sorted.
             this.chunks.splice(leftNeiIndex + 1, 0, c);
         }
+
+        this.updateDebugInfo();
+    }
+
+    /**
+     * Merge the neighbouring chunks whose blocks follow each other, so that
+     * a single chunk follows the view for them.
+     */
+    mergeChunks() {
+        let i = 0;
+        while (i + 1 < this.chunks.length) {
+            const left = this.chunks[i];
+            const right = this.chunks[i + 1];
+            if (
+                !left.isLoading &&
+                !right.isLoading &&
+                left.rightBlock.index + 1 >= right.leftBlock.index
+            ) {
+                left.merge(right);
+                this.chunks.splice(i + 1, 1);
+            } else {
+                i++;
+            }
+        }
+    }
+
+    /**
+     * Unload the blocks far from the view when too many blocks are loaded:
+     * the chunks out of the kept range are removed and the others are
+     * trimmed to it.
+     * @param bounds the indexes of the visible blocks
+     */
+    unloadFarBlocks(bounds: { left: number; right: number }) {
+        if (Chain.totalLoaded <= Chain.maxLoadedBlocks) {
+            return;
+        }
+
+        const margin = Math.max(bounds.right - bounds.left, Chain.keptMargin);
+        const left = bounds.left - margin;
+        const right = bounds.right + margin;
+        for (const chunk of this.chunks.slice()) {
+            if (chunk.isLoading) {
+                continue;
+            }
+
+            if (
+                chunk.rightBlock.index < left ||
+                chunk.leftBlock.index > right
+            ) {
+                chunk.unload();
+                this.chunks.splice(this.chunks.indexOf(chunk), 1);
+            } else {
+                chunk.trim(left, right);
+            }
+        }
+    }
+
+    /**
+     * Helper: append the new blocks to the chunks and, with the auto-scroll,
+     * move the view to the new last block.
+     * @param head the new last block of the chain
+     */
+    private onNewHead(head: SkipBlock) {
+        for (const chunk of this.chunks) {
+            chunk.onNewHead(head);
+        }
+
+        const autoScroll = document.getElementById(
+            "auto-scroll"
+        ) as HTMLInputElement;
+        if (!autoScroll.checked) {
+            return;
+        }
+
+        // Place the last block on the right edge of the view
+        const k = this.lastTransform.k;
+        const width = parseInt(d3.select("#svg-container").style("width"), 10);
+        const x =
+            width -
+            (Chain.layout.indexToX(head.index) +
+                Chain.unitBlockAndPaddingWidth) *
+                k;
+        d3.select("#svg-container")
+            .transition()
+            .duration(1000)
+            .call(
+                Chain.zoom.transform,
+                d3.zoomIdentity.translate(x, 0).scale(k)
+            );
+    }
+
+    /**
+     * Update the dimensions of the view to the width of its container, the
+     * view keeps the same block in its centre.
+     */
+    resize() {
+        const width = parseInt(d3.select("#svg-container").style("width"), 10);
+        if (isNaN(width) || width === Chain.svgWidth) {
+            return;
+        }
+
+        this.keepCentre(() => {
+            Chain.svgWidth = width;
+            Chain.numBlocks = width / Chain.unitBlockAndPaddingWidth;
+            Chain.zoom.extent([
+                [0, 0],
+                [width, Chain.svgHeight],
+            ]);
+        });
+    }
+
+    /**
+     * Move the view to a block and select it.
+     * @param index the index of the block
+     */
+    async selectBlockByIndex(index: number) {
+        Utils.translateOnChain(index, this.initialBlock.index);
+        try {
+            const block = await this.repository.getBlockByIndex(
+                this.initialBlock.hash,
+                index
+            );
+            this.blockClickedSubject.next(block);
+        } catch (e) {
+            this.flash.display(
+                Flash.flashType.ERROR,
+                `Unable to get block ${index}: ${e}`
+            );
+        }
+    }
+
+    /**
+     * Zoom the view in or out around its centre.
+     * @param factor more than 1 to zoom in, less than 1 to zoom out
+     */
+    zoomBy(factor: number) {
+        Chain.zoom.scaleBy(d3.select("#svg-container"), factor);
+    }
+
+    /**
+     * Helper: change the layout or the dimensions of the view, and move the
+     * view so that the block in its centre stays there.
+     * @param update applies the change
+     */
+    private keepCentre(update: () => void) {
+        const { x, k } = this.lastTransform;
+        const centre = Chain.layout.xToIndex((Chain.svgWidth / 2 - x) / k);
+        update();
+        this.resetAxis();
+        d3.select("#svg-container").call(
+            Chain.zoom.transform,
+            d3.zoomIdentity
+                .translate(
+                    Chain.svgWidth / 2 - Chain.layout.indexToX(centre) * k,
+                    0
+                )
+                .scale(k)
+        );
+    }
+
+    /**
+     * Helper: fill the height filter of the toolbar, which shows the express
+     * lanes of the skipchain by greying out or hiding the lower blocks. The
+     * choice is kept when the chain is created again.
+     */
+    private initHeightFilter() {
+        const heightFilter = d3.select("#height-filter");
+        if (heightFilter.selectAll("option").empty()) {
+            for (let height = 1; height <= Chain.maxHeightBlock; height++) {
+                heightFilter
+                    .append("option")
+                    .attr("value", height)
+                    .text(height === 1 ? "all heights" : `height ≥ ${height}`);
+            }
+        }
+        const hideFiltered = d3.select("#hide-filtered");
+
+        const apply = () => {
+            this.renderer.setHeightFilter(
+                parseInt(heightFilter.property("value"), 10),
+                hideFiltered.property("checked")
+            );
+        };
+        heightFilter.on("change", apply);
+        hideFiltered.on("change", apply);
+        apply();
+    }
+
+    /**
+     * Helper: create the axis from the layout of the chain.
+     */
+    private resetAxis() {
+        this.xAxis = Chain.layout.createAxis(Chain.svgWidth);
+        this.xScale = this.xAxis.scale();
+        if (this.xAxisDraw !== undefined) {
+            this.xAxis.scale(
+                d3.zoomIdentity
+                    .translate(this.lastTransform.x, 0)
+                    .scale(this.lastTransform.k)
+                    .rescaleX(this.xScale)
+            );
+            this.xAxisDraw.call(this.xAxis);
+        }
+    }
+
+    /**
+     * Helper: find the idle periods before and after new blocks.
+     * @param blocks the new blocks
+     */
+    private markIdleGaps(blocks: SkipBlock[]) {
+        let changed = false;
+        for (const block of blocks) {
+            for (const index of [block.index, block.index + 1]) {
+                const idle = Chain.layout.idleBefore(index);
+                if (idle > 0 && !this.idleGaps.has(index)) {
+                    this.idleGaps.set(index, idle);
+                    changed = true;
+                }
+            }
+        }
+
+        if (changed) {
+            this.drawIdleGaps();
+        }
+    }
+
+    /**
+     * Helper: forget the idle periods ending at unloaded blocks.
+     * @param from index of the first unloaded block
+     * @param to index of the last unloaded block
+     */
+    private unmarkIdleGaps(from: number, to: number) {
+        let changed = false;
+        for (const index of Array.from(this.idleGaps.keys())) {
+            if (index >= from && index <= to) {
+                this.idleGaps.delete(index);
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this.drawIdleGaps();
+        }
+    }
+
+    /**
+     * Helper: draw the marks of the idle periods in the current view, with
+     * their duration when there is enough space.
+     */
+    private drawIdleGaps() {
+        const { x, k } = this.lastTransform;
+        this.gidle
+            .selectAll("g")
+            .data(Array.from(this.idleGaps), ([index]: [number]) => index)
+            .join((enter: any) => {
+                const gap = enter.append("g");
+                gap.append("rect")
+                    .attr("y", Chain.blockTop)
+                    .attr("height", Chain.svgHeight - Chain.blockTop);
+                gap.append("text").attr("y", Chain.blockTop + 12);
+                return gap;
+            })
+            .each(function ([index, duration]: [number, number]) {
+                const x1 =
+                    x +
+                    (Chain.layout.indexToX(index - 1) + Chain.blockWidth) * k;
+                const x2 = x + Chain.layout.indexToX(index) * k;
+                const gap = d3.select(this);
+                gap.select("rect")
+                    .attr("x", x1)
+                    .attr("width", Math.max(0, x2 - x1));
+                gap.select("text")
+                    .attr("x", (x1 + x2) / 2)
+                    .text(
+                        x2 - x1 > Chain.idleLabelWidth
+                            ? `idle ${BlockColoring.formatDuration(duration)}`
+                            : ""
+                    );
+            });
+    }
+
+    /**
+     * Helper: show the number of chunks and of nodes of the page, to follow
+     * the memory used by the view.
+     */
+    private updateDebugInfo() {
+        d3.select("#live-chunks").text(this.chunks.length);
+        d3.select("#live-nodes").text(
+            document.getElementsByTagName("*").length
+        );
     }
 }
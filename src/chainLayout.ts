@@ -0,0 +1,54 @@
+import { DecodedBlock } from "./blockDecoder";
+
+/**
+ * Places the blocks along the horizontal axis of the chain, in the
+ * coordinates of the chain before the zoom and the drag of the view are
+ * applied. The positions of the blocks that are not loaded yet are
+ * estimated, so that the view can be moved to them and they can be loaded.
+ *
+ * @export
+ * @interface ChainLayout
+ */
+export interface ChainLayout {
+    /**
+     * Set the extent of the chain, once its last block is known.
+     * @param genesis the first block of the chain
+     * @param last the last block of the chain
+     */
+    init(genesis: DecodedBlock, last: DecodedBlock): void;
+
+    /**
+     * Record a loaded block, its position is then exact.
+     * @param block
+     */
+    addBlock(block: DecodedBlock): void;
+
+    /**
+     * Get the position of the left edge of a block.
+     * @param index the index of the block, loaded or not
+     */
+    indexToX(index: number): number;
+
+    /**
+     * Get the index of the block at a position, with the fraction of the
+     * way to the next block.
+     * @param x
+     */
+    xToIndex(x: number): number;
+
+    /**
+     * Get the idle time before a block, when it is long enough to be marked.
+     * @param index the index of the block
+     * @returns the time since the previous block in milliseconds, 0 if the
+     * gap is not marked or not known
+     */
+    idleBefore(index: number): number;
+
+    /**
+     * Create the axis above the chain.
+     * @param width the width of the view
+     * @returns the d3 axis, its scale gives the values of the positions
+     * between 0 and width
+     */
+    createAxis(width: number): any;
+}
@@ -0,0 +1,86 @@
+import { SkipBlock } from "@dedis/cothority/skipchain";
+import { Subject } from "rxjs";
+
+import { DecodedBlock } from "./blockDecoder";
+
+/**
+ * Draws the blocks of the chain, the arrows of their links and the circles
+ * counting their transactions. The positions are given in the coordinates of
+ * the chain, before the zoom and the drag of the view are applied.
+ *
+ * The blocks notify the blockClickedSubject of the chain when they are
+ * clicked on.
+ *
+ * @export
+ * @interface ChainRenderer
+ */
+export interface ChainRenderer {
+    // Notified with the block an arrow starts from and the index of the
+    // block it points to, when the arrow is clicked on
+    readonly linkClickedSubject: Subject<[SkipBlock, number]>;
+    // Notified in the same way when the arrow is double clicked on
+    readonly linkDoubleClickedSubject: Subject<[SkipBlock, number]>;
+
+    /**
+     * Draw a block.
+     * @param x the horizontal position of the block
+     * @param block the block to draw
+     * @param decoded the summary of the block
+     */
+    addBlock(x: number, block: SkipBlock, decoded: DecodedBlock): void;
+
+    /**
+     * Draw the arrow of a link between two blocks.
+     * @param x the horizontal position of the block the arrow starts from
+     * @param toIndex the index of the block the arrow points to
+     * @param from the block the arrow starts from
+     * @param level the level of the link, 0 for consecutive blocks
+     */
+    addArrow(x: number, toIndex: number, from: SkipBlock, level: number): void;
+
+    /**
+     * Remove a range of blocks and the arrows starting from them.
+     * @param from the index of the first block to remove
+     * @param to the index of the last block to remove
+     */
+    removeBlocks(from: number, to: number): void;
+
+    /**
+     * Follow the zoom and the drag of the view.
+     * @param transform the d3 transformation of the view
+     */
+    setTransform(transform: { x: number; y: number; k: number }): void;
+
+    /**
+     * Change the colour of a block, e.g. when it is selected.
+     * @param block
+     * @param color a css colour, undefined to give it back the colour of the
+     * colouring mode
+     */
+    setBlockColor(block: SkipBlock, color: string): void;
+
+    /**
+     * Outline a block, e.g. when an instruction of a query is in it.
+     * @param block
+     * @param color a css colour
+     * @param width the width of the outline, 0 to remove it
+     */
+    setBlockOutline(block: SkipBlock, color: string, width: number): void;
+
+    /**
+     * Grey out or hide the blocks lower than a height, and only draw the
+     * arrows of the levels of the higher blocks. The blocks are still loaded.
+     * @param minHeight the lowest height of the blocks drawn normally, 1 to
+     * draw all the blocks
+     * @param hide true to hide the lower blocks instead of greying them out
+     */
+    setHeightFilter(minHeight: number, hide: boolean): void;
+
+    /**
+     * Highlight the arrows of links, e.g. the hops of a path between two
+     * blocks. The arrows added later are highlighted too.
+     * @param links the index of the block each arrow starts from and the index
+     * of the block it points to, an empty list removes the highlight
+     */
+    highlightLinks(links: [number, number][]): void;
+}
@@ -1,20 +1,10 @@
-import { ByzCoinRPC } from "@dedis/cothority/byzcoin";
-import * as blockies from "blockies-ts";
-
-import {
-    PaginateRequest,
-    PaginateResponse,
-} from "@dedis/cothority/byzcoin/proto/stream";
-import {
-    Roster,
-    WebSocketAdapter,
-    WebSocketConnection,
-} from "@dedis/cothority/network";
 import { SkipBlock } from "@dedis/cothority/skipchain";
 import * as d3 from "d3";
-import { Subject } from "rxjs";
+import { Subject, Subscription } from "rxjs";
 import { debounceTime } from "rxjs/operators";
+import { BlockRepository, PaginateError } from "./blockRepository";
 import { Chain } from "./chain";
+import { ChainRenderer } from "./chainRenderer";
 import { Flash } from "./flash";
 import { LastAddedBlock } from "./lastAddedBlock";
 import { Utils } from "./utils";
@@ -28,18 +18,10 @@ import { Utils } from "./utils";
  * @author Sophia Artioli (sophia.artioli@epfl.ch)
  */
 export class Chunk {
-    // Maximum known possible height of block
-    // We fix it to 8 so that all arrows can fit in the canevas
-    readonly maxHeightBlock = 8;
-
     // Blockchain properties
-    roster: Roster;
+    repository: BlockRepository;
     flash: Flash;
 
-    // The websocket used to talk to the blockchain. We keep it to re-use it
-    // between the different calls instead of creating a new connection each time.
-    ws: WebSocketAdapter;
-
     // Left adjacent neighbour of the Chunk
     leftNeighbor: Chunk;
     // Right adjacent neighbour of the Chunk
@@ -55,10 +37,8 @@ export class Chunk {
     // Right-most block of the Chunk
     rightBlock: SkipBlock;
 
-    // svg container for the blocks
-    readonly gblocks: any;
-    // svg container for the arrows between blocks
-    readonly garrow: any;
+    // Draws the blocks and the arrows between blocks
+    readonly renderer: ChainRenderer;
     // container that for the left and right loaders
     readonly gloader: any;
 
@@ -79,9 +59,9 @@ export class Chunk {
     subjectBrowse = new Subject<[number, SkipBlock[], boolean]>();
     // This subject is called when new blocks are added to the view
     newBlocksSubject: Subject<SkipBlock[]>;
-    // This subject is called when a block is clicked on.
-    blockClickedSubject: Subject<SkipBlock>;
-
+    // This subject is called with the first and last indexes of the blocks
+    // removed from the view
+    unloadedBlocksSubject: Subject<[number, number]>;
     // This subject is called when the user zoom/drag the chain
     chainSubject: Subject<any>;
 
@@ -91,10 +71,17 @@ export class Chunk {
     // The container for the total loaded number.
     readonly loadedInfo = document.getElementById("loaded-blocks");
 
+    // Arrows pointing to blocks not yet added to the chain, drawn once the
+    // blocks exist: [horizontal position, index pointed to, block, level]
+    pendingArrows: [number, number, SkipBlock, number][] = [];
+
     initialBlock: SkipBlock;
 
+    // Subscriptions to the subjects, cancelled when the chunk stops
+    private readonly subscriptions: Subscription[] = [];
+
     constructor(
-        roster: Roster,
+        repository: BlockRepository,
         flash: Flash,
         leftNei: Chunk,
         rightNei: Chunk,
@@ -103,14 +90,16 @@ export class Chunk {
         lastAddedBlock: LastAddedBlock,
         chainSubject: Subject<any>,
         newBlocksSubject: Subject<SkipBlock[]>,
-        blockClickedSubject: Subject<SkipBlock>
+        unloadedBlocksSubject: Subject<[number, number]>,
+        renderer: ChainRenderer
     ) {
-        this.roster = roster;
+        this.repository = repository;
         this.flash = flash;
 
         this.chainSubject = chainSubject;
         this.newBlocksSubject = newBlocksSubject;
-        this.blockClickedSubject = blockClickedSubject;
+        this.unloadedBlocksSubject = unloadedBlocksSubject;
+        this.renderer = renderer;
 
         this.leftNeighbor = leftNei;
         this.rightNeighbor = rightNei;
@@ -123,13 +112,11 @@ export class Chunk {
         // The svg container for the chain
         const svg = d3.select("#svg-container");
 
-        this.garrow = svg.selectAll(".garrow");
-        this.gblocks = svg.selectAll(".gblocks");
         this.gloader = svg.select("#loader");
 
         this.setSubjectBrowse();
 
-        this.chainSubject.subscribe({
+        const transformSubscription = this.chainSubject.subscribe({
             next: (transform: any) => {
                 this.lastTransform = transform;
                 this.gloader.attr("transform", transform);
@@ -142,43 +129,168 @@ export class Chunk {
 
         // Handler to check if new blocks need to be loaded. We check once we
         // don't receive new event for 50ms.
-        this.chainSubject.pipe(debounceTime(50)).subscribe({
-            next: (transform: any) => {
-                if (!this.loadedFirst) {
-                    return;
-                }
+        const loadSubscription = this.chainSubject
+            .pipe(debounceTime(50))
+            .subscribe({
+                next: (transform: any) => {
+                    if (!this.loadedFirst) {
+                        return;
+                    }
 
-                if (!this.isLoadingLeft) {
-                    this.isLoadingLeft = true;
+                    if (!this.isLoadingLeft) {
+                        this.isLoadingLeft = true;
 
-                    const isLoading = this.checkAndLoadLeft(
-                        transform,
-                        this.leftBlock,
-                        this.gloader
-                    );
-                    if (!isLoading) {
-                        this.isLoadingLeft = false;
+                        const isLoading = this.checkAndLoadLeft(
+                            transform,
+                            this.leftBlock,
+                            this.gloader
+                        );
+                        if (!isLoading) {
+                            this.isLoadingLeft = false;
+                        }
                     }
-                }
 
-                if (!this.isLoadingRight) {
-                    this.isLoadingRight = true;
-                    const isLoading = this.checkAndLoadRight(
-                        transform,
-                        this.rightBlock,
-                        this.gloader
-                    );
-                    if (!isLoading) {
-                        this.isLoadingRight = false;
+                    if (!this.isLoadingRight) {
+                        this.isLoadingRight = true;
+                        const isLoading = this.checkAndLoadRight(
+                            transform,
+                            this.rightBlock,
+                            this.gloader
+                        );
+                        if (!isLoading) {
+                            this.isLoadingRight = false;
+                        }
                     }
-                }
-            },
-        });
+                },
+            });
+
+        this.subscriptions.push(transformSubscription, loadSubscription);
 
         // Load first blocks of the Chunk
         this.loadInitial(this.left);
     }
 
+    /**
+     * Check if the chunk is waiting for blocks on one of its sides.
+     *
+     * @readonly
+     * @type {boolean}
+     * @memberof Chunk
+     */
+    get isLoading(): boolean {
+        return !this.loadedFirst || this.isLoadingLeft || this.isLoadingRight;
+    }
+
+    /**
+     * Stop the chunk and remove its blocks from the view, e.g. when it is
+     * far from the view. The blocks are loaded again by a new chunk when the
+     * view comes back to them.
+     *
+     * @memberof Chunk
+     */
+    unload() {
+        this.stop();
+        this.removeBlocks(this.leftBlock.index, this.rightBlock.index);
+
+        if (this.leftNeighbor !== undefined) {
+            this.leftNeighbor.rightNeighbor = this.rightNeighbor;
+        }
+        if (this.rightNeighbor !== undefined) {
+            this.rightNeighbor.leftNeighbor = this.leftNeighbor;
+        }
+    }
+
+    /**
+     * Remove the blocks of the chunk outside of a range of indexes. The chunk
+     * keeps at least one block, it loads the removed blocks again if the view
+     * comes back to them.
+     *
+     * @param {number} left : the index of the first block to keep
+     * @param {number} right : the index of the last block to keep
+     * @memberof Chunk
+     */
+    trim(left: number, right: number) {
+        if (this.isLoading) {
+            return;
+        }
+
+        const first = Math.min(Math.ceil(left), this.rightBlock.index);
+        if (first > this.leftBlock.index) {
+            this.isLoadingLeft = true;
+            this.repository
+                .getBlockByIndex(this.initialBlock.hash, first)
+                .then((block) => {
+                    this.removeBlocks(this.leftBlock.index, first - 1);
+                    this.leftBlock = block;
+                    this.left = first;
+                    this.isLoadingLeft = false;
+                })
+                .catch((e) => {
+                    this.isLoadingLeft = false;
+                    this.flash.display(
+                        Flash.flashType.ERROR,
+                        `Unable to unload blocks: ${e}`
+                    );
+                });
+        }
+
+        const last = Math.max(Math.floor(right), this.leftBlock.index);
+        if (last < this.rightBlock.index) {
+            this.isLoadingRight = true;
+            this.repository
+                .getBlockByIndex(this.initialBlock.hash, last)
+                .then((block) => {
+                    this.removeBlocks(last + 1, this.rightBlock.index);
+                    this.rightBlock = block;
+                    this.right = last;
+                    this.isLoadingRight = false;
+                })
+                .catch((e) => {
+                    this.isLoadingRight = false;
+                    this.flash.display(
+                        Flash.flashType.ERROR,
+                        `Unable to unload blocks: ${e}`
+                    );
+                });
+        }
+    }
+
+    /**
+     * Take over the chunk on the right, whose blocks follow the blocks of
+     * this chunk. The other chunk stops.
+     *
+     * @param {Chunk} chunk : the right neighbour
+     * @memberof Chunk
+     */
+    merge(chunk: Chunk) {
+        // The blocks loaded by both chunks are counted once
+        const overlap = this.rightBlock.index + 1 - chunk.leftBlock.index;
+        if (overlap > 0) {
+            Chain.totalLoaded -= overlap;
+        }
+
+        chunk.stop();
+        this.rightBlock = chunk.rightBlock;
+        this.right = chunk.right;
+        this.pendingArrows.push(...chunk.pendingArrows);
+
+        this.rightNeighbor = chunk.rightNeighbor;
+        if (this.rightNeighbor !== undefined) {
+            this.rightNeighbor.leftNeighbor = this;
+        }
+    }
+
+    /**
+     * Stop following the view and loading blocks. The blocks stay in the
+     * view.
+     *
+     * @memberof Chunk
+     */
+    stop() {
+        this.subscriptions.forEach((s) => s.unsubscribe());
+        this.subscriptions.length = 0;
+    }
+
     /**
      * Check if new blocks need to be loaded to the left and load them if
      * necessary.
@@ -194,11 +306,7 @@ export class Chunk {
         lastBlockLeft: SkipBlock,
         gloader: any
     ): boolean {
-        const bounds = Utils.transformToIndexes(
-            transform,
-            Chain.blockWidth + Chain.blockPadding,
-            Chain.svgWidth
-        );
+        const bounds = Utils.transformToChainIndexes(transform, Chain.svgWidth);
 
         // Check if we need to load blocks on the left. We check that we haven't
         // yet loaded all the possible blocks from the left and that the user
@@ -245,7 +353,7 @@ export class Chunk {
             true,
             gloader,
 
-            (this.leftBlock.index - 1) * Chain.unitBlockAndPaddingWidth +
+            Chain.layout.indexToX(this.leftBlock.index - 1) +
                 Chain.blockPadding +
                 Chain.blockWidth / 2,
             transform.k
@@ -277,11 +385,7 @@ export class Chunk {
         lastBlockRight: SkipBlock,
         gloader: any
     ): boolean {
-        const bounds = Utils.transformToIndexes(
-            transform,
-            Chain.blockWidth + Chain.blockPadding,
-            Chain.svgWidth
-        );
+        const bounds = Utils.transformToChainIndexes(transform, Chain.svgWidth);
 
         // Check if we need to load blocks on the right. (x + this.svgWidth)
         // represents the actual rightmost x coordinate on the svg canvas. +50
@@ -298,12 +402,16 @@ export class Chunk {
                 // The neighbor has not already loaded the blocks
                 return false;
             }
+            if (this.rightBlock.index >= this.lastAddedBlock.index) {
+                // The new blocks are loaded by onNewHead
+                return false;
+            }
             let hashNextBlockRight: any;
             try {
                 hashNextBlockRight = Utils.getRightBlockHash(lastBlockRight);
             } catch {
                 // If no forward links exist, it is the last block of the chain
-                this.flash.display(Flash.flashType.INFO, "End of blockchain");
+                return false;
             }
 
             this.loadRight(transform, gloader, hashNextBlockRight);
@@ -318,15 +426,22 @@ export class Chunk {
      * @param transform the transform object that contain the x,y,k
      * transformations
      * @param gloader the svg container for the loader
-     * @param blockHash the hash of the next block to load to the left
+     * @param blockHash the hash of the next block to load to the right
+     * @param firstIndex the index of the next block, the one after the
+     * right-most block by default
      *
      */
-    loadRight(transform: any, gloader: any, blockHash: string) {
+    loadRight(
+        transform: any,
+        gloader: any,
+        blockHash: string,
+        firstIndex = this.rightBlock.index + 1
+    ) {
         // In case we are reaching the end of the chain, we should not
         // load more blocks than available.
         let numblocks = Chain.pageSize;
         if (this.right + Chain.pageSize >= this.lastAddedBlock.index) {
-            numblocks = this.lastAddedBlock.index - this.rightBlock.index + 1;
+            numblocks = this.lastAddedBlock.index - firstIndex + 1;
         }
 
         this.right += numblocks;
@@ -334,7 +449,7 @@ export class Chunk {
         this.addLoader(
             false,
             gloader,
-            (this.rightBlock.index + 1) * Chain.unitBlockAndPaddingWidth +
+            Chain.layout.indexToX(this.rightBlock.index + 1) +
                 Chain.blockPadding +
                 Chain.blockWidth / 2,
             transform.k
@@ -405,6 +520,68 @@ export class Chunk {
       `);
     }
 
+    /**
+     * Update the chunk when new blocks are added to the chain: draw the
+     * arrows pointing to them and, if the chunk ends with the previous last
+     * block, load the new blocks to its right.
+     * @param head the new last block of the chain
+     */
+    onNewHead(head: SkipBlock) {
+        const previous = this.lastAddedBlock;
+        this.lastAddedBlock = head;
+
+        const pending = this.pendingArrows;
+        this.pendingArrows = [];
+        for (const [xTranslate, toIndex, block, height] of pending) {
+            if (toIndex <= head.index) {
+                this.renderer.addArrow(xTranslate, toIndex, block, height);
+            } else {
+                this.pendingArrows.push([xTranslate, toIndex, block, height]);
+            }
+        }
+
+        if (
+            this.rightBlock === undefined ||
+            this.rightBlock.index !== previous.index ||
+            this.isLoadingRight
+        ) {
+            return;
+        }
+
+        this.isLoadingRight = true;
+        this.right = head.index;
+
+        // The previous last block now has its forward link
+        this.repository
+            .getBlock(this.rightBlock.hash)
+            .then((block) => {
+                this.rightBlock = block;
+                const nextHash = Utils.getRightBlockHash(block);
+                this.addLoader(
+                    false,
+                    this.gloader,
+                    Chain.layout.indexToX(block.index + 1) +
+                        Chain.blockPadding +
+                        Chain.blockWidth / 2,
+                    this.lastTransform.k
+                );
+                this.getNextBlocks(
+                    nextHash,
+                    head.index - block.index,
+                    this.nbPages,
+                    this.subjectBrowse,
+                    false
+                );
+            })
+            .catch((e) => {
+                this.stopLoading(false);
+                this.flash.display(
+                    Flash.flashType.ERROR,
+                    `Unable to load the new blocks: ${e}`
+                );
+            });
+    }
+
     /**
      * Requests blocks to the blockchain.
      * @param nextBlockID hash of the first block of the next blocks to get
@@ -426,6 +603,7 @@ export class Chunk {
         try {
             bid = Utils.hex2Bytes(nextBlockID);
         } catch (error) {
+            this.stopLoading(backward);
             this.flash.display(
                 Flash.flashType.ERROR,
                 `failed to parse the block ID: ${error}`
@@ -433,123 +611,40 @@ export class Chunk {
             return;
         }
 
-        let conn: WebSocketConnection;
-        try {
-            conn = new WebSocketConnection(
-                this.roster.list[0].getWebSocketAddress(),
-                ByzCoinRPC.serviceName
-            );
-        } catch (error) {
-            this.flash.display(
-                Flash.flashType.ERROR,
-                `error creating conn: ${error}`
-            );
-            return;
-        }
-
-        if (this.ws != undefined) {
-            const message = new PaginateRequest({
-                backward,
-                numpages: nbPages,
-                pagesize: pageSize,
-                startid: bid,
-            });
-
-            const messageByte = Buffer.from(
-                message.$type.encode(message).finish()
-            );
-            this.ws.send(messageByte); // fetch next block
-        } else {
-            conn.sendStream<PaginateResponse>( // fetch next block
-                new PaginateRequest({
-                    backward,
-                    numpages: nbPages,
-                    pagesize: pageSize,
-                    startid: bid,
-                }),
-                PaginateResponse
-            ).subscribe({
-                // ws callback "onMessage":
-                complete: () => {
-                    this.ws = undefined;
-                },
-                error: (err: Error) => {
-                    this.flash.display(Flash.flashType.ERROR, `error: ${err}`);
-                    this.ws = undefined;
-                },
-                next: ([data, ws]) => {
-                    if (data.errorcode != 0) {
-                        // Reaching the end of the chain
-                        if (ws != undefined) {
-                            this.ws = ws;
-                            // Continue to load blocks
-                            return 0;
-                        } else {
-                            this.flash.display(
-                                Flash.flashType.ERROR,
-                                `got an error with code ${data.errorcode} : ${data.errortext}`
-                            );
-                            return 1;
-                        }
-                    }
-                    if (ws != undefined) {
-                        this.ws = ws;
-                    }
-                    subjectBrowse.next([
-                        data.pagenumber,
-                        data.blocks,
-                        data.backward,
-                    ]);
-                    return 0;
-                },
-            });
-        }
+        this.repository.getBlocks(bid, pageSize, nbPages, backward).subscribe({
+            error: (err: Error) => {
+                this.stopLoading(backward);
+                if (err instanceof PaginateError) {
+                    // Reaching the end of the chain
+                    return;
+                }
+                this.flash.display(Flash.flashType.ERROR, `error: ${err}`);
+            },
+            next: (page) => {
+                subjectBrowse.next(page);
+            },
+        });
     }
 
     /**
-     * Append the given blocks to the blockchain.
+     * Append the given blocks to the blockchain, at their place in the layout
+     * of the chain.
      * @param listBlocks list of blocks to append
-     * @param backwards  false for loading blocks to the right, true for loading
-     *                   blocks to the left
-     * @param gblocks the group that hold the blocks
-     * @param garrow the group that hold the arrows
-     * @param numblocks the number of blocks loaded from the initial block. In the
-     * case of a backward loading, this number should be negative. -10 means we
-     * already loaded 10 blocks on the left from the initial block.
      *
      */
-    displayBlocks(
-        listBlocks: SkipBlock[],
-        backwards: boolean,
-        gblocks: any,
-        garrow: any,
-        numblocks: number
-    ) {
+    displayBlocks(listBlocks: SkipBlock[]) {
         // Iterate over the blocks to append them
         for (let i = 0; i < listBlocks.length; ++i) {
             const block = listBlocks[i];
 
-            let xTranslateBlock: number;
-            if (backwards) {
-                // Blocks are appended to the left
-                xTranslateBlock =
-                    (numblocks - 1 - i) * Chain.unitBlockAndPaddingWidth;
-            } else {
-                // Blocks are appended to the right
-                xTranslateBlock =
-                    (numblocks + i) * Chain.unitBlockAndPaddingWidth;
-            }
+            const decoded = this.repository.decoder.get(block);
+            Chain.layout.addBlock(decoded);
+            const xTranslateBlock = Chain.layout.indexToX(block.index);
 
-            // Append the block inside the svg container
-            this.appendBlock(xTranslateBlock, block, gblocks);
+            // Append the block and its circles
+            this.renderer.addBlock(xTranslateBlock, block, decoded);
             // Append arrows between blocks
-            this.getToAndFromIndexes(xTranslateBlock, block, garrow);
-
-            this.appendCircleInBlock(
-                xTranslateBlock,
-                d3.selectAll(".gcircle"),
-                block
-            );
+            this.getToAndFromIndexes(xTranslateBlock, block);
         }
 
         // Notify the subject that new blocks have been added
@@ -563,7 +658,8 @@ export class Chunk {
      */
     private loadInitial(left: number) {
         // Fetch the initial block
-        Utils.getBlockByIndex(this.initialBlock.hash, left, this.roster)
+        this.repository
+            .getBlockByIndex(this.initialBlock.hash, left)
             .then((block: SkipBlock) => {
                 this.leftBlock = block;
                 this.rightBlock = block;
@@ -580,7 +676,8 @@ export class Chunk {
                 this.loadRight(
                     this.lastTransform,
                     this.gloader,
-                    Utils.bytes2String(block.hash) // Fetch block from left index and higher
+                    Utils.bytes2String(block.hash), // Fetch block from left index and higher
+                    block.index
                 );
             })
             .catch((e) =>
@@ -595,7 +692,7 @@ export class Chunk {
      * @private Helper function to define methods of the subjectBrowse subject
      */
     private setSubjectBrowse() {
-        this.subjectBrowse.subscribe({
+        const browseSubscription = this.subjectBrowse.subscribe({
             complete: () => {
                 this.flash.display(
                     Flash.flashType.INFO,
@@ -603,13 +700,7 @@ export class Chunk {
                 );
             },
             error: (err: any) => {
-                if (err == 1) {
-                    // To reset the websocket, create a new handler for the next
-                    // function (of getNextBlock)
-                    this.ws = undefined;
-                } else {
-                    this.flash.display(Flash.flashType.ERROR, `Error: ${err}`);
-                }
+                this.flash.display(Flash.flashType.ERROR, `Error: ${err}`);
                 // Stop loading the blocks
                 this.isLoadingLeft = false;
                 this.isLoadingRight = false;
@@ -631,13 +722,7 @@ export class Chunk {
 
                 if (backward) {
                     // Load blocks to the left
-                    this.displayBlocks(
-                        skipBlocks,
-                        true,
-                        this.gblocks,
-                        this.garrow,
-                        this.leftBlock.index
-                    );
+                    this.displayBlocks(skipBlocks);
 
                     this.leftBlock = skipBlocks[skipBlocks.length - 1];
 
@@ -657,22 +742,11 @@ export class Chunk {
                 } else {
                     // Load blocks to the right
 
-                    let num = this.rightBlock.index;
                     if (skipBlocks[0] == undefined) {
                         // No more skipblocks can be requested from the client
                         this.isLoadingRight = false;
                     } else {
-                        if (this.rightBlock.index != skipBlocks[0].index) {
-                            // Update the first block to load to the right
-                            num = skipBlocks[0].index;
-                        }
-                        this.displayBlocks(
-                            skipBlocks,
-                            false,
-                            this.gblocks,
-                            this.garrow,
-                            num
-                        );
+                        this.displayBlocks(skipBlocks);
                         // Right-most block
                         this.rightBlock = skipBlocks[skipBlocks.length - 1];
 
@@ -694,221 +768,25 @@ export class Chunk {
                 }
             },
         });
+        this.subscriptions.push(browseSubscription);
     }
 
-    /**
-     * Helper for displayBlocks: appends a block to the blockchain and adds it to
-     * the subscriber list.
-     * @param xTranslate horizontal position where the block should be appended
-     * @param block the block to append
-     * @param svgBlocks the svg container for the blocks
-     */
-    private appendBlock(xTranslate: number, block: SkipBlock, svgBlocks: any) {
-        svgBlocks
-            .append("rect")
-            .attr("id", Utils.bytes2String(block.hash))
-            .attr("width", Chain.blockWidth)
-            // Heights are described by level
-            // (Chain.svgHeight / this.maxHeightBlock) is the height a level to fit the chain height
-            .attr(
-                "height",
-                block.height * (Chain.svgHeight / this.maxHeightBlock)
-            )
-            .attr("x", xTranslate) // The blocks are appended following the transform of the chain
-            .attr("y", 20) // Blocks are appended below the axis
-            .attr("fill", Chain.getBlockColor(block))
-            .on("click", () => {
-                this.blockClickedSubject.next(block);
-                window.location.hash = `index:${block.index}`;
-            })
-            .on("mouseover", function () {
-                d3.select(this).style("cursor", "pointer");
-            })
-            .on("mouseout", function () {
-                d3.select(this).style("cursor", "default");
-            });
-    }
-
-    /**
-     * Helper function to append arrows between two blocks
-     * @param xTrans horizontal position where the block should be appended
-     * @param skipBlockToIndex ending point of the arrow
-     * @param skipBlockFrom starting point of the arrow
-     * @param svgBlocks the svg where the block are appended
-     * @param height the y coordinate where the arrow is appended on the blocks
-     * @author Sophia Artioli <sophia.artioli@epfl.ch>
-     */
-    private async appendArrows(
-        xTrans: number,
-        skipBlockToIndex: number,
-        skipBlockFrom: SkipBlock,
-        svgBlocks: any,
-        height: number
-    ) {
-        if (height == 0) {
-            // Consecutive blocks
-            const line = svgBlocks.append("line");
-            line.attr("x1", xTrans + Chain.blockWidth)
-                .attr("y1", Chain.blockHeight / 2 + Chain.axisPadding)
-                .attr("x2", xTrans + Chain.blockWidth + Chain.blockPadding)
-                .attr("y2", Chain.blockHeight / 2 + Chain.axisPadding)
-                .attr("stroke-width", 2)
-                .attr("stroke", "#808080");
-        } else {
-            var tooltip = d3.select(".tooltip");
-            // Blocks that are minimum two indexes away
-            const line = svgBlocks.append("line");
-            // Starting point of the arrow: Right edge of the block
-            line.attr("x1", xTrans + Chain.blockWidth)
-                .attr(
-                    "x2",
-                    xTrans -
-                        (skipBlockFrom.index - skipBlockToIndex) *
-                            (Chain.blockWidth + Chain.blockPadding) -
-                        Chain.blockPadding +
-                        2
-                ) // Arrows are appended to each level of height
-                .attr(
-                    "y1",
-                    Chain.axisPadding +
-                        Chain.svgHeight / this.maxHeightBlock +
-                        height * (Chain.svgHeight / this.maxHeightBlock)
-                ) // Ending point of the arrow: left-edge of the block
-                .attr(
-                    "y2",
-                    Chain.axisPadding +
-                        Chain.svgHeight / this.maxHeightBlock +
-                        height * (Chain.svgHeight / this.maxHeightBlock)
-                )
-                .attr(
-                    "marker-end",
-                    "url(#" +
-                        skipBlockToIndex.toString() +
-                        "-" +
-                        height.toString() +
-                        ")"
-                )
-                .attr("stroke-width", 2.8)
-                .attr("stroke", "#A0A0A0");
-            // Enables translation to the block the arrow is pointing to
-            const self = this;
-            var timeout: NodeJS.Timeout;
-            line.on("click", function () {
-                clearTimeout(timeout);
-                timeout = setTimeout(async function () {
-                    Utils.translateOnChain(
-                        skipBlockToIndex,
-                        self.initialBlock.index
-                    );
-
-                    let block = await Utils.getBlockByIndex(
-                        self.initialBlock.hash,
-                        skipBlockToIndex,
-                        self.roster
-                    );
-                    self.blockClickedSubject.next(block);
-                }, 300);
-            }).on("dblclick", function () {
-                clearTimeout(timeout);
-
-                Utils.translateOnChain(
-                    skipBlockFrom.index,
-                    self.initialBlock.index
-                );
-                self.blockClickedSubject.next(skipBlockFrom);
-            });
-
-            // Arrow head
-            const triangle = svgBlocks.append("svg:defs").append("svg:marker");
-            triangle
-                .attr(
-                    "id",
-                    skipBlockToIndex.toString() + "-" + height.toString()
-                ) // Markers have to have different id's otherwise they will not change color on hover
-                .attr("refX", 9.4)
-                .attr("refY", 6.5)
-                .attr("markerWidth", 17)
-                .attr("markerHeight", 15)
-                .attr("strokeWidth", 5)
-                .attr("fill", "#A0A0A0")
-                .attr("markerUnits", "userSpaceOnUse") // Makes width of stroke independant from path
-                .attr("orient", "auto-start-reverse")
-                .append("path")
-                .attr("d", "M 0 0 L 19 7 L 0 14 z");
-
-            // Arrows change color on hover
-            triangle.on("mouseover", function () {
-                d3.select(this).style("stroke", "var(--selected-colour");
-                triangle.style("fill", "var(--selected-colour");
-                d3.select(this).style("cursor", "pointer");
-            });
-            line.on("mouseover", function () {
-                d3.select(this).style("stroke", "var(--selected-colour");
-                triangle.style("fill", "var(--selected-colour");
-                d3.select(this).style("cursor", "pointer");
-
-                tooltip.transition().duration(200).style("opacity", 1);
-                tooltip
-                    .html(
-                        `From block ${skipBlockFrom.index} to ${skipBlockToIndex}`
-                    )
-                    .style(
-                        "left",
-                        d3.event.x - parseInt(tooltip.style("width")) / 2 + "px"
-                    )
-                    .style("top", d3.event.y - 30 + "px");
-            });
-
-            triangle.on("mouseout", () => {
-                line.style("stroke", "#A0A0A0");
-                triangle.style("fill", "#A0A0A0");
-                line.style("cursor", "default");
-            });
-            line.on("mouseout", () => {
-                line.style("stroke", "#A0A0A0");
-                triangle.style("fill", "#A0A0A0");
-                line.style("cursor", "default");
-                tooltip
-                    .transition()
-                    .duration(100)
-                    .style("opacity", 0)
-                    .style("pointer-events", "none");
-            });
-            line.on("mousemove", () => {
-                tooltip
-                    .html(
-                        `From block ${skipBlockFrom.index} to ${skipBlockToIndex}`
-                    )
-                    .style(
-                        "left",
-                        d3.event.x - parseInt(tooltip.style("width")) / 2 + "px"
-                    )
-                    .style("top", d3.event.y - 30 + "px");
-            });
-        }
-    }
     /**
      * Helper function to get starting point and ending SkipBlocks of the arrow
      * @param xTranslate horizontal position where the block should be appended
      * @param skipBlockTo the skipBlock the arrow points to
-     * @param svgBlocks the svg where the blocks are appended
      * @author Sophia Artioli <sophia.artioli@epfl.ch>
      */
-    private getToAndFromIndexes(
-        xTranslate: number,
-        skipBlockTo: SkipBlock,
-        svgBlocks: any
-    ) {
+    private getToAndFromIndexes(xTranslate: number, skipBlockTo: SkipBlock) {
         let index = skipBlockTo.index;
         let mult = 1;
         for (let i = 0; i < skipBlockTo.height; i++) {
             if (index + mult <= this.lastAddedBlock.index) {
                 // We do not draw arrows that point to non-existing blocks
-                this.appendArrows(
+                this.renderer.addArrow(
                     xTranslate,
                     index + mult,
                     skipBlockTo,
-                    svgBlocks,
                     i
                 );
             } else if (
@@ -921,106 +799,53 @@ export class Chunk {
                     `Missing forward link ${i} on block ${index}`
                 );
             }
+            if (index + mult > this.lastAddedBlock.index) {
+                // The arrow is drawn once the block is added
+                this.pendingArrows.push([
+                    xTranslate,
+                    index + mult,
+                    skipBlockTo,
+                    i,
+                ]);
+            }
             mult *= skipBlockTo.baseHeight;
         }
     }
 
     /**
-     * Helper for displayBlocks: appends a text element in a block.
-     * @param xTranslate horizontal position where the text should be displayed
-     * @param gcircle the svg container for the circles
-     * @param block: skipBlock
-     * @author Sophia Artioli <sophia.artioli@epfl.ch>
+     * Helper: stop waiting for blocks on one side after a failed request, so
+     * that the view can ask for them again.
+     * @param backward true for the left side, false for the right side
      */
-    private appendCircleInBlock(
-        xTranslate: number,
-        gcircle: any,
-        block: SkipBlock
-    ) {
-        const self = this;
-        var txAccepted = Utils.getTransactionRatio(block)[0];
-        var txRefused = Utils.getTransactionRatio(block)[1];
-        var xAccepted = xTranslate + 15;
-        var xRefused = xTranslate + Chain.blockWidth - 15;
-        var tooltip = d3.select(".tooltip");
-        gcircle
-            .append("circle")
-            .attr("cx", xAccepted)
-            .attr("r", 4)
-            .attr("stroke", "#b3ffb3")
-            .attr("fill-opacity", 0)
-            .attr("uk-tooltip", `${txAccepted} accepted transactions`)
-            .on("mouseover", function () {
-                d3.select(this).style("stroke", "#00cc00");
-            })
-            .on("mouseout", function () {
-                d3.select(this).style("stroke", "#b3ffb3");
-            });
-
-        const blocky = blockies.create({
-            seed: Utils.bytes2String(block.hash),
-        });
-        d3.select(".blockies")
-            .append("svg:image")
-            .attr("xlink:href", blocky.toDataURL())
-            .attr("src", blocky.toDataURL())
-            .attr("uk-tooltip", `hash:${Utils.bytes2String(block.hash)}`)
-            .attr("x", xTranslate + 30)
-            .attr("y", -4)
-            .attr("width", 9)
-            .attr("height", 9)
-            .attr("opacity", 0.6)
-            .attr("text", Utils.getTransactionRatio(block)[1])
-            .attr("dx", 40)
-            .on("click", function () {
-                Utils.copyToClipBoard(
-                    Utils.bytes2String(block.hash),
-                    self.flash
-                );
-            })
-            .on("mouseover", function () {
-                d3.select(this).style("cursor", "pointer");
-                tooltip.transition().duration(200).style("opacity", 1);
-                tooltip
-                    .html(`Block hash: ${Utils.bytes2String(block.hash)}`)
-                    .style(
-                        "left",
-                        d3.event.x - parseInt(tooltip.style("width")) / 2 + "px"
-                    )
-                    .style("top", d3.event.y - 30 + "px");
-            })
-            .on("mouseout", function () {
-                d3.select(this).style("cursor", "default");
-                tooltip
-                    .transition()
-                    .duration(100)
-                    .style("opacity", 0)
-                    .style("pointer-events", "none");
-            })
-            .on("mousemove", () => {
-                tooltip
+    private stopLoading(backward: boolean) {
+        if (backward) {
+            this.gloader.select(".left-loader").remove();
+            this.left = this.leftBlock.index;
+            this.isLoadingLeft = false;
+        } else {
+            this.gloader.select(".right-loader").remove();
+            this.right = this.rightBlock.index;
+            this.isLoadingRight = false;
+        }
+    }
 
-                    .html(`Block hash: ${Utils.bytes2String(block.hash)}`)
+    /**
+     * Helper: remove a range of blocks from the view.
+     * @param from the index of the first removed block
+     * @param to the index of the last removed block
+     */
+    private removeBlocks(from: number, to: number) {
+        if (from > to) {
+            return;
+        }
 
-                    .style(
-                        "left",
-                        d3.event.x - parseInt(tooltip.style("width")) / 2 + "px"
-                    )
-                    .style("top", d3.event.y - 30 + "px");
-            });
+        this.renderer.removeBlocks(from, to);
+        this.pendingArrows = this.pendingArrows.filter(
+            ([, , block]) => block.index < from || block.index > to
+        );
 
-        gcircle
-            .append("circle")
-            .attr("cx", xRefused)
-            .attr("r", 4)
-            .attr("stroke", "#EF5959")
-            .attr("fill-opacity", 0)
-            .attr("uk-tooltip", `${txRefused} rejected transactions`)
-            .on("mouseover", function () {
-                d3.select(this).style("stroke", "#d11515");
-            })
-            .on("mouseout", function () {
-                d3.select(this).style("stroke", "#EF5959");
-            });
+        Chain.totalLoaded -= to - from + 1;
+        this.loadedInfo.innerText = `${Chain.totalLoaded}`;
+        this.unloadedBlocksSubject.next([from, to]);
     }
 }
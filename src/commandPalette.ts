@@ -0,0 +1,208 @@
+import * as d3 from "d3";
+import UIkit from "uikit";
+
+/**
+ * An action of the command palette.
+ */
+interface Command {
+    label: string;
+    // Keyboard shortcut of the action, shown next to its label
+    shortcut?: string;
+    run: () => void;
+}
+
+/**
+ * Dialog listing the actions of the explorer, opened with Ctrl-K. Typing
+ * filters the actions, the arrow keys choose one and Enter runs it. The typed
+ * text can also be searched as in the search bar.
+ *
+ * @export
+ * @class CommandPalette
+ */
+export class CommandPalette {
+    // Maximum number of actions listed at once
+    static readonly maxResults = 8;
+
+    // Launches a search with the mode selected in the search bar
+    search: (input: string) => Promise<void>;
+
+    private readonly commands = new Array<Command>();
+    // Actions matching the typed text, and the one chosen among them
+    private results = new Array<Command>();
+    private chosen = 0;
+
+    private readonly modal: UIkit.UIkitModalElement;
+    private readonly input: d3.Selection<
+        HTMLInputElement,
+        unknown,
+        HTMLElement,
+        any
+    >;
+    private readonly list: d3.Selection<
+        HTMLUListElement,
+        unknown,
+        HTMLElement,
+        any
+    >;
+
+    /**
+     * Creates an instance of CommandPalette.
+     * @param {(input: string) => Promise<void>} search : launches a search
+     * with the mode selected in the search bar
+     * @memberof CommandPalette
+     */
+    constructor(search: (input: string) => Promise<void>) {
+        this.search = search;
+
+        this.modal = UIkit.modal("#command-palette");
+        this.input = d3.select<HTMLInputElement, unknown>("#command-input");
+        this.list = d3.select<HTMLUListElement, unknown>("#command-list");
+
+        this.input.on("input", () => {
+            this.chosen = 0;
+            this.update();
+        });
+        this.input.on("keydown", () => {
+            this.onKey(d3.event);
+        });
+
+        // The text of the last time is cleared when the palette opens
+        d3.select("#command-palette").on("shown", () => {
+            this.input.property("value", "");
+            this.chosen = 0;
+            this.update();
+            this.input.node().focus();
+        });
+    }
+
+    /**
+     * Add an action to the palette.
+     *
+     * @param {string} label : the text of the action, matched with the typed
+     * text
+     * @param {() => void} run
+     * @param {string} [shortcut] : the key running the action outside of the
+     * palette
+     * @memberof CommandPalette
+     */
+    add(label: string, run: () => void, shortcut?: string) {
+        this.commands.push({ label, run, shortcut });
+    }
+
+    /**
+     * Open the palette, or close it if it is open.
+     *
+     * @memberof CommandPalette
+     */
+    toggle() {
+        if (this.isOpen) {
+            this.modal.hide();
+        } else {
+            this.modal.show();
+        }
+    }
+
+    /**
+     * Check if the palette is open.
+     *
+     * @readonly
+     * @type {boolean}
+     * @memberof CommandPalette
+     */
+    get isOpen(): boolean {
+        return d3.select("#command-palette").classed("uk-open");
+    }
+
+    /**
+     * Helper: handle the keys typed in the palette.
+     * @param event the keydown event
+     */
+    private onKey(event: KeyboardEvent) {
+        switch (event.key) {
+            case "ArrowDown":
+                this.chosen = Math.min(
+                    this.chosen + 1,
+                    this.results.length - 1
+                );
+                break;
+            case "ArrowUp":
+                this.chosen = Math.max(this.chosen - 1, 0);
+                break;
+            case "Enter":
+                this.run(this.results[this.chosen]);
+                break;
+            default:
+                return;
+        }
+
+        event.preventDefault();
+        this.draw();
+    }
+
+    /**
+     * Helper: close the palette and run an action.
+     * @param command
+     */
+    private run(command: Command) {
+        if (command === undefined) {
+            return;
+        }
+
+        this.modal.hide();
+        command.run();
+    }
+
+    /**
+     * Helper: find the actions whose label contains all the typed words, the
+     * search of the typed text comes last.
+     */
+    private update() {
+        const text: string = this.input.property("value").trim();
+        const words = text.toLowerCase().split(/\s+/);
+
+        this.results = this.commands
+            .filter((command) =>
+                words.every((word) =>
+                    command.label.toLowerCase().includes(word)
+                )
+            )
+            .slice(0, CommandPalette.maxResults - 1);
+        if (text !== "") {
+            this.results.push({
+                label: `Search "${text}"`,
+                run: () => {
+                    d3.select("#search-input").property("value", text);
+                    this.search(text);
+                },
+            });
+        }
+
+        this.chosen = Math.min(this.chosen, this.results.length - 1);
+        this.draw();
+    }
+
+    /**
+     * Helper: list the matching actions, the chosen one is highlighted.
+     */
+    private draw() {
+        const items = this.list
+            .selectAll("li")
+            .data(this.results)
+            .join((enter) => {
+                const li = enter.append("li");
+                li.append("span").attr("class", "command-label");
+                li.append("kbd").attr("class", "command-shortcut");
+                return li;
+            })
+            .classed("uk-active", (_: Command, i: number) => i === this.chosen)
+            .on("mousedown", (command: Command) => {
+                // The input keeps the focus until the action runs
+                d3.event.preventDefault();
+                this.run(command);
+            });
+        items.select(".command-label").text((c: Command) => c.label);
+        items
+            .select(".command-shortcut")
+            .text((c: Command) => c.shortcut || "");
+    }
+}
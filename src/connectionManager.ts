@@ -0,0 +1,191 @@
+import { IConnection, Roster, ServerIdentity } from "@dedis/cothority/network";
+
+import { Transport, WebSocketTransport } from "./transport";
+
+/**
+ * Error returned when a request failed on every node of the roster.
+ *
+ * @export
+ * @class RosterUnreachableError
+ */
+export class RosterUnreachableError extends Error {
+    // Error of each node, in the order they have been tried
+    errors: Error[];
+
+    constructor(errors: Error[]) {
+        super(
+            `all the nodes of the roster failed: ${errors
+                .map((err) => err.message)
+                .join(", ")}`
+        );
+        this.errors = errors;
+    }
+}
+
+/**
+ * Chooses the node of the roster to talk to. It remembers which nodes
+ * answered or failed the last time they were contacted and sends the
+ * requests to the healthy nodes first, trying the others in the order of
+ * the roster until one of them answers.
+ *
+ * @export
+ * @class ConnectionManager
+ */
+export class ConnectionManager {
+    // Beginnings of the messages of the websocket errors, when the
+    // connection fails or closes without a reason
+    private static readonly websocketErrors =
+        /^(error in websocket|unknown reason|Endpoint|Reserved|No status code|Connection was closed|Server terminated|Unknown close error)/;
+
+    roster: Roster;
+    transport: Transport;
+
+    // Outcome of the last contact with each node, by websocket address
+    private readonly health = new Map<string, boolean>();
+
+    /**
+     * Creates an instance of ConnectionManager.
+     * @param {Roster} roster : the nodes that can be contacted
+     * @param {Transport} transport : creates the connections to the nodes
+     * @memberof ConnectionManager
+     */
+    constructor(
+        roster: Roster,
+        transport: Transport = new WebSocketTransport()
+    ) {
+        this.roster = roster;
+        this.transport = transport;
+    }
+
+    /**
+     * Get the nodes of the roster in the order they should be tried: the
+     * healthy ones, then the ones never contacted, then the failed ones.
+     *
+     * @returns {ServerIdentity[]}
+     * @memberof ConnectionManager
+     */
+    nodes(): ServerIdentity[] {
+        const healthy: ServerIdentity[] = [];
+        const unknown: ServerIdentity[] = [];
+        const failed: ServerIdentity[] = [];
+
+        for (const node of this.roster.list) {
+            switch (this.health.get(node.getWebSocketAddress())) {
+                case true:
+                    healthy.push(node);
+                    break;
+                case false:
+                    failed.push(node);
+                    break;
+                default:
+                    unknown.push(node);
+            }
+        }
+
+        return healthy.concat(unknown, failed);
+    }
+
+    /**
+     * Check if the node answered the last time it was contacted.
+     *
+     * @param {string} address : the websocket address of the node
+     * @returns {boolean} undefined if the node has never been contacted
+     * @memberof ConnectionManager
+     */
+    isHealthy(address: string): boolean {
+        return this.health.get(address);
+    }
+
+    /**
+     * Record that the node answered.
+     *
+     * @param {string} address : the websocket address of the node
+     * @memberof ConnectionManager
+     */
+    markHealthy(address: string) {
+        this.health.set(address, true);
+    }
+
+    /**
+     * Record that the node could not be contacted.
+     *
+     * @param {string} address : the websocket address of the node
+     * @memberof ConnectionManager
+     */
+    markFailed(address: string) {
+        this.health.set(address, false);
+    }
+
+    /**
+     * Create a connection to a service of the given node.
+     *
+     * @param {ServerIdentity} node
+     * @param {string} service : the name of the service
+     * @returns {IConnection}
+     * @memberof ConnectionManager
+     */
+    connect(node: ServerIdentity, service: string): IConnection {
+        return this.transport.connect(node.getWebSocketAddress(), service);
+    }
+
+    /**
+     * Check if an error means that the node could not be reached, and not
+     * that the request failed. A node closes the websocket with the error of
+     * the request as the reason, the client closes it with the "timeout"
+     * reason when the node does not answer. The other errors of the
+     * websocket have no reason, the errors raised by the request itself are
+     * not about the connection.
+     *
+     * @static
+     * @param {Error} error : the rejection of a request
+     * @returns {boolean} false for an error of the request
+     * @memberof ConnectionManager
+     */
+    static isConnectionError(error: Error): boolean {
+        const message = error instanceof Error ? error.message : `${error}`;
+        const reason = / Reason: (.*)$/.exec(message);
+        if (reason !== null) {
+            return reason[1] === "timeout";
+        }
+        return ConnectionManager.websocketErrors.test(message);
+    }
+
+    /**
+     * Send a request to the nodes of the roster one after the other, until
+     * one of them answers. An error sent back by a node is not a failure of
+     * the node: it is thrown right away.
+     *
+     * @template T
+     * @param {string} service : the name of the service
+     * @param {(conn: IConnection) => Promise<T>} request : sends the
+     *                                          request over the connection
+     * @returns {Promise<T>} the first answer, the error of the request, or
+     * a RosterUnreachableError
+     * @memberof ConnectionManager
+     */
+    async send<T>(
+        service: string,
+        request: (conn: IConnection) => Promise<T>
+    ): Promise<T> {
+        const errors: Error[] = [];
+
+        for (const node of this.nodes()) {
+            const address = node.getWebSocketAddress();
+            try {
+                const reply = await request(this.connect(node, service));
+                this.markHealthy(address);
+                return reply;
+            } catch (error) {
+                if (!ConnectionManager.isConnectionError(error)) {
+                    // The node answered
+                    this.markHealthy(address);
+                    throw error;
+                }
+                this.markFailed(address);
+                errors.push(error);
+            }
+        }
+
+        throw new RosterUnreachableError(errors);
+    }
+}
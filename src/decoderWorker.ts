@@ -0,0 +1,18 @@
+import { BlockDecoder, DecoderMessage } from "./blockDecoder";
+
+/**
+ * Entry point of the worker decoding the blocks for BlockDecoder. It answers
+ * each message with the summaries of its blocks.
+ */
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = (event: MessageEvent<DecoderMessage>) => {
+    const { id, blocks } = event.data;
+    let answer: DecoderMessage;
+    try {
+        answer = { decoded: blocks.map(BlockDecoder.summarize), id };
+    } catch (error) {
+        answer = { error: `${error}`, id };
+    }
+    self.postMessage(answer);
+};
@@ -0,0 +1,750 @@
+import {
+    Argument,
+    ClientTransaction,
+    Instruction,
+} from "@dedis/cothority/byzcoin";
+import { DataBody, DataHeader, TxResult } from "@dedis/cothority/byzcoin/proto";
+import {
+    PaginateRequest,
+    PaginateResponse,
+} from "@dedis/cothority/byzcoin/proto/stream";
+import {
+    IConnection,
+    Roster,
+    ServerIdentity,
+    ServiceIdentity,
+    WebSocketAdapter,
+} from "@dedis/cothority/network";
+import {
+    ByzcoinSignature,
+    ForwardLink,
+    SkipBlock,
+    SkipchainRPC,
+} from "@dedis/cothority/skipchain";
+import {
+    GetAllSkipChainIDs,
+    GetAllSkipChainIDsReply,
+    GetSingleBlock,
+    GetSingleBlockByIndex,
+    GetSingleBlockByIndexReply,
+    GetUpdateChain,
+    GetUpdateChainReply,
+} from "@dedis/cothority/skipchain/proto";
+import { pairing, sign } from "@dedis/kyber";
+import { createHash } from "crypto";
+import Long from "long";
+import { Message } from "protobufjs";
+import { Observable } from "rxjs";
+
+import { BlockDecoder } from "./blockDecoder";
+import { SkipchainVerifiers } from "./skipchainVerifiers";
+import { Transport } from "./transport";
+import { Utils } from "./utils";
+
+/**
+ * Shape of the skipchain generated by a FakeConode.
+ *
+ * @export
+ * @interface FixtureOptions
+ */
+export interface FixtureOptions {
+    // Number of blocks of the chain
+    length?: number;
+    baseHeight?: number;
+    maxHeight?: number;
+    // Number of transactions in each block
+    transactions?: number;
+    // Number of different instances the transactions are applied on
+    instances?: number;
+    // Timestamp of the genesis block, in milliseconds
+    start?: number;
+    // Time between two blocks, in milliseconds
+    interval?: number;
+    // Maximum number of blocks in the page of a PaginateRequest
+    maxPageSize?: number;
+    // Index of the block whose forward link of level 0 has a wrong
+    // signature, -1 for none
+    brokenLink?: number;
+}
+
+/**
+ * Conode running in the browser, used for development and tests without the
+ * network. It generates a skipchain from the options and answers the
+ * requests of the explorer about it: PaginateRequest, GetSingleBlock,
+ * GetSingleBlockByIndex, GetUpdateChain and GetAllSkipChainIDs. The replies
+ * are encoded and decoded like on a websocket.
+ *
+ * All the nodes of the roster share the chain, each one can be marked as
+ * down to simulate failures.
+ *
+ * The forward links are signed with BLS by the skipchain service of the
+ * nodes, whose keys are derived from the public keys of the roster. They are
+ * signed when the blocks are first served, as it takes a few milliseconds
+ * per link. The link of level 0 of the block options.brokenLink has a wrong
+ * signature, to see the verification fail.
+ *
+ * @export
+ * @class FakeConode
+ * @implements {Transport}
+ */
+export class FakeConode implements Transport {
+    static readonly defaultOptions: Required<FixtureOptions> = {
+        baseHeight: 4,
+        brokenLink: 100,
+        instances: 5,
+        interval: 5000,
+        length: 1000,
+        maxHeight: 32,
+        maxPageSize: 1000,
+        start: Date.UTC(2021, 0, 1),
+        transactions: 2,
+    };
+
+    // Error codes of the PaginateResponse
+    static readonly errorBlockNotFound = 1;
+    static readonly errorEndOfChain = 2;
+    static readonly errorTooManyBlocks = 5;
+    // Version of ByzCoin in the headers of the blocks
+    static readonly version = 1;
+    // Verification functions of the blocks, as in ByzCoin
+    static readonly verifiers = ["Base", "ByzCoin"].map((name) =>
+        SkipchainVerifiers.id(name)
+    );
+    // Size of a BLS signature, followed by the mask of the signers
+    static readonly signatureSize = 64;
+
+    // The roster of the blocks, with the keys of the skipchain service
+    readonly roster: Roster;
+    // The generated chain, by index, its forward links are signed when the
+    // blocks are served
+    readonly blocks: SkipBlock[];
+    // The instances touched by the transactions
+    readonly instanceIDs: Buffer[];
+    readonly options: Required<FixtureOptions>;
+
+    private readonly byHash = new Map<string, SkipBlock>();
+    private readonly down = new Set<string>();
+    private readonly closing = new Set<string>();
+    // Private keys of the skipchain service of the nodes of the roster
+    private readonly secrets: pairing.BN256Scalar[] = [];
+    // Indexes of the blocks whose forward links are signed
+    private readonly signed = new Set<number>();
+
+    /**
+     * Creates an instance of FakeConode and generates its chain.
+     * @param {Roster} roster : the nodes serving the chain
+     * @param {FixtureOptions} options : the shape of the chain
+     * @memberof FakeConode
+     */
+    constructor(roster: Roster, options: FixtureOptions = {}) {
+        this.options = { ...FakeConode.defaultOptions, ...options };
+
+        this.instanceIDs = [];
+        for (let i = 0; i < this.options.instances; i++) {
+            const iid = Buffer.alloc(32);
+            iid.writeUInt32BE(i + 1, 0);
+            this.instanceIDs.push(iid);
+        }
+
+        this.roster = new Roster({
+            list: roster.list.map((node) => {
+                const secret = new pairing.BN256Scalar().setBytes(
+                    createHash("sha256")
+                        .update("fake skipchain service")
+                        .update(node.public)
+                        .digest()
+                );
+                this.secrets.push(secret);
+                const service = new ServiceIdentity({
+                    name: SkipchainRPC.serviceName,
+                    public: new pairing.point.BN256G2Point()
+                        .mul(secret, new pairing.point.BN256G2Point().base())
+                        .toProto(),
+                    suite: "bn256.adapter",
+                });
+                return new ServerIdentity({
+                    address: node.address,
+                    description: node.description,
+                    id: node.id,
+                    public: node.public,
+                    serviceIdentities: node.serviceIdentities
+                        .filter((s) => s.name !== SkipchainRPC.serviceName)
+                        .concat(service),
+                    url: node.url,
+                });
+            }),
+        });
+
+        this.blocks = this.generate(this.roster);
+        for (const block of this.blocks) {
+            this.byHash.set(Utils.bytes2String(block.hash), block);
+        }
+    }
+
+    /**
+     * Get the first block of the chain, its hash is the skipchain ID.
+     *
+     * @readonly
+     * @type {SkipBlock}
+     * @memberof FakeConode
+     */
+    get genesis(): SkipBlock {
+        return this.blocks[0];
+    }
+
+    /**
+     * Simulate the failure of a node: its requests fail until it is up again.
+     *
+     * @param {string} address : the websocket address of the node
+     * @param {boolean} [down=true]
+     * @memberof FakeConode
+     */
+    setDown(address: string, down = true) {
+        if (down) {
+            this.down.add(address);
+        } else {
+            this.down.delete(address);
+        }
+    }
+
+    /**
+     * Simulate a node closing its open streams normally, e.g. when they have
+     * been idle for too long: the next request sent on an open stream of the
+     * node closes it without an answer.
+     *
+     * @param {string} address : the websocket address of the node
+     * @memberof FakeConode
+     */
+    closeStreams(address: string) {
+        this.closing.add(address);
+    }
+
+    /**
+     * Check if an open stream of the node must be closed, only once.
+     *
+     * @param {string} address : the websocket address of the node
+     * @returns {boolean}
+     * @memberof FakeConode
+     */
+    takeClosing(address: string): boolean {
+        return this.closing.delete(address);
+    }
+
+    /**
+     * Check if the node has been marked as down.
+     *
+     * @param {string} address : the websocket address of the node
+     * @returns {boolean}
+     * @memberof FakeConode
+     */
+    isDown(address: string): boolean {
+        return this.down.has(address);
+    }
+
+    connect(address: string, service: string): IConnection {
+        return new FakeConnection(this, address, service);
+    }
+
+    /**
+     * Answer a request of the skipchain service.
+     *
+     * @param {Message} message : the request
+     * @returns {Uint8Array} the encoded reply
+     * @memberof FakeConode
+     */
+    answer(message: Message): Uint8Array {
+        if (message instanceof GetSingleBlock) {
+            return SkipBlock.encode(
+                this.signLinks(this.find(message.id))
+            ).finish();
+        }
+
+        if (message instanceof GetSingleBlockByIndex) {
+            this.find(message.genesis);
+            const block = this.blocks[message.index];
+            if (block === undefined) {
+                throw new Error(`no block with index ${message.index}`);
+            }
+            return GetSingleBlockByIndexReply.encode(
+                new GetSingleBlockByIndexReply({
+                    links: [],
+                    skipblock: this.signLinks(block),
+                })
+            ).finish();
+        }
+
+        if (message instanceof GetUpdateChain) {
+            // Follow the highest forward links up to the last block
+            const update = [this.find(message.latestID)];
+            let block = update[0];
+            while (block.forwardLinks.length > 0) {
+                const link = block.forwardLinks[block.forwardLinks.length - 1];
+                block = this.find(link.to);
+                update.push(block);
+            }
+            return GetUpdateChainReply.encode(
+                new GetUpdateChainReply({
+                    update: update.map((b) => this.signLinks(b)),
+                })
+            ).finish();
+        }
+
+        if (message instanceof GetAllSkipChainIDs) {
+            return GetAllSkipChainIDsReply.encode(
+                new GetAllSkipChainIDsReply({
+                    skipChainIDs: [this.genesis.hash],
+                })
+            ).finish();
+        }
+
+        throw new Error(`unsupported request ${message.constructor.name}`);
+    }
+
+    /**
+     * Answer a PaginateRequest of the ByzCoin service.
+     *
+     * @param {PaginateRequest} request
+     * @returns {Uint8Array[]} the encoded PaginateResponse of each page
+     * @memberof FakeConode
+     */
+    paginate(request: PaginateRequest): Uint8Array[] {
+        const failure = (errorcode: number, text: string) => [
+            PaginateResponse.encode({
+                backward: request.backward,
+                blocks: [],
+                errorcode,
+                errortext: [text],
+                pagenumber: 0,
+            }).finish(),
+        ];
+
+        if (request.pagesize > this.options.maxPageSize) {
+            return failure(
+                FakeConode.errorTooManyBlocks,
+                `too many blocks requested: ${request.pagesize}`
+            );
+        }
+
+        let block = this.byHash.get(Utils.bytes2String(request.startid));
+        if (block === undefined) {
+            return failure(
+                FakeConode.errorBlockNotFound,
+                "failed to get the first block"
+            );
+        }
+
+        const responses: Uint8Array[] = [];
+        for (let page = 0; page < request.numpages; page++) {
+            const blocks: SkipBlock[] = [];
+            while (blocks.length < request.pagesize) {
+                if (block === undefined) {
+                    return responses.concat(
+                        failure(
+                            FakeConode.errorEndOfChain,
+                            "reached the end of the chain"
+                        )
+                    );
+                }
+                blocks.push(this.signLinks(block));
+                block = this.blocks[block.index + (request.backward ? -1 : 1)];
+            }
+
+            responses.push(
+                PaginateResponse.encode({
+                    backward: request.backward,
+                    blocks,
+                    errorcode: 0,
+                    errortext: [],
+                    pagenumber: page,
+                }).finish()
+            );
+        }
+
+        return responses;
+    }
+
+    /**
+     * Helper: get a block of the chain by its hash.
+     * @param hash
+     */
+    private find(hash: Buffer): SkipBlock {
+        const block = this.byHash.get(Utils.bytes2String(hash));
+        if (block === undefined) {
+            throw new Error(`block ${Utils.bytes2String(hash)} not found`);
+        }
+        return block;
+    }
+
+    /**
+     * Helper: sign the forward links of a block, once. The signature of a
+     * link is the one of the sum of the private keys of the nodes in its
+     * mask, which is their aggregated signature.
+     * @param block a block of the chain
+     */
+    private signLinks(block: SkipBlock): SkipBlock {
+        if (this.signed.has(block.index)) {
+            return block;
+        }
+
+        block.forwardLinks.forEach((link, level) => {
+            const mask = link.signature.getMask();
+            const secret = new pairing.BN256Scalar().zero();
+            this.secrets.forEach((s, i) => {
+                // tslint:disable-next-line:no-bitwise
+                if ((mask[Math.floor(i / 8)] & (1 << i % 8)) !== 0) {
+                    secret.add(secret, s);
+                }
+            });
+            // The broken link is only signed by the first node
+            const broken =
+                level === 0 && block.index === this.options.brokenLink;
+            block.forwardLinks[level] = new ForwardLink({
+                from: link.from,
+                signature: new ByzcoinSignature({
+                    msg: link.signature.msg,
+                    sig: Buffer.concat([
+                        sign.bls.sign(
+                            link.signature.msg,
+                            broken ? this.secrets[0] : secret
+                        ),
+                        mask,
+                    ]),
+                }),
+                to: link.to,
+            });
+        });
+        this.signed.add(block.index);
+        return block;
+    }
+
+    /**
+     * Helper: create the blocks of the chain. The hashes are computed first
+     * as the forward links point to the following blocks.
+     * @param roster the roster of the blocks
+     */
+    private generate(roster: Roster): SkipBlock[] {
+        const { baseHeight, length, maxHeight } = this.options;
+        const hashes: Buffer[] = [];
+        const payloads: Buffer[] = [];
+        const spawned = new Set<number>();
+
+        const build = (index: number, forward: ForwardLink[]) => {
+            const height = this.height(index);
+            const backlinks: Buffer[] = [];
+            for (let level = 0; index > 0 && level < height; level++) {
+                backlinks.push(hashes[index - Math.pow(baseHeight, level)]);
+            }
+
+            return new SkipBlock({
+                backlinks,
+                baseHeight,
+                data: this.header(index, payloads[index]),
+                forward,
+                genesis: index === 0 ? Buffer.alloc(0) : hashes[0],
+                hash: hashes[index],
+                height,
+                index,
+                maxHeight,
+                payload: payloads[index],
+                roster,
+                verifiers: FakeConode.verifiers,
+            });
+        };
+
+        for (let index = 0; index < length; index++) {
+            payloads.push(this.body(index, spawned));
+            hashes.push(build(index, []).computeHash());
+        }
+
+        return hashes.map((hash, index) => {
+            const forward: ForwardLink[] = [];
+            for (let level = 0; level < this.height(index); level++) {
+                const to = hashes[index + Math.pow(baseHeight, level)];
+                if (to === undefined) {
+                    break;
+                }
+                // Signed when the block is served
+                const link = new ForwardLink({ from: hash, to });
+                forward.push(
+                    new ForwardLink({
+                        from: hash,
+                        signature: new ByzcoinSignature({
+                            msg: link.hash(),
+                            sig: Buffer.concat([
+                                Buffer.alloc(FakeConode.signatureSize),
+                                this.mask(index, level, roster.list.length),
+                            ]),
+                        }),
+                        to,
+                    })
+                );
+            }
+            return build(index, forward);
+        });
+    }
+
+    /**
+     * Helper: height of a block, it grows with the number of times its index
+     * can be divided by baseHeight.
+     * @param index the index of the block
+     */
+    private height(index: number): number {
+        const { baseHeight, maxHeight } = this.options;
+        let height = 1;
+        while (
+            height < maxHeight &&
+            index % Math.pow(baseHeight, height) === 0
+        ) {
+            height++;
+        }
+        return height;
+    }
+
+    /**
+     * Helper: mask of the nodes signing a forward link. The node i misses one
+     * link out of 5 * (i + 2), the last node one out of three, as long as
+     * enough nodes sign for the link to be valid: at most (nbNodes - 1) / 3
+     * nodes miss a link, so none in a roster of three nodes.
+     * @param index the index of the block
+     * @param level the level of the forward link
+     * @param nbNodes the number of nodes in the roster
+     */
+    private mask(index: number, level: number, nbNodes: number): Buffer {
+        const mask = Buffer.alloc(Math.ceil(nbNodes / 8));
+        let misses = Math.floor((nbNodes - 1) / 3);
+        for (let i = 0; i < nbNodes; i++) {
+            const period = i === nbNodes - 1 ? 3 : 5 * (i + 2);
+            if (misses > 0 && (index + level) % period === i % period) {
+                misses--;
+            } else {
+                // tslint:disable-next-line:no-bitwise
+                mask[Math.floor(i / 8)] |= 1 << i % 8;
+            }
+        }
+        return mask;
+    }
+
+    /**
+     * Helper: encoded header of a block.
+     * @param index the index of the block
+     * @param payload the encoded body of the block, its transactions are
+     * hashed in the header
+     */
+    private header(index: number, payload: Buffer): Buffer {
+        const millis = this.options.start + index * this.options.interval;
+        return Buffer.from(
+            DataHeader.encode(
+                new DataHeader({
+                    clientTransactionHash: BlockDecoder.transactionHash(
+                        DataBody.decode(payload),
+                        FakeConode.version
+                    ),
+                    stateChangeHash: Buffer.alloc(32),
+                    timestamp: Long.fromNumber(millis).multiply(1000_000),
+                    trieRoot: Buffer.alloc(32),
+                    version: FakeConode.version,
+                })
+            ).finish()
+        );
+    }
+
+    /**
+     * Helper: encoded body of a block. The transactions go through the
+     * instances in turn: an instance is spawned, then invoked. One
+     * transaction out of seven is refused.
+     * @param index the index of the block
+     * @param spawned the instances already spawned
+     */
+    private body(index: number, spawned: Set<number>): Buffer {
+        const txResults: TxResult[] = [];
+
+        for (let i = 0; i < this.options.transactions; i++) {
+            const count = index * this.options.transactions + i;
+            const instance = count % this.options.instances;
+            const iid = this.instanceIDs[instance];
+            const args = [
+                new Argument({ name: "value", value: Buffer.from(`${count}`) }),
+            ];
+
+            let instruction: Instruction;
+            if (spawned.has(instance)) {
+                instruction = Instruction.createInvoke(
+                    iid,
+                    "value",
+                    "update",
+                    args
+                );
+            } else {
+                spawned.add(instance);
+                instruction = Instruction.createSpawn(iid, "value", args);
+            }
+
+            txResults.push(
+                new TxResult({
+                    accepted: count % 7 !== 6,
+                    clientTransaction: ClientTransaction.make(0, instruction),
+                })
+            );
+        }
+
+        return Buffer.from(
+            DataBody.encode(new DataBody({ txResults })).finish()
+        );
+    }
+}
+
+/**
+ * Connection to a node of a FakeConode.
+ */
+class FakeConnection implements IConnection {
+    private readonly conode: FakeConode;
+    private readonly address: string;
+    private readonly service: string;
+
+    constructor(conode: FakeConode, address: string, service: string) {
+        this.conode = conode;
+        this.address = address;
+        this.service = service;
+    }
+
+    async send<T extends Message>(
+        message: Message,
+        reply: typeof Message
+    ): Promise<T> {
+        // Answer asynchronously, like over the network
+        await Promise.resolve();
+        this.checkUp();
+        // The request is encoded as on a websocket, e.g. the numbers are
+        // truncated to their type
+        const request = message.$type.decode(
+            message.$type.encode(message).finish()
+        );
+        let answer: Uint8Array;
+        try {
+            answer = this.conode.answer(request);
+        } catch (error) {
+            // Like a conode closing the websocket with the error
+            throw new Error(`Unknown close error Reason: ${error.message}`);
+        }
+        return reply.decode(answer) as T;
+    }
+
+    sendStream<T extends Message>(
+        message: Message,
+        reply: typeof Message
+    ): Observable<[T, WebSocketAdapter]> {
+        return new Observable((sub) => {
+            let closed = false;
+
+            const serve = (request: Message) => {
+                setTimeout(() => {
+                    if (closed) {
+                        return;
+                    }
+                    try {
+                        this.checkUp();
+                        if (!(request instanceof PaginateRequest)) {
+                            throw new Error(
+                                `unsupported stream ${request.constructor.name}`
+                            );
+                        }
+                        for (const bytes of this.conode.paginate(request)) {
+                            sub.next([reply.decode(bytes) as T, socket]);
+                        }
+                    } catch (error) {
+                        sub.error(error);
+                    }
+                }, 0);
+            };
+
+            const socket = new FakeSocket(
+                `${this.address}${this.service}`,
+                (bytes) => {
+                    if (this.conode.takeClosing(this.address)) {
+                        // Closed with the code 1000, without an error
+                        setTimeout(() => socket.close(1000), 0);
+                        return;
+                    }
+                    serve(PaginateRequest.decode(bytes));
+                },
+                () => {
+                    closed = true;
+                    sub.complete();
+                }
+            );
+
+            serve(message);
+            return () => {
+                closed = true;
+            };
+        });
+    }
+
+    getURL(): string {
+        return this.address;
+    }
+
+    copy(service: string): IConnection {
+        return new FakeConnection(this.conode, this.address, service);
+    }
+
+    setTimeout(value: number) {
+        // The fake conode answers immediately
+    }
+
+    setParallel(p: number) {
+        // There is a single fake conode per address
+    }
+
+    /**
+     * Helper: fail if the node has been marked as down.
+     */
+    private checkUp() {
+        if (this.conode.isDown(this.address)) {
+            throw new Error(`error in websocket ${this.address}: node is down`);
+        }
+    }
+}
+
+/**
+ * Socket of a stream of a FakeConnection. The explorer only uses it to send
+ * new requests on the stream and to close it.
+ */
+class FakeSocket extends WebSocketAdapter {
+    private readonly receive: (bytes: Buffer) => void;
+    private readonly closed: () => void;
+
+    constructor(
+        path: string,
+        receive: (bytes: Buffer) => void,
+        closed: () => void
+    ) {
+        super(path);
+        this.receive = receive;
+        this.closed = closed;
+    }
+
+    onOpen(callback: () => void) {
+        // The stream is notified by FakeConnection
+    }
+
+    onMessage(callback: (data: Buffer) => void) {
+        // The stream is notified by FakeConnection
+    }
+
+    onClose(callback: (code: number, reason: string) => void) {
+        // The stream is notified by FakeConnection
+    }
+
+    onError(callback: (err: Error) => void) {
+        // The stream is notified by FakeConnection
+    }
+
+    send(bytes: Buffer) {
+        this.receive(bytes);
+    }
+
+    close(code: number, reason?: string) {
+        this.closed();
+    }
+}
@@ -2,18 +2,30 @@ import { Roster } from "@dedis/cothority/network";
 import { SkipchainRPC } from "@dedis/cothority/skipchain";
 import { SkipBlock } from "@dedis/cothority/skipchain/skipblock";
 import { Block } from "./block";
+import { BlockRepository } from "./blockRepository";
+import { BlockStore } from "./blockStore";
+import { BlockVerifier } from "./blockVerifier";
 import { Chain } from "./chain";
+import { CommandPalette } from "./commandPalette";
+import { ConnectionManager } from "./connectionManager";
+import { FakeConode } from "./fakeConode";
 import { Flash } from "./flash";
 import { Lifecycle } from "./lifecycle";
 import { getRosterStr } from "./roster";
+import { Route, Router } from "./router";
 import { searchBar } from "./search";
+import { Shortcuts } from "./shortcuts";
+import { SkiplinkPath } from "./skiplinkPath";
 import { Status } from "./status";
 import "./stylesheets/style.scss";
 import { TotalBlock } from "./totalBlock";
+import { Transport, WebSocketTransport } from "./transport";
 import { Utils } from "./utils";
 import * as d3 from "d3";
 import * as introJS from "intro.js";
 import { select, selectAll } from "d3";
+import { Subject, Subscription } from "rxjs";
+import UIkit from "uikit";
 
 /*
    ___              _                     _
@@ -24,11 +36,21 @@ _|"""""|_|"""""|_|"""""|_|"""""|_|"""""|_|"""""|_|"""""|_|"""""|
 "`-0-0-'"`-0-0-'"`-0-0-'"`-0-0-'"`-0-0-'"`-0-0-'"`-0-0-'"`-0-0-'
  */
 
-// This is the genesis block, which is also the Skipchain identifier
-var hashBlock0 =
+// The genesis block of the skipchain explored by default
+const defaultHashBlock0 =
     "9cc36071ccb902a1de7e0d21a2c176d73894b1cf88ae4cc2ba4c95cd76f474f3";
+// This is the genesis block, which is also the Skipchain identifier
+let hashBlock0 = defaultHashBlock0;
 // The roster configuration, parsed as a string
 const rosterStr = getRosterStr();
+// The blocks saved by the browser, shared by all the skipchains
+const blockStore = new BlockStore();
+// Keeps the url in sync with the selection
+const router = new Router();
+// Shows the routes of the history of the browser
+let routeSubscription: Subscription;
+// The chain shown, replaced when another skipchain is selected
+let shownChain: Chain;
 
 /**
  *
@@ -59,6 +81,25 @@ export function sayHi() {
             ).value;
             startSkipchain(newRosterStr, false);
         });
+
+    // Remove the saved blocks
+    const cacheFlash = new Flash();
+    document.getElementById("clear-cache").addEventListener("click", () => {
+        blockStore
+            .clear()
+            .then((count) =>
+                cacheFlash.display(
+                    Flash.flashType.INFO,
+                    `Cache cleared: ${count} blocks removed`
+                )
+            )
+            .catch((error) =>
+                cacheFlash.display(
+                    Flash.flashType.ERROR,
+                    `Unable to clear the cache: ${error}`
+                )
+            );
+    });
 }
 
 /**
@@ -88,12 +129,48 @@ export function startSkipchain(rosterStr: string, defaultSkipchain: boolean) {
 
     let initialBlockIndex: number;
 
-    const scRPC = new SkipchainRPC(roster);
+    // The skipchain and the block of the link, they do not apply to the
+    // skipchain of a new roster
+    let route: Route = {};
+    if (defaultSkipchain) {
+        route = Router.parse(window.location.hash);
+        if (route === undefined) {
+            flash.display(
+                Flash.flashType.ERROR,
+                `Invalid link: ${window.location.hash}`
+            );
+            route = {};
+        }
+        if (route.skipchainID !== undefined) {
+            hashBlock0 = route.skipchainID;
+        }
+    }
+
+    // A generated chain is served instead of the conodes when the url
+    // contains "?fake", or "?fake=<number of blocks>"
+    const fakeLength = new URLSearchParams(window.location.search).get("fake");
+    let transport: Transport = new WebSocketTransport();
+    let store = blockStore;
+    if (fakeLength !== null) {
+        const length = parseInt(fakeLength, 10);
+        const fake = new FakeConode(roster, isNaN(length) ? {} : { length });
+        transport = fake;
+        store = undefined;
+        hashBlock0 = Utils.bytes2String(fake.genesis.hash);
+    }
+
+    // Shared by all the modules so that a block is only fetched once
+    const repository = new BlockRepository(
+        new ConnectionManager(roster, transport),
+        store
+    );
 
     //take the first skipchainID of the selected roster
     if (!defaultSkipchain) {
-        scRPC
-            .getAllSkipChainIDs()
+        repository.connections
+            .send(SkipchainRPC.serviceName, (conn) =>
+                new SkipchainRPC(conn).getAllSkipChainIDs()
+            )
             .then((resp) => {
                 //hashBlock 0 of new roster
 
@@ -107,17 +184,26 @@ export function startSkipchain(rosterStr: string, defaultSkipchain: boolean) {
             );
     }
 
-    new SkipchainRPC(roster)
-        .getLatestBlock(Utils.hex2Bytes(hashBlock0), false, true)
-        .then((last) => {
+    repository
+        .getLatestBlock(Utils.hex2Bytes(hashBlock0))
+        .then(async (last) => {
             // skipBlock of the last added block of the chain
 
-            // Url input from the user
-            const indexString = window.location.hash.split(":")[1];
+            // Block selected by the url
+            let routeIndex = route.blockIndex;
+            if (route.blockHash !== undefined) {
+                // An unknown hash is reported when the block is selected
+                routeIndex = await repository
+                    .getBlock(Utils.hex2Bytes(route.blockHash))
+                    .then(
+                        (block) => block.index,
+                        () => undefined
+                    );
+            }
 
-            if (indexString != null) {
+            if (routeIndex !== undefined) {
                 // A block index is inputted
-                initialBlockIndex = parseInt(indexString, 10);
+                initialBlockIndex = routeIndex;
 
                 if (initialBlockIndex < 0) {
                     // The block index should not be smaller than 0
@@ -161,20 +247,21 @@ export function startSkipchain(rosterStr: string, defaultSkipchain: boolean) {
             }
         })
         .then(() => {
-            scRPC
-                .getSkipBlockByIndex(Utils.hex2Bytes(hashBlock0), 0)
+            repository
+                .getBlockByIndex(Utils.hex2Bytes(hashBlock0), 0)
                 .then((genesis) => {
-                    scRPC
-                        .getSkipBlockByIndex(
+                    repository
+                        .getBlockByIndex(
                             Utils.hex2Bytes(hashBlock0),
                             initialBlockIndex
                         )
                         .then((initialBlock) => {
                             // Start the visualization
                             startColumbus(
-                                genesis.skipblock,
-                                initialBlock.skipblock,
+                                genesis,
+                                initialBlock,
                                 roster,
+                                repository,
                                 flash,
                                 defaultSkipchain
                             );
@@ -195,12 +282,14 @@ export function startSkipchain(rosterStr: string, defaultSkipchain: boolean) {
  * @param genesisBlock the genesis block of the skipchain
  * @param initialBlock the first block that will be displayed
  * @param roster the roster
+ * @param repository the repository shared by the modules to get the blocks
  * @param flash the flash class that handles the flash messages
  */
 export function startColumbus(
     genesisBlock: SkipBlock,
     initialBlock: SkipBlock,
     roster: Roster,
+    repository: BlockRepository,
     flash: Flash,
     defaultSkipchain: Boolean
 ) {
@@ -211,35 +300,87 @@ export function startColumbus(
         d3.select(".block-detail-container").selectAll("*").remove();
         d3.select(".browse-container").selectAll("*").remove();
         d3.select("#last-container").selectAll("*").remove();
+        d3.select("#minimap").selectAll("*").remove();
         d3.select("#status").selectAll("*").remove();
 
         clearInterval(Status.statusInterval);
+        if (Chain.headSubscription !== undefined) {
+            Chain.headSubscription.unsubscribe();
+        }
     }
-
-    // The chain is loaded at block 0 and then moved to the desired place
-    const chain = new Chain(roster, flash, genesisBlock);
+    if (routeSubscription !== undefined) {
+        routeSubscription.unsubscribe();
+    }
+    if (shownChain !== undefined && shownChain.minimap !== undefined) {
+        shownChain.minimap.stop();
+    }
+    router.showChain(hashBlock0 === defaultHashBlock0 ? undefined : hashBlock0);
+
+    // The chain is loaded at block 0 and then moved to the desired place. It
+    // is drawn with svg elements instead of a canvas when the url contains
+    // "?renderer=svg", and its blocks are placed by time with "?axis=time"
+    const params = new URLSearchParams(window.location.search);
+    const useSvg = params.get("renderer") === "svg";
+    const useTime = params.get("axis") === "time";
+    const chain = new Chain(repository, flash, genesisBlock, useSvg, useTime);
+    shownChain = chain;
+
+    // Changing the axis reloads the page, the link keeps what is shown
+    const timeAxis = document.getElementById("time-axis") as HTMLInputElement;
+    timeAxis.checked = useTime;
+    d3.select(timeAxis).on("change", () => {
+        const url = new URL(window.location.href);
+        if (timeAxis.checked) {
+            url.searchParams.set("axis", "time");
+        } else {
+            url.searchParams.delete("axis");
+        }
+        window.location.assign(url.toString());
+    });
 
     // The translation is done to the initialBlock
     Utils.translateOnChain(initialBlock.index, genesisBlock.index);
 
     setTimeout(async () => {
         await chain.init();
+        if (chain !== shownChain) {
+            // Another skipchain was selected meanwhile
+            chain.minimap.stop();
+        }
 
         // Fire a transform handler to load initial blocks
         chain.transformHandler(chain.lastTransform);
+
+        // Restore what the link shows, then follow the history
+        let shownRoute: Route = {};
+        const show = (route: Route) => {
+            showRoute(
+                route,
+                shownRoute,
+                genesisBlock,
+                initialBlock,
+                repository,
+                chain.blockClickedSubject,
+                block,
+                flash
+            );
+            shownRoute = route;
+        };
+        show(router.route);
+        routeSubscription = router.routeSubject.subscribe({ next: show });
     }, 3000);
 
     // The totalBlock utility class allows the browsing class to get the total
     // number of block in the chain. This class is stateful, it will keep each
     // time the last know block instead of browsing the entire chain each time.
-    const totalBlock = new TotalBlock(roster, initialBlock);
+    const totalBlock = new TotalBlock(repository, initialBlock);
 
     // Create the browsing instance, which is used by the detailBlock class when a
     // user wants to get the lifecycle of an instance.
-    const lifecycle = new Lifecycle(roster, flash, totalBlock, hashBlock0);
+    const lifecycle = new Lifecycle(repository, flash, totalBlock, hashBlock0);
 
     //Display status of nodes and statistics of the blockchain
-    const skipchainStatus = new Status(roster, initialBlock, flash);
+    const skipchainStatus = new Status(roster, repository, initialBlock, flash);
 
     // Set up the class that listens on blocks clicks and display their details
     // accordingly.
@@ -248,19 +389,119 @@ export function startColumbus(
         lifecycle,
         flash,
         chain.getNewBlocksSubject,
-        roster
+        roster,
+        repository,
+        router,
+        chain.renderer
     );
     block.startListen();
 
+    // The shortest path along the skiplinks from the selected block is shown
+    // below its details
+    const skiplinkPath = new SkiplinkPath(chain, flash);
+
+    // The hash, the transactions and the forward links of the selected block
+    // are verified
+    const blockVerifier = new BlockVerifier(chain, flash);
+
     // The blockchain properties are given to the search bar
-    searchBar(
-        roster,
+    const search = searchBar(
+        repository,
         flash,
         initialBlock,
         hashBlock0,
         chain.blockClickedSubject,
         block
     );
+
+    // The command palette (Ctrl-K) runs the searches and the actions of the
+    // page, the keyboard shortcuts move on the chain
+    const palette = new CommandPalette(search);
+    palette.add("Switch roster", () => UIkit.modal("#select-roster").show());
+    palette.add("Export the selected block", () => {
+        if (block.clickedBlock === null) {
+            flash.display(Flash.flashType.INFO, "Select a block first");
+            return;
+        }
+        block.exportBlock(block.clickedBlock);
+    });
+    palette.add("Audit a range of blocks", () =>
+        blockVerifier.openAudit(
+            block.clickedBlock === null ? undefined : block.clickedBlock.index
+        )
+    );
+    palette.add("Verify the chain from the genesis block", () => {
+        UIkit.modal("#audit-modal").show();
+        blockVerifier.verifyFromGenesis();
+    });
+    palette.add("Clear cache", () =>
+        document.getElementById("clear-cache").click()
+    );
+    const shortcuts = new Shortcuts(chain, flash, palette);
+}
+
+/**
+ * Helper function to show the block, the instruction and the instance query
+ * of a route
+ * @param route the route to show
+ * @param previous the route shown before, its instance query is not launched
+ * again
+ * @param genesisBlock the genesis block of the skipchain
+ * @param initialBlock the first block displayed by the chain
+ * @param repository the repository to get the blocks from
+ * @param blockClickedSubject the subject notified each time a block is clicked on
+ * @param block the Block instance displaying the details
+ * @param flash the flash class that handles the flash messages
+ */
+async function showRoute(
+    route: Route,
+    previous: Route,
+    genesisBlock: SkipBlock,
+    initialBlock: SkipBlock,
+    repository: BlockRepository,
+    blockClickedSubject: Subject<SkipBlock>,
+    block: Block,
+    flash: Flash
+) {
+    // Another skipchain is started from scratch
+    if ((route.skipchainID || defaultHashBlock0) !== hashBlock0) {
+        window.location.reload();
+        return;
+    }
+
+    if (
+        route.instanceID !== undefined &&
+        route.instanceID !== previous.instanceID
+    ) {
+        block.launchQuery(50, route.instanceID, false, true);
+    }
+
+    if (route.blockHash === undefined && route.blockIndex === undefined) {
+        return;
+    }
+    try {
+        const selected =
+            route.blockHash !== undefined
+                ? await repository.getBlock(Utils.hex2Bytes(route.blockHash))
+                : await repository.getBlockByIndex(
+                      genesisBlock.hash,
+                      route.blockIndex
+                  );
+
+        if (
+            block.clickedBlock === null ||
+            !block.clickedBlock.hash.equals(selected.hash)
+        ) {
+            await Utils.translateOnChain(selected.index, initialBlock.index);
+            blockClickedSubject.next(selected);
+        }
+        block.openInstruction(route.transaction, route.instruction);
+    } catch (error) {
+        flash.display(
+            Flash.flashType.ERROR,
+            `Unable to show the block of the link: ${error}`
+        );
+    }
 }
 
 function initIntro() {
@@ -0,0 +1,47 @@
+import * as d3 from "d3";
+
+import { DecodedBlock } from "./blockDecoder";
+import { Chain } from "./chain";
+import { ChainLayout } from "./chainLayout";
+
+/**
+ * Layout placing the blocks one after the other by index, with the same
+ * space between each of them.
+ *
+ * @export
+ * @class IndexLayout
+ * @implements {ChainLayout}
+ */
+export class IndexLayout implements ChainLayout {
+    init(genesis: DecodedBlock, last: DecodedBlock) {
+        // The positions only depend on the indexes
+    }
+
+    addBlock(block: DecodedBlock) {
+        // The positions only depend on the indexes
+    }
+
+    indexToX(index: number): number {
+        return index * Chain.unitBlockAndPaddingWidth;
+    }
+
+    xToIndex(x: number): number {
+        return x / Chain.unitBlockAndPaddingWidth;
+    }
+
+    idleBefore(index: number): number {
+        return 0;
+    }
+
+    createAxis(width: number): any {
+        const scale = d3
+            .scaleLinear()
+            .domain([this.xToIndex(0), this.xToIndex(width)])
+            .range([0, width]);
+
+        return d3
+            .axisBottom(scale)
+            .ticks(Chain.numBlocks)
+            .tickFormat(d3.format("d"));
+    }
+}
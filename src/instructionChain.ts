@@ -2,7 +2,7 @@ import { Instruction } from "@dedis/cothority/byzcoin";
 import { Roster } from "@dedis/cothority/network";
 import { SkipBlock } from "@dedis/cothority/skipchain";
 import * as d3 from "d3";
-import { Subject } from "rxjs";
+import { fromEvent, Subject } from "rxjs";
 import { Flash } from "./flash";
 import { Utils } from "./utils";
 import { debounceTime } from "rxjs/operators";
@@ -29,7 +29,8 @@ export class InstructionChain {
     gInfo: any;
 
     //main svg and block dimension
-    static readonly baseWidth = window.innerWidth; // à contrôler 1684
+    // The width follows the window
+    static baseWidth = window.innerWidth; // à contrôler 1684
     static readonly baseHeight = 240;
     static readonly blockHeight = 180;
     static readonly blockWidth = 300;
@@ -173,6 +174,20 @@ export class InstructionChain {
             });
         svg.call(zoom).on("dblclick.zoom", null);
 
+        // the view keeps the same instruction in its centre when the window is resized
+        const resizeSubscription = fromEvent(window, "resize")
+            .pipe(debounceTime(100))
+            .subscribe({
+                next: () => {
+                    // the instructions are not displayed anymore
+                    if (!document.body.contains(svg.node())) {
+                        resizeSubscription.unsubscribe();
+                        return;
+                    }
+                    this.resize(svg, zoom);
+                },
+            });
+
         // display first blocks
         for (
             this.totalLoaded = 0;
@@ -210,6 +225,37 @@ export class InstructionChain {
         });
     }
 
+    /**
+     * Update the width of the view and the number of displayed instructions
+     * to the width of the window.
+     *
+     * @param svg the main svg of the instructions
+     * @param zoom the zoom behavior of the svg
+     */
+    private resize(svg: any, zoom: any) {
+        const width = window.innerWidth;
+        const shift = (width - InstructionChain.baseWidth) / 2;
+
+        InstructionChain.baseWidth = width;
+        InstructionChain.numBlock = Math.floor(
+            width /
+                (InstructionChain.blockWidth + InstructionChain.blockPadding)
+        );
+        svg.attr("width", width);
+        zoom.extent([
+            [0, InstructionChain.blockStarty],
+            [width, InstructionChain.blockHeight],
+        ]);
+
+        // the new transform is notified by the zoom, so that the missing
+        // instructions are loaded
+        const { x, y, k } = this.lastTransform;
+        svg.call(
+            zoom.transform,
+            d3.zoomIdentity.translate(x + shift, y).scale(k)
+        );
+    }
+
     /**
      * Display the instruction blocks and the informations it should contain
      *
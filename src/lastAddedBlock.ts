@@ -1,10 +1,11 @@
-import { Roster } from "@dedis/cothority/network";
 import { SkipBlock } from "@dedis/cothority/skipchain";
-import { SkipchainRPC } from "@dedis/cothority/skipchain";
 import * as blockies from "blockies-ts";
 import * as d3 from "d3";
-import { Subject } from "rxjs";
-import { Chain } from "./chain";
+import { EMPTY, from, interval, Subject, Subscription } from "rxjs";
+import { catchError, exhaustMap } from "rxjs/operators";
+import { BlockColoring } from "./blockColoring";
+import { BlockDecoder } from "./blockDecoder";
+import { BlockRepository } from "./blockRepository";
 import { Flash } from "./flash";
 import { Utils } from "./utils";
 
@@ -19,30 +20,62 @@ export class LastAddedBlock {
     readonly lastBlockWidth = 200;
     readonly svgHeight = 200;
 
+    // Delay between two requests for new blocks when following the chain, in ms
+    static readonly pollInterval = 5000;
+
     // Flash is a utility class to display flash messages in the view
     flash: Flash;
 
+    // Gives the colour of the last block, as on the chain
+    coloring: BlockColoring;
+
     // The last added block of the chain
     lastBlock: SkipBlock;
 
+    // This subject is notified each time a new last block is found
+    headSubject = new Subject<SkipBlock>();
+
     svgLast: any;
 
-    constructor(flash: Flash) {
+    private blockClickedSubject: Subject<SkipBlock>;
+    private decoder: BlockDecoder;
+    // True while the polls fail, so that an outage is reported once
+    private pollFailing = false;
+
+    constructor(flash: Flash, coloring: BlockColoring) {
         this.flash = flash;
+        this.coloring = coloring;
 
         // Main SVG canvas that contains the last added block of the chain
         this.svgLast = d3
             .select("#last-container")
             .attr("height", this.svgHeight);
+
+        coloring.changedSubject.subscribe({
+            next: () => {
+                if (this.lastBlock !== undefined) {
+                    this.svgLast
+                        .select(
+                            `[id = "${this.lastBlock.hash.toString("hex")}"]`
+                        )
+                        .attr(
+                            "fill",
+                            coloring.color(this.decoder.get(this.lastBlock))
+                        );
+                }
+            },
+        });
     }
 
     async init(
-        roster: Roster,
+        repository: BlockRepository,
         initialBlock: SkipBlock,
         blockClickedSubject: Subject<SkipBlock>
     ) {
-        await new SkipchainRPC(roster)
-            .getLatestBlock(initialBlock.hash, false, true)
+        this.blockClickedSubject = blockClickedSubject;
+        this.decoder = repository.decoder;
+        await repository
+            .getLatestBlock(initialBlock.hash)
             .then((resp) => {
                 this.lastBlock = resp;
                 this.displayLastAddedBlock(
@@ -60,6 +93,58 @@ export class LastAddedBlock {
             );
     }
 
+    /**
+     * Poll the conodes for the last block of the chain, update the display
+     * when it changes and notify the headSubject. Only the first of
+     * consecutive failed polls is reported.
+     * @param repository the repository to get the blocks from
+     * @returns the subscription to cancel to stop following the chain
+     */
+    follow(repository: BlockRepository): Subscription {
+        return interval(LastAddedBlock.pollInterval)
+            .pipe(
+                // Skip the polls while the previous one is not answered
+                exhaustMap(() =>
+                    from(repository.getLatestBlock(this.lastBlock.hash)).pipe(
+                        catchError((e) => {
+                            if (!this.pollFailing) {
+                                this.pollFailing = true;
+                                this.flash.display(
+                                    Flash.flashType.ERROR,
+                                    `Cannot fetch latest block: ${e}`
+                                );
+                            }
+                            return EMPTY;
+                        })
+                    )
+                )
+            )
+            .subscribe({
+                next: (block) => {
+                    if (this.pollFailing) {
+                        this.pollFailing = false;
+                        this.flash.display(
+                            Flash.flashType.INFO,
+                            "The latest block can be fetched again"
+                        );
+                    }
+                    if (block.index <= this.lastBlock.index) {
+                        return;
+                    }
+
+                    this.lastBlock = block;
+                    this.svgLast.selectAll("*").remove();
+                    this.displayLastAddedBlock(
+                        block,
+                        this.svgLast,
+                        block.hash,
+                        this.blockClickedSubject
+                    );
+                    this.headSubject.next(block);
+                },
+            });
+    }
+
     /**
      * Display the last added block of the chain in the dedicated space
      * @param lastBlock the last added block of the chain
@@ -82,7 +167,7 @@ export class LastAddedBlock {
             .attr("x", 0)
             .attr("y", 20)
             .style("filter", "url(#drop-shadow)")
-            .attr("fill", Chain.getBlockColor(lastBlock))
+            .attr("fill", this.coloring.color(this.decoder.get(lastBlock)))
             .on("click", () => {
                 blockClickedSubject.next(lastBlock);
             })
@@ -218,7 +303,7 @@ export class LastAddedBlock {
             .append("text")
             .attr("x", "25%")
             .attr("y", "45%")
-            .text(Utils.getTransactionRatio(lastBlock)[0].toString()) // Number of validated transactions
+            .text(this.decoder.get(lastBlock).nbAccepted.toString()) // Number of validated transactions
             .attr("font-family", "Arial")
             .attr("font-size", "18px")
             .attr("font-weight", "bold")
@@ -251,7 +336,7 @@ export class LastAddedBlock {
             .append("text")
             .attr("x", "25%")
             .attr("y", "60%")
-            .text(Utils.getTransactionRatio(lastBlock)[1].toString()) // Number of rejected transactions
+            .text(this.decoder.get(lastBlock).nbRejected.toString()) // Number of rejected transactions
             .attr("font-family", "Arial")
             .attr("font-size", "18px")
             .attr("font-weight", "bold")
@@ -260,18 +345,13 @@ export class LastAddedBlock {
 
         /* Roster */
 
-        // List of participating conodes in the roster
-        const descList: string[] = [];
-        for (let i = 0; i < block.roster.list.length; i++) {
-            descList[i] = block.roster.list[i].description;
-        }
-
         // Roster group
-        // Tooltip for list of participating conodes in the roster
+        // Tooltip for list of participating conodes in the roster, as in the
+        // details of the blocks
         const roster = svgLast
             .append("g")
             .attr("class", "groster")
-            .attr("uk-tooltip", descList.join("<br/>"));
+            .attr("uk-tooltip", Utils.rosterTooltip(block.roster));
 
         // Adds the "Roster" text
         roster
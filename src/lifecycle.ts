@@ -1,24 +1,15 @@
-import { ByzCoinRPC, Instruction } from "@dedis/cothority/byzcoin";
-import { DataBody } from "@dedis/cothority/byzcoin/proto";
-import {
-    PaginateRequest,
-    PaginateResponse,
-} from "@dedis/cothority/byzcoin/proto/stream";
-import { Roster, WebSocketAdapter } from "@dedis/cothority/network";
-import { WebSocketConnection } from "@dedis/cothority/network";
-import { SkipBlock } from "@dedis/cothority/skipchain";
-import { Subject } from "rxjs";
-import { finalize, take } from "rxjs/operators";
-
+import { BlockRepository } from "./blockRepository";
 import { Flash } from "./flash";
+import { Query } from "./query";
+import { QueryJob } from "./queryJob";
 import { TotalBlock } from "./totalBlock";
 import { Utils } from "./utils";
 
 /**
- * Create browsing which will browse the blockchain from the
- * first or a selected block and gets the instructions that
- * contains the contractID given. It will notify through
- * Subjects:
+ * Create the browsings which will browse the blockchain from the
+ * first or a selected block and get the instructions that
+ * contain the contractID given. Each browsing is a QueryJob
+ * that notifies through Subjects:
  * 1) the hashes of the blocks and the instructions with
  * the contractID
  * 2) The percent of the progress,the number of blocks seen,
@@ -30,449 +21,95 @@ import { Utils } from "./utils";
  * @class Lifecycle
  */
 export class Lifecycle {
-    roster: Roster;
-    ws: WebSocketAdapter;
+    repository: BlockRepository;
 
     pageSize: number;
     numPages: number;
-    totatBlockNumber: number;
     totalBlocks: TotalBlock;
-    seenBlocks: number;
-    nbInstanceFound: number;
 
-    nextIDB: string;
-    contractID: string;
     firstBlockIDStart: string;
 
-    abort: boolean;
     flash: Flash;
 
     /**
      * Creates an instance of Browsing.
-     * @param {Roster} roster
+     * @param {BlockRepository} repository
      * @param {Flash} flash
      * @param {TotalBlock} totalBlock
      * @param {string} initialBlockHash
      * @memberof Browsing
      */
     constructor(
-        roster: Roster,
+        repository: BlockRepository,
         flash: Flash,
         totalBlock: TotalBlock,
         initialBlockHash: string
     ) {
-        this.roster = roster;
+        this.repository = repository;
 
         this.pageSize = 10;
         this.numPages = 1;
-        this.totatBlockNumber = -1;
         this.totalBlocks = totalBlock;
-        this.seenBlocks = 0;
-        this.nbInstanceFound = 0;
 
-        this.nextIDB = "";
-        this.contractID = "";
         this.firstBlockIDStart = initialBlockHash;
 
         this.flash = flash;
-        this.abort = false;
     }
+
     /**
-     * This method is the start of the browsing from the first or the selected block.
+     * This method starts a new browsing from the first or the selected block.
      * - browse from the first block if fromFirstBlock is true and direction is false,
-     * - browse previous block from firstBlockIDStart if direction is true and fromFirstBlock is false
-     * - browse next block from firstBlockIDStart if direction is false and fromFirstBlock is false
-     * It will (re)sets all the parameters needed to start a new browsing.
-     * It will return a tuple with two Subjects:
-     * 1) Subject of tuple with the blocks and instructions of the
-     * instruction given as parameter.
-     * 2) Subject of array of numbers corresponding of: the percent of
-     * the progress,the number of blocks seen, the totat number of blocks,
-     * the number of instance found: used to update the loading screen.
+     * - browse previous block from initHash if direction is true and fromFirstBlock is false
+     * - browse next block from initHash if direction is false and fromFirstBlock is false
+     * When browsing from the first block, the browsing starts at the
+     * beginning of the block range of the query.
+     * The browsing has its own counters and results, it does not interfere
+     * with the browsings started before.
      *
-     * @returns {[Subject<[SkipBlock[], Instruction[]]>, Subject<number[]>]}:
+     * @returns {QueryJob}: the running browsing, that can be paused, resumed
+     * and cancelled
      * @memberof Browsing
-     * @param instanceID
+     * @param query the instructions searched
      * @param maxNumberOfBlocks
      * @param initHash
      * @param direction
      * @param fromFirstBlock
      */
-    getInstructionSubject(
-        instanceID: string,
+    startQuery(
+        query: Query,
         maxNumberOfBlocks: number = -1,
         initHash: string,
         direction: boolean,
         fromFirstBlock: boolean
-    ): [Subject<[SkipBlock[], Instruction[]]>, Subject<number[]>] {
-        const self = this;
-
-        const subjectInstruction = new Subject<[SkipBlock[], Instruction[]]>();
-        const subjectProgress = new Subject<number[]>();
-
-        this.ws = undefined;
-
-        this.totalBlocks.getTotalBlock().subscribe({
-            next: (skipblock) => {
-                self.totatBlockNumber = skipblock.index;
-            },
-        });
-        this.seenBlocks = 0;
-        this.nbInstanceFound = 0;
-
-        this.nextIDB = "";
-
-        this.contractID = instanceID;
-
-        this.abort = false;
-
-        if (fromFirstBlock == true && direction == false) {
-            //browse from the first block
-            this.browse(
-                this.pageSize,
-                this.numPages,
-                this.firstBlockIDStart,
-                subjectInstruction,
-                subjectProgress,
-                [],
-                [],
-                maxNumberOfBlocks,
-                direction
-            );
-        } else {
-            //browse the previous or next instructions from the selected inital block
-            this.browse(
-                this.pageSize,
-                this.numPages,
-                initHash,
-                subjectInstruction,
-                subjectProgress,
-                [],
-                [],
-                maxNumberOfBlocks,
-                direction
-            );
-        }
-        return [subjectInstruction, subjectProgress];
-    }
-
-    /**
-     * This function is the core of the class: it will browse from firstBlockID
-     * until it receives an error. Then it will recusively browse from the error
-     * to the end with pageSize and numPages equal to 1. It will notify all the subjects.
-     *
-     * @private
-     * @param {number} pageSizeB : Number of blocks inside one page
-     * @param {number} numPagesB : Number of pages requested
-     * @param {string} firstBlockID : hash of the start of browsing
-     * @param {Subject<[SkipBlock[], Instruction[]]>} subjectInstruction : Subject
-     *                                            for the instruction
-     * @param {Subject<number[]>} subjectProgress : Subject for the loading
-     * @param {SkipBlock[]} skipBlocksSubject : Accumulator for the subjectInstruction
-     * @param {Instruction[]} instructionB : Accumulator for the subjectInstruction
-     * @param {number} maxNumberOfBlocks : Max number of blocks requested
-     * @param {boolean} direction : the direction of the query
-     * @memberof Browsing
-     */
-    private browse(
-        pageSizeB: number,
-        numPagesB: number,
-        firstBlockID: string,
-        subjectInstruction: Subject<[SkipBlock[], Instruction[]]>,
-        subjectProgress: Subject<number[]>,
-        skipBlocksSubject: SkipBlock[],
-        instructionB: Instruction[],
-        maxNumberOfBlocks: number,
-        direction: boolean
-    ) {
-        const subjectBrowse = new Subject<[number, SkipBlock]>();
-        const transactionFound = new Subject<number>();
-        let pageDone = 0;
-        subjectBrowse.subscribe({
-            complete: () => {
-                this.flash.display(
-                    Flash.flashType.INFO,
-                    `End of the browsing of the instance ID: ${this.contractID}`
-                );
-                subjectInstruction.next([skipBlocksSubject, instructionB]);
-            },
-
-            error: (data: PaginateResponse) => {
-                // tslint:disable-next-line
-                if (data.errorcode == 5) {
-                    // if errorcode is 5: too many blocks requested => rebrowse with less blocks
-                    this.ws = undefined;
-                    this.browse(
-                        1,
-                        1,
-                        this.nextIDB,
-                        subjectInstruction,
-                        subjectProgress,
-                        skipBlocksSubject,
-                        instructionB,
-                        maxNumberOfBlocks,
-                        direction
-                    );
-                } else {
-                    this.flash.display(
-                        Flash.flashType.ERROR,
-                        `error code ${data.errorcode} : ${data.errortext}`
-                    );
-                }
-            },
-
-            next: ([i, skipBlock]) => {
-                const body = DataBody.decode(skipBlock.payload);
-                body.txResults.forEach((transaction, _) => {
-                    transaction.clientTransaction.instructions.forEach(
-                        // tslint:disable-next-line
-                        (instruction, _) => {
-                            if (
-                                Utils.bytes2String(instruction.instanceID) ===
-                                this.contractID
-                            ) {
-                                this.nbInstanceFound++;
-
-                                if (
-                                    this.nbInstanceFound <= maxNumberOfBlocks &&
-                                    !this.abort
-                                ) {
-                                    skipBlocksSubject.push(skipBlock);
-                                    instructionB.push(instruction);
-
-                                    console.log(
-                                        "Instance found : ",
-                                        this.nbInstanceFound,
-                                        " out of ",
-                                        maxNumberOfBlocks
-                                    );
-                                }
-
-                                transactionFound.next(this.nbInstanceFound);
-                            }
-                        }
-                    );
-                });
-                if (i === pageSizeB) {
-                    pageDone++;
-                    if (pageDone >= numPagesB) {
-                        // Csondition to end the browsing
-                        if (
-                            (skipBlock.forwardLinks[0].to.length !== 0 ||
-                                skipBlock.backlinks[0].length != 0) &&
-                            !this.abort
-                        ) {
-                            this.nextIDB =
-                                direction != false
-                                    ? Utils.bytes2String(skipBlock.backlinks[0])
-                                    : Utils.bytes2String(
-                                          skipBlock.forwardLinks[0].to
-                                      );
-
-                            pageDone = 0;
-                            this.getNextBlocks(
-                                this.nextIDB,
-                                pageSizeB,
-                                numPagesB,
-                                subjectBrowse,
-                                subjectProgress,
-                                direction
-                            );
-                        } else {
-                            // complete all subjects at the end of the browsing
-                            subjectBrowse.complete();
-                            subjectProgress.complete();
-                            subjectInstruction.complete();
-                        }
-                    }
-                }
-            },
-        });
-        if (maxNumberOfBlocks > 0) {
-            transactionFound
-                .pipe(
-                    take(maxNumberOfBlocks),
-                    finalize(() => {
-                        this.abort = true;
-                    })
-                )
-                .subscribe();
-        }
-        this.getNextBlocks(
-            firstBlockID,
-            pageSizeB,
-            numPagesB,
-            subjectBrowse,
-            subjectProgress,
+    ): QueryJob {
+        const job = new QueryJob(
+            this.repository,
+            this.flash,
+            this.totalBlocks,
+            query,
+            maxNumberOfBlocks,
             direction
         );
-    }
-    /**
-     * Request the (pageSizeNB * numPagesNB) next blocks from nextID
-     * and notify the subjectBrowse
-     *
-     * @private
-     * @param {string} nextID
-     * @param {number} pageSizeNB
-     * @param {number} numPagesNB
-     * @param {Subject<[number, SkipBlock]>} subjectBrowse
-     * @param {Subject<number[]>} subjectProgress
-     * @param {boolean} direction
-     * @returns : only if an error occur
-     * @memberof Browsing
-     */
-    private getNextBlocks(
-        nextID: string,
-        pageSizeNB: number,
-        numPagesNB: number,
-        subjectBrowse: Subject<[number, SkipBlock]>,
-        subjectProgress: Subject<number[]>,
-        direction: boolean
-    ) {
-        let bid: Buffer;
-        try {
-            bid = Utils.hex2Bytes(nextID);
-        } catch (error) {
-            this.flash.display(
-                Flash.flashType.ERROR,
-                `failed to parse the block ID: ${error}`
-            );
-            return;
-        }
-        try {
-            // tslint:disable-next-line
-            var conn = new WebSocketConnection(
-                this.roster.list[0].getWebSocketAddress(),
-                ByzCoinRPC.serviceName
-            );
-        } catch (error) {
-            this.abort = true;
-            this.flash.display(
-                Flash.flashType.ERROR,
-                `error creating conn: ${error}`
-            );
-            return;
-        }
-
-        if (this.ws !== undefined) {
-            const message = new PaginateRequest({
-                startid: bid,
-
-                pagesize: pageSizeNB, // tslint:disable-next-line
-                numpages: numPagesNB,
-                backward: direction,
-            });
-
-            const messageByte = Buffer.from(
-                message.$type.encode(message).finish()
-            );
-            this.ws.send(messageByte); // fetch next block
-        } else {
-            // create a new websocket connection to be faster for the next requests
-            conn.sendStream<PaginateResponse>( // fetch next block
-                new PaginateRequest({
-                    startid: bid,
-
-                    pagesize: pageSizeNB, // tslint:disable-next-line
-                    numpages: numPagesNB,
-                    backward: direction,
-                }),
-                PaginateResponse
-            ).subscribe({
-                complete: () => {
-                    this.flash.display(Flash.flashType.INFO, "closed");
-                },
-                error: (err: Error) => {
-                    this.flash.display(Flash.flashType.ERROR, `error: ${err}`);
-                    this.ws = undefined;
-                },
-                // ws callback "onMessage":
-                next: ([data, ws]) => {
-                    const ret = this.handlePageResponse(
-                        data,
-                        ws,
-                        subjectBrowse,
-                        subjectProgress
-                    );
-                    if (ret === 1) {
-                        subjectBrowse.error(data);
-                    }
-                },
-            });
-        }
-    }
-
-    /**
-     * Handle the PaginateResponse of the PaginateRequest
-     * to split the blocks and notify the subjectBrowse
-     * of each block. It also notify the progress
-     * to the subjectProgress
-     *
-     * @private
-     * @param {PaginateResponse} data
-     * @param {WebSocketAdapter} localws
-     * @param {Subject<[number, SkipBlock]>} subjectBrowse
-     * @param {Subject<number[]>} subjectProgress
-     * @returns
-     * @memberof Browsing
-     */
-    private handlePageResponse(
-        data: PaginateResponse,
-        localws: WebSocketAdapter,
-        subjectBrowse: Subject<[number, SkipBlock]>,
-        subjectProgress: Subject<number[]>
-    ) {
-        // tslint:disable-next-line
-        if (data.errorcode != 0) {
-            return 1;
-        }
-        // Update the websocket to be faster for the next requests
-        if (localws !== undefined) {
-            this.ws = localws;
-        }
-        let runCount = 0;
-        for (const block of data.blocks) {
-            this.seenBlocks++;
-            this.seenBlocksNotify(this.seenBlocks, subjectProgress);
-            runCount++;
-            subjectBrowse.next([runCount, block]);
-        }
-        return 0;
-    }
 
-    /**
-     * Notify with the different numbers (the percent of
-     * the progress,the number of blocks seen, the totat number of blocks,
-     * the number of instance found: used to update the loading screen)
-     * to the subjectProgress. It will only notify 100 times for each percent
-     * thanks to a blackmagic condition
-     * (i % ~~(0.01 * this.totatBlockNumber) == 0)
-     *
-     * @private
-     * @param {number} i : the number of block seen
-     * @param {Subject<number[]>} subjectProgress
-     * @memberof Browsing
-     */
-    private seenBlocksNotify(i: number, subjectProgress: Subject<number[]>) {
         if (
-            this.totatBlockNumber > 0 && // tslint:disable-next-line
-            i % ~~(0.01 * this.totatBlockNumber) == 0
+            fromFirstBlock === true &&
+            direction === false &&
+            query.fromIndex > 0
         ) {
-            // tslint:disable-next-line
-            const percent: number = ~~((i / this.totatBlockNumber) * 100);
-            subjectProgress.next([
-                percent,
-                this.seenBlocks,
-                this.totatBlockNumber,
-                this.nbInstanceFound,
-            ]);
-        } else if (this.totatBlockNumber < 0) {
-            subjectProgress.next([
-                0,
-                this.seenBlocks,
-                this.totatBlockNumber,
-                this.nbInstanceFound,
-            ]);
+            // browse from the first block of the range
+            job.startAt(
+                Utils.hex2Bytes(this.firstBlockIDStart),
+                query.fromIndex,
+                this.pageSize,
+                this.numPages
+            );
+        } else if (fromFirstBlock === true && direction === false) {
+            // browse from the first block
+            job.start(this.firstBlockIDStart, this.pageSize, this.numPages);
+        } else {
+            // browse the previous or next instructions from the selected inital block
+            job.start(initHash, this.pageSize, this.numPages);
         }
+        return job;
     }
 }
@@ -0,0 +1,323 @@
+import { SkipBlock } from "@dedis/cothority/skipchain";
+import * as d3 from "d3";
+import { Subject, Subscription } from "rxjs";
+
+import { BlockRepository } from "./blockRepository";
+import { Chain } from "./chain";
+import { Flash } from "./flash";
+import { LastAddedBlock } from "./lastAddedBlock";
+import { Utils } from "./utils";
+
+/**
+ * Strip below the chain that covers the whole chain, from the genesis block
+ * to the last added block. It shows an overview of the activity along the
+ * chain and a rectangle over the blocks currently in view. Clicking or
+ * dragging on the strip moves the view anywhere in the chain.
+ *
+ * The activity only uses the blocks that are already known: the ones loaded
+ * by the chain and a few blocks fetched at regular intervals in the
+ * background. The minimap stops when its chain is replaced.
+ *
+ * @export
+ * @class Minimap
+ */
+export class Minimap {
+    static readonly height = 40;
+    // Width of the columns of the activity overview, in pixels
+    static readonly columnWidth = 3;
+    // Number of blocks fetched along the chain for the activity overview
+    static readonly nbSamples = 64;
+    // Number of blocks loaded by the chain whose activity is kept, the
+    // oldest ones are forgotten first
+    static readonly maxKnownBlocks = 20000;
+    // Minimum width of the rectangle of the view, in pixels
+    static readonly minViewportWidth = 4;
+
+    repository: BlockRepository;
+    flash: Flash;
+
+    // Index of the last block of the chain, extended with the new blocks
+    lastIndex: number;
+
+    private readonly svg: any;
+    private readonly gactivity: any;
+    private readonly viewport: any;
+    // Number of transactions of the blocks loaded by the chain and of the
+    // samples, by index
+    private readonly activity = new Map<number, number>();
+    private readonly samples = new Map<number, number>();
+    private transform: { x: number; y: number; k: number };
+    private drawScheduled = false;
+
+    // Cancelled when the minimap stops
+    private readonly subscriptions: Subscription[] = [];
+    private readonly onResize = () => this.scheduleDraw();
+    private stopped = false;
+
+    /**
+     * Creates an instance of Minimap and starts fetching the samples of the
+     * activity.
+     * @param {BlockRepository} repository
+     * @param {Flash} flash
+     * @param {SkipBlock} genesisBlock
+     * @param {LastAddedBlock} lastAddedBlock : gives the end of the chain
+     * @param {Subject<SkipBlock[]>} newBlocksSubject : notified with the
+     * blocks loaded by the chain
+     * @param {Subject<unknown>} transformSubject : notified when the view is
+     * dragged and zoomed in-out
+     * @param {{ x: number; y: number; k: number }} transform : the current
+     * view of the chain
+     * @memberof Minimap
+     */
+    constructor(
+        repository: BlockRepository,
+        flash: Flash,
+        genesisBlock: SkipBlock,
+        lastAddedBlock: LastAddedBlock,
+        newBlocksSubject: Subject<SkipBlock[]>,
+        transformSubject: Subject<unknown>,
+        transform: { x: number; y: number; k: number }
+    ) {
+        this.repository = repository;
+        this.flash = flash;
+        this.lastIndex =
+            lastAddedBlock.lastBlock !== undefined
+                ? lastAddedBlock.lastBlock.index
+                : genesisBlock.index;
+        this.transform = transform;
+
+        this.svg = d3.select("#minimap").attr("height", Minimap.height);
+        this.svg.selectAll("*").remove();
+        this.svg
+            .append("line")
+            .attr("class", "minimap-axis")
+            .attr("x1", 0)
+            .attr("x2", "100%")
+            .attr("y1", Minimap.height - 0.5)
+            .attr("y2", Minimap.height - 0.5);
+        this.gactivity = this.svg.append("g");
+        this.viewport = this.svg
+            .append("rect")
+            .attr("class", "minimap-viewport")
+            .attr("y", 0.5)
+            .attr("height", Minimap.height - 1);
+
+        const self = this;
+        const navigate = function () {
+            self.navigate(d3.mouse(this)[0]);
+        };
+        this.svg.call(d3.drag().on("start", navigate).on("drag", navigate));
+
+        this.subscriptions.push(
+            newBlocksSubject.subscribe({
+                next: (blocks) => {
+                    blocks.forEach((block) => this.addBlock(block));
+                    this.scheduleDraw();
+                },
+            }),
+            lastAddedBlock.headSubject.subscribe({
+                next: (head) => {
+                    this.lastIndex = Math.max(this.lastIndex, head.index);
+                    this.addBlock(head);
+                    this.scheduleDraw();
+                },
+            }),
+            transformSubject.subscribe({
+                next: (t: any) => {
+                    this.transform = t;
+                    this.drawViewport();
+                },
+            })
+        );
+        window.addEventListener("resize", this.onResize);
+
+        this.scheduleDraw();
+        this.sample(genesisBlock);
+    }
+
+    /**
+     * Stop following the chain and fetching the samples. The strip stays as
+     * it is.
+     *
+     * @memberof Minimap
+     */
+    stop() {
+        this.stopped = true;
+        this.subscriptions.forEach((s) => s.unsubscribe());
+        this.subscriptions.length = 0;
+        window.removeEventListener("resize", this.onResize);
+    }
+
+    /**
+     * Helper: move the view so that it is centred on the block under a
+     * position of the strip, keeping the current zoom.
+     * @param x position on the strip, in pixels
+     */
+    private navigate(x: number) {
+        const width = this.svg.node().getBoundingClientRect().width;
+        const index = Math.round(
+            Math.min(Math.max(x / width, 0), 1) * this.lastIndex
+        );
+
+        const chainWidth = parseInt(
+            d3.select("#svg-container").style("width"),
+            10
+        );
+        const k = this.transform.k;
+        const newTransform = d3.zoomIdentity
+            .translate(
+                chainWidth / 2 -
+                    (Chain.layout.indexToX(index) +
+                        Chain.unitBlockAndPaddingWidth / 2) *
+                        k,
+                0
+            )
+            .scale(k);
+
+        d3.select("#svg-container").call(Chain.zoom.transform, newTransform);
+    }
+
+    /**
+     * Helper: record the activity of a block loaded by the chain.
+     * @param block
+     */
+    private addBlock(block: SkipBlock) {
+        this.activity.delete(block.index);
+        this.activity.set(
+            block.index,
+            this.repository.decoder.get(block).nbTransactions
+        );
+
+        // Forget the least recently loaded blocks
+        while (this.activity.size > Minimap.maxKnownBlocks) {
+            this.activity.delete(this.activity.keys().next().value);
+        }
+    }
+
+    /**
+     * Helper: fetch blocks at regular intervals along the chain, one after
+     * the other so that the loading of the chain is not slowed down.
+     * @param genesisBlock
+     */
+    private async sample(genesisBlock: SkipBlock) {
+        const step = Math.max(1, Math.ceil(this.lastIndex / Minimap.nbSamples));
+        for (let index = 0; index <= this.lastIndex; index += step) {
+            if (this.stopped) {
+                return;
+            }
+            if (this.activity.has(index)) {
+                continue;
+            }
+
+            try {
+                const block = await this.repository.getBlockByIndex(
+                    genesisBlock.hash,
+                    index
+                );
+                this.samples.set(
+                    index,
+                    this.repository.decoder.get(block).nbTransactions
+                );
+                this.scheduleDraw();
+            } catch (e) {
+                if (this.stopped) {
+                    return;
+                }
+                this.flash.display(
+                    Flash.flashType.WARNING,
+                    `Cannot load the activity of the chain: ${e}`
+                );
+                return;
+            }
+        }
+    }
+
+    /**
+     * Helper: draw the strip at the next frame, once for all the changes
+     * until then.
+     */
+    private scheduleDraw() {
+        if (this.drawScheduled || this.stopped) {
+            return;
+        }
+
+        this.drawScheduled = true;
+        window.requestAnimationFrame(() => {
+            this.drawScheduled = false;
+            this.drawActivity();
+            this.drawViewport();
+        });
+    }
+
+    /**
+     * Helper: draw a column for each range of blocks, as high as the average
+     * number of transactions of its known blocks. The ranges without known
+     * blocks are left empty.
+     */
+    private drawActivity() {
+        const width = this.svg.node().getBoundingClientRect().width;
+        const nbColumns = Math.max(1, Math.floor(width / Minimap.columnWidth));
+
+        const sums = new Array<number>(nbColumns).fill(0);
+        const counts = new Array<number>(nbColumns).fill(0);
+        const add = (nbTransactions: number, index: number) => {
+            const column = Math.min(
+                nbColumns - 1,
+                Math.floor((index / (this.lastIndex + 1)) * nbColumns)
+            );
+            sums[column] += nbTransactions;
+            counts[column]++;
+        };
+        this.activity.forEach(add);
+        this.samples.forEach((nbTransactions, index) => {
+            if (!this.activity.has(index)) {
+                add(nbTransactions, index);
+            }
+        });
+
+        const columns = [];
+        for (let i = 0; i < nbColumns; i++) {
+            if (counts[i] > 0) {
+                columns.push({ column: i, average: sums[i] / counts[i] });
+            }
+        }
+        const max = Math.max(1, ...columns.map((c) => c.average));
+
+        this.gactivity
+            .selectAll("rect")
+            .data(columns)
+            .join("rect")
+            .attr("x", (c: any) => c.column * Minimap.columnWidth)
+            .attr("width", Minimap.columnWidth - 1)
+            .attr("y", (c: any) => Minimap.height * (1 - c.average / max))
+            .attr("height", (c: any) =>
+                Math.max(1, (Minimap.height * c.average) / max)
+            )
+            .attr(
+                "fill",
+                `rgb(${Chain.blockColor.r}, ${Chain.blockColor.v}, ${Chain.blockColor.b})`
+            );
+    }
+
+    /**
+     * Helper: move the rectangle of the view over the visible blocks.
+     */
+    private drawViewport() {
+        const width = this.svg.node().getBoundingClientRect().width;
+        const chainWidth = parseInt(
+            d3.select("#svg-container").style("width"),
+            10
+        );
+        const bounds = Utils.transformToChainIndexes(
+            this.transform,
+            chainWidth
+        );
+
+        const scale = width / (this.lastIndex + 1);
+        const left = Math.min(bounds.left, this.lastIndex + 1) * scale;
+        const right = Math.min(bounds.right, this.lastIndex + 1) * scale;
+        this.viewport
+            .attr("x", Math.min(left, width - Minimap.minViewportWidth))
+            .attr("width", Math.max(Minimap.minViewportWidth, right - left));
+    }
+}
@@ -0,0 +1,351 @@
+import { SkipBlock } from "@dedis/cothority/skipchain";
+import * as d3 from "d3";
+
+import { BlockRepository, PaginateError } from "./blockRepository";
+import { BlockVerifier } from "./blockVerifier";
+import { Chain } from "./chain";
+import { Flash } from "./flash";
+
+/**
+ * Signatures of a node over a range of blocks.
+ */
+export interface NodeParticipation {
+    description: string;
+    address: string;
+    // Forward links the node could sign, i.e. of the blocks whose roster has
+    // the node
+    rounds: number;
+    signed: number;
+    // Indexes of the blocks with a forward link the node did not sign
+    missed: number[];
+}
+
+/**
+ * Panel of the status showing which nodes sign the blocks. The masks of the
+ * collective signatures of the forward links tell which nodes of the roster
+ * signed: a node can be up but left out of the consensus.
+ *
+ * For a range of blocks, the panel shows the signing rate of each node, a
+ * timeline of the missed signatures and the nodes that are often excluded.
+ *
+ * @export
+ * @class Participation
+ */
+export class Participation {
+    // Number of blocks of the range shown first
+    static readonly defaultRange = 1000;
+    // Maximum number of blocks of a range
+    static readonly maxRange = 10000;
+    // Nodes signing a smaller share of the links are often excluded
+    static readonly excludedRate = 0.9;
+    static readonly timelineWidth = 600;
+    static readonly rowHeight = 16;
+    static readonly labelWidth = 120;
+
+    repository: BlockRepository;
+    flash: Flash;
+    // Hash of the genesis block of the chain
+    genesis: Buffer;
+
+    private readonly container: d3.Selection<
+        HTMLDivElement,
+        unknown,
+        HTMLElement,
+        any
+    >;
+    // Incremented by each update, so that an older one is dropped
+    private generation = 0;
+
+    /**
+     * Creates an instance of Participation and computes the participation
+     * over the blocks before the last one.
+     * @param {d3.Selection} parent : the element of the status containing the
+     * panel
+     * @param {BlockRepository} repository
+     * @param {Flash} flash
+     * @param {SkipBlock} lastBlock : the last block of the default range
+     * @memberof Participation
+     */
+    constructor(
+        parent: d3.Selection<HTMLDivElement, unknown, HTMLElement, any>,
+        repository: BlockRepository,
+        flash: Flash,
+        lastBlock: SkipBlock
+    ) {
+        this.repository = repository;
+        this.flash = flash;
+        this.genesis =
+            lastBlock.index === 0 ? lastBlock.hash : lastBlock.genesis;
+
+        const panel = parent.append("div").attr("class", "participation");
+        panel
+            .append("div")
+            .attr("class", "uk-card-header")
+            .attr("style", "padding: 0px 0px")
+            .text("Signing participation of the nodes")
+            .attr(
+                "uk-tooltip",
+                "Nodes that signed the forward links of the blocks, read from the masks of the collective signatures"
+            );
+
+        const form = panel.append("p");
+        form.append("span").text("From block ");
+        const fromInput = form
+            .append("input")
+            .attr("class", "uk-input uk-form-small uk-form-width-small")
+            .attr("type", "number")
+            .attr("min", 0)
+            .property(
+                "value",
+                Math.max(lastBlock.index - Participation.defaultRange + 1, 0)
+            );
+        form.append("span").text(" to block ");
+        const toInput = form
+            .append("input")
+            .attr("class", "uk-input uk-form-small uk-form-width-small")
+            .attr("type", "number")
+            .attr("min", 0)
+            .property("value", lastBlock.index);
+        form.append("button")
+            .attr("class", "uk-button uk-button-default uk-button-small")
+            .text("Update")
+            .on("click", () => {
+                this.update(
+                    parseInt(fromInput.property("value"), 10),
+                    parseInt(toInput.property("value"), 10)
+                );
+            });
+
+        this.container = panel.append("div");
+        this.update(parseInt(fromInput.property("value"), 10), lastBlock.index);
+    }
+
+    /**
+     * Count the forward links signed by each node of the rosters of blocks.
+     *
+     * @static
+     * @param {SkipBlock[]} blocks
+     * @returns {Map<string, NodeParticipation>} the participation of the
+     * nodes by public key, in hex
+     * @memberof Participation
+     */
+    static count(blocks: SkipBlock[]): Map<string, NodeParticipation> {
+        const nodes = new Map<string, NodeParticipation>();
+        for (const block of blocks) {
+            for (const link of block.forwardLinks) {
+                const signers = BlockVerifier.signers(block, link);
+                block.roster.list.forEach((node, i) => {
+                    const key = node.public.toString("hex");
+                    if (!nodes.has(key)) {
+                        nodes.set(key, {
+                            address: node.address,
+                            description: node.description,
+                            missed: [],
+                            rounds: 0,
+                            signed: 0,
+                        });
+                    }
+
+                    const participation = nodes.get(key);
+                    participation.rounds++;
+                    if (signers[i]) {
+                        participation.signed++;
+                    } else if (
+                        participation.missed[
+                            participation.missed.length - 1
+                        ] !== block.index
+                    ) {
+                        participation.missed.push(block.index);
+                    }
+                });
+            }
+        }
+        return nodes;
+    }
+
+    /**
+     * Compute and show the participation of the nodes over a range of
+     * blocks.
+     *
+     * @param {number} from : index of the first block
+     * @param {number} to : index of the last block
+     * @memberof Participation
+     */
+    async update(from: number, to: number) {
+        if (isNaN(from) || isNaN(to) || from < 0 || from > to) {
+            this.flash.display(
+                Flash.flashType.WARNING,
+                "The range of the participation is not valid"
+            );
+            return;
+        }
+        if (to - from + 1 > Participation.maxRange) {
+            this.flash.display(
+                Flash.flashType.WARNING,
+                `The participation is computed over at most ${Participation.maxRange} blocks`
+            );
+            return;
+        }
+
+        const generation = ++this.generation;
+        this.container.text("Loading the blocks…");
+        const blocks: SkipBlock[] = [];
+        try {
+            const first = await this.repository.getBlockByIndex(
+                this.genesis,
+                from
+            );
+            try {
+                await this.repository
+                    .getRange(first.hash, to - from + 1, Chain.pageSize)
+                    .forEach((page) => blocks.push(...page));
+            } catch (e) {
+                // The nodes can refuse a page, the participation is then
+                // computed over the blocks received
+                if (!(e instanceof PaginateError)) {
+                    throw e;
+                }
+            }
+        } catch (e) {
+            // A newer update already shows its own range
+            if (generation !== this.generation) {
+                return;
+            }
+            this.container.text("");
+            this.flash.display(
+                Flash.flashType.ERROR,
+                `Unable to compute the participation: ${e}`
+            );
+            return;
+        }
+
+        if (generation !== this.generation) {
+            return;
+        }
+        this.draw(from, to, Array.from(Participation.count(blocks).values()));
+        if (blocks.length < to - from + 1) {
+            const note = `Only ${blocks.length} of the ${
+                to - from + 1
+            } blocks of the range could be loaded.`;
+            this.container.insert("p", ":first-child").text(note);
+            this.flash.display(Flash.flashType.WARNING, note);
+        }
+    }
+
+    /**
+     * Helper: show the rate of each node, the timeline of the missed
+     * signatures and the nodes often excluded.
+     * @param from index of the first block of the range
+     * @param to index of the last block of the range
+     * @param nodes the participation of each node
+     */
+    private draw(from: number, to: number, nodes: NodeParticipation[]) {
+        this.container.text("");
+        if (nodes.length === 0) {
+            this.container
+                .append("p")
+                .text("The blocks of the range have no forward link yet.");
+            return;
+        }
+
+        const rate = (node: NodeParticipation) => node.signed / node.rounds;
+        const percent = (node: NodeParticipation) =>
+            `${Math.round(rate(node) * 100)}%`;
+
+        // Often excluded nodes
+        const excluded = nodes
+            .filter((node) => rate(node) < Participation.excludedRate)
+            .sort((a, b) => rate(a) - rate(b));
+        const summary = this.container.append("p");
+        if (excluded.length === 0) {
+            summary.text(
+                `Every node signed at least ${
+                    Participation.excludedRate * 100
+                }% of the forward links.`
+            );
+        } else {
+            summary.text("Often excluded: ");
+            excluded.forEach((node) =>
+                summary
+                    .append("span")
+                    .attr("class", "chart-badge often-excluded")
+                    .attr("uk-tooltip", node.address)
+                    .text(`${node.description} (${percent(node)})`)
+            );
+        }
+
+        // Signing rates
+        const table = this.container
+            .append("table")
+            .attr("class", "uk-table uk-table-small uk-table-divider");
+        const header = table.append("thead").append("tr");
+        ["Name", "Signed", "Rate", "Blocks missed"].forEach((title) =>
+            header.append("th").text(title)
+        );
+        const body = table.append("tbody");
+        nodes.forEach((node) => {
+            const row = body
+                .append("tr")
+                .classed(
+                    "often-excluded",
+                    rate(node) < Participation.excludedRate
+                );
+            row.append("td")
+                .text(node.description)
+                .attr("uk-tooltip", node.address);
+            row.append("td").text(`${node.signed}/${node.rounds}`);
+            row.append("td").text(percent(node));
+            row.append("td").text(node.missed.length);
+        });
+
+        // Timeline of the missed signatures, a row per node
+        const width = Participation.timelineWidth;
+        const x = d3
+            .scaleLinear()
+            .domain([from, to + 1])
+            .range([0, width]);
+        const timeline = this.container
+            .append("svg")
+            .attr("class", "participation-timeline")
+            .attr("width", Participation.labelWidth + width)
+            .attr("height", Participation.rowHeight * nodes.length + 20);
+        nodes.forEach((node, i) => {
+            const row = timeline
+                .append("g")
+                .attr(
+                    "transform",
+                    `translate(0, ${i * Participation.rowHeight})`
+                );
+            row.append("text")
+                .attr("y", Participation.rowHeight - 4)
+                .text(node.description);
+
+            const line = row
+                .append("g")
+                .attr("transform", `translate(${Participation.labelWidth}, 0)`);
+            line.append("rect")
+                .attr("class", "participation-row")
+                .attr("width", width)
+                .attr("height", Participation.rowHeight - 2);
+            line.selectAll("rect.missed-signature")
+                .data(node.missed)
+                .enter()
+                .append("rect")
+                .attr("class", "missed-signature")
+                .attr("x", (index) => x(index))
+                .attr("width", Math.max(x(from + 1) - x(from), 1))
+                .attr("height", Participation.rowHeight - 2)
+                .append("title")
+                .text((index) => `Block ${index}`);
+        });
+        timeline
+            .append("g")
+            .attr(
+                "transform",
+                `translate(${Participation.labelWidth}, ${
+                    Participation.rowHeight * nodes.length
+                })`
+            )
+            .call(d3.axisBottom(x).ticks(6).tickFormat(d3.format("d")));
+    }
+}
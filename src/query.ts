@@ -0,0 +1,328 @@
+import { Instruction } from "@dedis/cothority/byzcoin";
+
+import { BlockDecoder, DecodedBlock } from "./blockDecoder";
+
+/**
+ * Error returned when a query cannot be parsed. It points to the failing
+ * token of the query.
+ *
+ * @export
+ * @class QuerySyntaxError
+ */
+export class QuerySyntaxError extends Error {
+    // The failing token and its position in the query: [start, end[
+    token: string;
+    start: number;
+    end: number;
+
+    constructor(reason: string, token: string, start: number) {
+        super(`${reason} in "${token}" at column ${start + 1}`);
+        this.token = token;
+        this.start = start;
+        this.end = start + token.length;
+    }
+}
+
+/**
+ * Query on the instructions of the chain, written as space separated
+ * field:value tokens, for example
+ * "contract:coin action:invoke block:1000..2000 accepted:false".
+ *
+ * An instruction matches when it matches every field. A field given several
+ * times matches any of its values. The fields are:
+ * - contract: the contract of the instruction
+ * - action: spawn, invoke or delete
+ * - signer: an identity that signed the instruction, e.g. ed25519:…, a
+ * prefix is enough
+ * - instance: the instance ID, in hex
+ * - block: the index of the block, either a single index or a range like
+ * 1000..2000, 1000.. or ..2000
+ * - accepted: true or false, whether the transaction was accepted
+ *
+ * @export
+ * @class Query
+ */
+export class Query {
+    static readonly fields = [
+        "contract",
+        "action",
+        "signer",
+        "instance",
+        "block",
+        "accepted",
+    ];
+    static readonly actions = new Map([
+        ["spawn", Instruction.typeSpawn],
+        ["invoke", Instruction.typeInvoke],
+        ["delete", Instruction.typeDelete],
+    ]);
+
+    readonly text: string;
+
+    contracts: string[] = [];
+    actions: number[] = [];
+    signers: string[] = [];
+    instances: string[] = [];
+    // Range of the block indexes, included, undefined when not bounded
+    fromIndex: number;
+    toIndex: number;
+    accepted: boolean;
+
+    /**
+     * Creates an empty instance of Query, matching every instruction.
+     * @param {string} text : the text of the query
+     * @memberof Query
+     */
+    constructor(text: string) {
+        this.text = text;
+    }
+
+    /**
+     * Parse a query.
+     *
+     * @static
+     * @param {string} text
+     * @returns {Query}
+     * @throws {QuerySyntaxError} if a token is not valid
+     * @memberof Query
+     */
+    static parse(text: string): Query {
+        const query = new Query(text.trim());
+
+        const tokens = Array.from(text.matchAll(/\S+/g));
+        for (const token of tokens) {
+            query.add(token[0], token.index);
+        }
+
+        if (tokens.length === 0) {
+            throw new QuerySyntaxError("empty query", "", 0);
+        }
+        return query;
+    }
+
+    /**
+     * Create the query matching the instructions of an instance.
+     *
+     * @static
+     * @param {string} instanceID : the instance ID in hex
+     * @returns {Query}
+     * @memberof Query
+     */
+    static forInstance(instanceID: string): Query {
+        const query = new Query(`instance:${instanceID}`);
+        query.instances.push(instanceID);
+        return query;
+    }
+
+    /**
+     * Check if a text starts like a query, i.e. with a known field.
+     *
+     * @static
+     * @param {string} text
+     * @returns {boolean}
+     * @memberof Query
+     */
+    static looksLike(text: string): boolean {
+        const field = text.trim().split(":")[0];
+        return Query.fields.includes(field);
+    }
+
+    /**
+     * Check if the query only looks for the instructions of an instance.
+     *
+     * @readonly
+     * @type {boolean}
+     * @memberof Query
+     */
+    get isInstanceQuery(): boolean {
+        return (
+            this.instances.length === 1 &&
+            this.contracts.length === 0 &&
+            this.actions.length === 0 &&
+            this.signers.length === 0 &&
+            this.fromIndex === undefined &&
+            this.toIndex === undefined &&
+            this.accepted === undefined
+        );
+    }
+
+    /**
+     * Check, from the summary of a block, if some of its instructions can
+     * match. The blocks that cannot match are not decoded.
+     *
+     * @param {DecodedBlock} block
+     * @returns {boolean}
+     * @memberof Query
+     */
+    mayMatch(block: DecodedBlock): boolean {
+        if (
+            (this.fromIndex !== undefined && block.index < this.fromIndex) ||
+            (this.toIndex !== undefined && block.index > this.toIndex)
+        ) {
+            return false;
+        }
+        if (this.accepted === true && block.nbAccepted === 0) {
+            return false;
+        }
+        if (this.accepted === false && block.nbRejected === 0) {
+            return false;
+        }
+        return (
+            this.instances.length === 0 ||
+            this.instances.some((id) => block.instanceIDs.includes(id))
+        );
+    }
+
+    /**
+     * Check if an instruction matches the query.
+     *
+     * @param {Instruction} instruction
+     * @param {boolean} accepted : if the transaction was accepted
+     * @returns {boolean}
+     * @memberof Query
+     */
+    matches(instruction: Instruction, accepted: boolean): boolean {
+        if (this.accepted !== undefined && this.accepted !== accepted) {
+            return false;
+        }
+        if (
+            this.instances.length > 0 &&
+            !this.instances.includes(instruction.instanceID.toString("hex"))
+        ) {
+            return false;
+        }
+        if (
+            this.actions.length > 0 &&
+            !this.actions.includes(instruction.type)
+        ) {
+            return false;
+        }
+        if (
+            this.contracts.length > 0 &&
+            !this.contracts.includes(BlockDecoder.contractID(instruction))
+        ) {
+            return false;
+        }
+        if (this.signers.length > 0) {
+            const identities = instruction.signerIdentities.map((id) =>
+                id.toString()
+            );
+            return this.signers.some((signer) =>
+                identities.some((id) => id.startsWith(signer))
+            );
+        }
+        return true;
+    }
+
+    toString(): string {
+        return this.text;
+    }
+
+    /**
+     * Helper: add the condition of a token to the query.
+     * @param token field:value
+     * @param start position of the token in the query
+     */
+    private add(token: string, start: number) {
+        const separator = token.indexOf(":");
+        if (separator < 0) {
+            throw new QuerySyntaxError("expected field:value", token, start);
+        }
+
+        const field = token.slice(0, separator);
+        const value = token.slice(separator + 1);
+        if (!Query.fields.includes(field)) {
+            throw new QuerySyntaxError(
+                `unknown field "${field}", expected one of ${Query.fields.join(
+                    ", "
+                )}`,
+                token,
+                start
+            );
+        }
+        if (value === "") {
+            throw new QuerySyntaxError(`missing value`, token, start);
+        }
+
+        switch (field) {
+            case "contract":
+                this.contracts.push(value);
+                break;
+            case "action":
+                if (!Query.actions.has(value)) {
+                    throw new QuerySyntaxError(
+                        "expected spawn, invoke or delete",
+                        token,
+                        start
+                    );
+                }
+                this.actions.push(Query.actions.get(value));
+                break;
+            case "signer":
+                this.signers.push(value);
+                break;
+            case "instance":
+                if (!/^[0-9a-fA-F]+$/.test(value)) {
+                    throw new QuerySyntaxError(
+                        "expected an hexadecimal instance ID",
+                        token,
+                        start
+                    );
+                }
+                this.instances.push(value.toLowerCase());
+                break;
+            case "block":
+                this.addRange(value, token, start);
+                break;
+            case "accepted":
+                if (value !== "true" && value !== "false") {
+                    throw new QuerySyntaxError(
+                        "expected true or false",
+                        token,
+                        start
+                    );
+                }
+                this.accepted = value === "true";
+                break;
+        }
+    }
+
+    /**
+     * Helper: parse a block index or range of indexes.
+     * @param value index, from..to, from.. or ..to
+     * @param token the token being parsed
+     * @param start position of the token in the query
+     */
+    private addRange(value: string, token: string, start: number) {
+        const range = /^(\d*)(\.\.)?(\d*)$/.exec(value);
+        if (
+            range === null ||
+            (range[2] === undefined && range[3] !== "") ||
+            (range[1] === "" && range[3] === "")
+        ) {
+            throw new QuerySyntaxError(
+                "expected an index or a range like 1000..2000",
+                token,
+                start
+            );
+        }
+
+        const from = range[1] === "" ? undefined : parseInt(range[1], 10);
+        const to =
+            range[2] === undefined
+                ? from
+                : range[3] === ""
+                ? undefined
+                : parseInt(range[3], 10);
+        if (from !== undefined && to !== undefined && from > to) {
+            throw new QuerySyntaxError(
+                "the range ends before it starts",
+                token,
+                start
+            );
+        }
+
+        this.fromIndex = from;
+        this.toIndex = to;
+    }
+}
@@ -0,0 +1,485 @@
+import { Instruction } from "@dedis/cothority/byzcoin";
+import { DataBody } from "@dedis/cothority/byzcoin/proto";
+import { SkipBlock } from "@dedis/cothority/skipchain";
+import { Subject, Subscription } from "rxjs";
+
+import { BlockRepository, PaginateError } from "./blockRepository";
+import { Flash } from "./flash";
+import { Query } from "./query";
+import { TotalBlock } from "./totalBlock";
+import { Utils } from "./utils";
+
+/**
+ * A query browsing the blockchain for the instructions matching a Query. Each
+ * query is its own job with its own counters and results, so that several
+ * queries never mix up. The job can be paused, resumed and cancelled: the
+ * pause takes effect once the page being fetched is handled.
+ *
+ * It notifies through Subjects:
+ * 1) subjectInstruction: the blocks and the instructions found, once at the
+ * end of the browsing
+ * 2) subjectProgress: the percent of the progress, the number of blocks seen,
+ * the total number of blocks and the number of instructions found
+ *
+ * @export
+ * @class QueryJob
+ */
+export class QueryJob {
+    readonly subjectInstruction = new Subject<[SkipBlock[], Instruction[]]>();
+    readonly subjectProgress = new Subject<number[]>();
+
+    readonly query: Query;
+    readonly maxNumberOfBlocks: number;
+    readonly direction: boolean;
+
+    totalBlockNumber = -1;
+    seenBlocks = 0;
+    nbInstanceFound = 0;
+    nextIDB = "";
+
+    // Accumulators of the results
+    readonly skipBlocks: SkipBlock[] = [];
+    readonly instructions: Instruction[] = [];
+
+    private readonly repository: BlockRepository;
+    private readonly flash: Flash;
+
+    // Set when maxNumberOfBlocks instructions are found
+    private limitReached = false;
+    private paused = false;
+    private finished = false;
+    // Request of the next page, postponed while the job is paused
+    private pendingRequest: () => void;
+    // Page being fetched, stopped when the job is cancelled
+    private pageSubscription: Subscription;
+    private totalSubscription: Subscription;
+
+    /**
+     * Creates an instance of QueryJob. The browsing begins when start is
+     * called.
+     * @param {BlockRepository} repository
+     * @param {Flash} flash
+     * @param {TotalBlock} totalBlock : used to compute the progress
+     * @param {Query} query : the instructions searched
+     * @param {number} maxNumberOfBlocks : the number of instructions wanted
+     * @param {boolean} direction : true to browse the previous blocks
+     * @memberof QueryJob
+     */
+    constructor(
+        repository: BlockRepository,
+        flash: Flash,
+        totalBlock: TotalBlock,
+        query: Query,
+        maxNumberOfBlocks: number,
+        direction: boolean
+    ) {
+        this.repository = repository;
+        this.flash = flash;
+        this.query = query;
+        this.maxNumberOfBlocks = maxNumberOfBlocks;
+        this.direction = direction;
+
+        this.totalSubscription = totalBlock.getTotalBlock().subscribe({
+            next: (skipblock) => {
+                this.totalBlockNumber = skipblock.index;
+            },
+        });
+    }
+
+    /**
+     * Check if the job is still browsing, even if paused.
+     *
+     * @readonly
+     * @type {boolean}
+     * @memberof QueryJob
+     */
+    get isRunning(): boolean {
+        return !this.finished;
+    }
+
+    /**
+     * Check if the job is paused.
+     *
+     * @readonly
+     * @type {boolean}
+     * @memberof QueryJob
+     */
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    /**
+     * Start the browsing.
+     *
+     * @param {string} firstBlockID : hash of the first block to browse
+     * @param {number} pageSize : number of blocks inside one page
+     * @param {number} numPages : number of pages requested at once
+     * @memberof QueryJob
+     */
+    start(firstBlockID: string, pageSize: number, numPages: number) {
+        this.browse(pageSize, numPages, firstBlockID);
+    }
+
+    /**
+     * Start the browsing at the block with the given index.
+     *
+     * @param {Buffer} genesis : hash of the first block of the chain
+     * @param {number} index : index of the first block to browse
+     * @param {number} pageSize : number of blocks inside one page
+     * @param {number} numPages : number of pages requested at once
+     * @memberof QueryJob
+     */
+    startAt(
+        genesis: Buffer,
+        index: number,
+        pageSize: number,
+        numPages: number
+    ) {
+        this.repository
+            .getBlockByIndex(genesis, index)
+            .then((block) =>
+                this.start(Utils.bytes2String(block.hash), pageSize, numPages)
+            )
+            .catch((err) => {
+                this.flash.display(
+                    Flash.flashType.ERROR,
+                    `Unable to get the block ${index}: ${err}`
+                );
+                this.finish();
+            });
+    }
+
+    /**
+     * Stop requesting new pages until the job is resumed.
+     *
+     * @memberof QueryJob
+     */
+    pause() {
+        if (this.finished) {
+            return;
+        }
+        this.paused = true;
+    }
+
+    /**
+     * Continue the browsing where it was paused.
+     *
+     * @memberof QueryJob
+     */
+    resume() {
+        if (this.finished || !this.paused) {
+            return;
+        }
+        this.paused = false;
+
+        const request = this.pendingRequest;
+        this.pendingRequest = undefined;
+        if (request !== undefined) {
+            request();
+        }
+    }
+
+    /**
+     * Stop the browsing. The instructions found so far are notified, if any.
+     *
+     * @memberof QueryJob
+     */
+    cancel() {
+        if (this.finished) {
+            return;
+        }
+
+        if (this.pageSubscription !== undefined) {
+            this.pageSubscription.unsubscribe();
+        }
+        this.pendingRequest = undefined;
+
+        this.flash.display(
+            Flash.flashType.INFO,
+            `Browsing for ${this.query} cancelled`
+        );
+        if (this.skipBlocks.length > 0) {
+            this.subjectInstruction.next([this.skipBlocks, this.instructions]);
+        }
+        this.finish();
+    }
+
+    /**
+     * This function is the core of the class: it will browse from firstBlockID
+     * until it receives an error. Then it will recusively browse from the error
+     * to the end with pageSize and numPages equal to 1. It will notify all the
+     * subjects.
+     *
+     * @private
+     * @param {number} pageSizeB : Number of blocks inside one page
+     * @param {number} numPagesB : Number of pages requested
+     * @param {string} firstBlockID : hash of the start of browsing
+     * @memberof QueryJob
+     */
+    private browse(pageSizeB: number, numPagesB: number, firstBlockID: string) {
+        const subjectBrowse = new Subject<[number, SkipBlock]>();
+        let pageDone = 0;
+        this.nextIDB = firstBlockID;
+        subjectBrowse.subscribe({
+            complete: () => {
+                this.flash.display(
+                    Flash.flashType.INFO,
+                    `End of the browsing for ${this.query}`
+                );
+                this.subjectInstruction.next([
+                    this.skipBlocks,
+                    this.instructions,
+                ]);
+                this.finish();
+            },
+
+            error: (err: Error) => {
+                if (
+                    err instanceof PaginateError &&
+                    (err.errorcode === 5 || pageSizeB > 1)
+                ) {
+                    // if errorcode is 5: too many blocks requested, otherwise
+                    // the end of the chain is in the page => rebrowse with less blocks
+                    this.browse(1, 1, this.nextIDB);
+                } else if (err instanceof PaginateError) {
+                    // Reaching the end of the chain
+                    subjectBrowse.complete();
+                } else {
+                    this.flash.display(Flash.flashType.ERROR, `${err.message}`);
+                    this.finish();
+                }
+            },
+
+            next: ([i, skipBlock]) => {
+                this.searchInstructions(skipBlock);
+
+                if (i === pageSizeB) {
+                    pageDone++;
+                    if (pageDone >= numPagesB) {
+                        // Condition to end the browsing: no block in the
+                        // direction of the query or out of its range
+                        const next = this.isOutOfRange(skipBlock)
+                            ? undefined
+                            : this.direction
+                            ? skipBlock.backlinks[0]
+                            : skipBlock.forwardLinks.length > 0
+                            ? skipBlock.forwardLinks[0].to
+                            : undefined;
+                        if (
+                            next !== undefined &&
+                            next.length !== 0 &&
+                            !this.limitReached
+                        ) {
+                            this.nextIDB = Utils.bytes2String(next);
+
+                            pageDone = 0;
+                            this.request(() =>
+                                this.getNextBlocks(
+                                    this.nextIDB,
+                                    pageSizeB,
+                                    numPagesB,
+                                    subjectBrowse
+                                )
+                            );
+                        } else {
+                            subjectBrowse.complete();
+                        }
+                    }
+                }
+            },
+        });
+
+        this.request(() =>
+            this.getNextBlocks(
+                firstBlockID,
+                pageSizeB,
+                numPagesB,
+                subjectBrowse
+            )
+        );
+    }
+
+    /**
+     * Helper: check if the blocks after this one, in the direction of the
+     * browsing, are out of the block range of the query.
+     * @param skipBlock
+     */
+    private isOutOfRange(skipBlock: SkipBlock): boolean {
+        return this.direction
+            ? this.query.fromIndex !== undefined &&
+                  skipBlock.index <= this.query.fromIndex
+            : this.query.toIndex !== undefined &&
+                  skipBlock.index >= this.query.toIndex;
+    }
+
+    /**
+     * Helper: accumulate the instructions of the block that match the query.
+     * @param skipBlock
+     */
+    private searchInstructions(skipBlock: SkipBlock) {
+        // Only the blocks that can match are fully decoded
+        const decoded = this.repository.decoder.get(skipBlock);
+        if (!this.query.mayMatch(decoded)) {
+            return;
+        }
+
+        const body = DataBody.decode(skipBlock.payload);
+        body.txResults.forEach((transaction) => {
+            transaction.clientTransaction.instructions.forEach(
+                (instruction) => {
+                    if (
+                        !this.query.matches(instruction, transaction.accepted)
+                    ) {
+                        return;
+                    }
+
+                    this.nbInstanceFound++;
+                    if (
+                        this.nbInstanceFound <= this.maxNumberOfBlocks &&
+                        !this.limitReached
+                    ) {
+                        this.skipBlocks.push(skipBlock);
+                        this.instructions.push(instruction);
+                    }
+                    if (
+                        this.maxNumberOfBlocks > 0 &&
+                        this.nbInstanceFound >= this.maxNumberOfBlocks
+                    ) {
+                        this.limitReached = true;
+                    }
+                }
+            );
+        });
+    }
+
+    /**
+     * Helper: send the request now, or once the job is resumed.
+     * @param request
+     */
+    private request(request: () => void) {
+        if (this.finished) {
+            return;
+        }
+        if (this.paused) {
+            this.pendingRequest = request;
+            return;
+        }
+        request();
+    }
+
+    /**
+     * Request the (pageSizeNB * numPagesNB) next blocks from nextID
+     * and notify the subjectBrowse
+     *
+     * @private
+     * @param {string} nextID
+     * @param {number} pageSizeNB
+     * @param {number} numPagesNB
+     * @param {Subject<[number, SkipBlock]>} subjectBrowse
+     * @returns : only if an error occur
+     * @memberof QueryJob
+     */
+    private getNextBlocks(
+        nextID: string,
+        pageSizeNB: number,
+        numPagesNB: number,
+        subjectBrowse: Subject<[number, SkipBlock]>
+    ) {
+        let bid: Buffer;
+        try {
+            bid = Utils.hex2Bytes(nextID);
+        } catch (error) {
+            this.flash.display(
+                Flash.flashType.ERROR,
+                `failed to parse the block ID: ${error}`
+            );
+            this.finish();
+            return;
+        }
+        this.pageSubscription = this.repository
+            .getBlocks(bid, pageSizeNB, numPagesNB, this.direction)
+            .subscribe({
+                error: (err: Error) => {
+                    subjectBrowse.error(err);
+                },
+                next: ([, blocks]) => {
+                    this.handlePage(blocks, subjectBrowse);
+                },
+            });
+    }
+
+    /**
+     * Split the blocks of a page to notify the subjectBrowse
+     * of each block. It also notify the progress
+     * to the subjectProgress
+     *
+     * @private
+     * @param {SkipBlock[]} blocks
+     * @param {Subject<[number, SkipBlock]>} subjectBrowse
+     * @memberof QueryJob
+     */
+    private handlePage(
+        blocks: SkipBlock[],
+        subjectBrowse: Subject<[number, SkipBlock]>
+    ) {
+        let runCount = 0;
+        for (const block of blocks) {
+            if (this.finished) {
+                return;
+            }
+            this.seenBlocks++;
+            this.seenBlocksNotify(this.seenBlocks);
+            runCount++;
+            subjectBrowse.next([runCount, block]);
+        }
+    }
+
+    /**
+     * Notify with the different numbers (the percent of
+     * the progress,the number of blocks seen, the total number of blocks,
+     * the number of instance found: used to update the loading screen)
+     * to the subjectProgress. It will only notify 100 times for each percent
+     * thanks to a blackmagic condition
+     * (i % ~~(0.01 * this.totalBlockNumber) == 0)
+     *
+     * @private
+     * @param {number} i : the number of block seen
+     * @memberof QueryJob
+     */
+    private seenBlocksNotify(i: number) {
+        if (
+            this.totalBlockNumber > 0 && // tslint:disable-next-line
+            i % ~~(0.01 * this.totalBlockNumber) == 0
+        ) {
+            // tslint:disable-next-line
+            const percent: number = ~~((i / this.totalBlockNumber) * 100);
+            this.subjectProgress.next([
+                percent,
+                this.seenBlocks,
+                this.totalBlockNumber,
+                this.nbInstanceFound,
+            ]);
+        } else if (this.totalBlockNumber < 0) {
+            this.subjectProgress.next([
+                0,
+                this.seenBlocks,
+                this.totalBlockNumber,
+                this.nbInstanceFound,
+            ]);
+        }
+    }
+
+    /**
+     * Helper: mark the job as done and complete all the subjects.
+     */
+    private finish() {
+        if (this.finished) {
+            return;
+        }
+        this.finished = true;
+        this.paused = false;
+        this.totalSubscription.unsubscribe();
+        this.subjectProgress.complete();
+        this.subjectInstruction.complete();
+    }
+}
@@ -0,0 +1,280 @@
+import { SkipBlock } from "@dedis/cothority/skipchain";
+import { Subject } from "rxjs";
+
+/**
+ * What the page shows, as described by its url. Every field is optional: an
+ * empty route is the default view of the default skipchain.
+ */
+export interface Route {
+    // The explored skipchain, undefined for the default one
+    skipchainID?: string;
+    // The selected block, either by hash (hex) or by index
+    blockHash?: string;
+    blockIndex?: number;
+    // The opened instruction of the selected block
+    transaction?: number;
+    instruction?: number;
+    // The instance whose instructions are searched, in hex
+    instanceID?: string;
+}
+
+/**
+ * Keeps the url of the page in sync with what is displayed, so that a link
+ * shows the same block, instruction and instance query to anyone opening it.
+ *
+ * The route is written after the "#" as a path of key/value pairs, e.g.
+ * "#chain/<skipchain ID>/block/<hash or index>/tx/<i>/instr/<j>" or
+ * "#instance/<instance ID>". The "#index:<index>" links of the previous
+ * versions are still understood.
+ *
+ * Selecting a block adds an entry to the history of the browser, so that the
+ * back and forward buttons walk through the previously selected blocks. The
+ * routes they go back to are notified on the routeSubject.
+ *
+ * @export
+ * @class Router
+ */
+export class Router {
+    // Notified when the url is changed by the browser or by the user
+    readonly routeSubject = new Subject<Route>();
+
+    /**
+     * Creates an instance of Router and listens on the changes of the url.
+     * @memberof Router
+     */
+    constructor() {
+        window.addEventListener("hashchange", () =>
+            this.routeSubject.next(this.route)
+        );
+    }
+
+    /**
+     * Parse the route of a url.
+     *
+     * @static
+     * @param {string} hash : the end of the url, from the "#"
+     * @returns {Route} undefined if the route is not valid
+     * @memberof Router
+     */
+    static parse(hash: string): Route {
+        const path = hash.replace(/^#/, "");
+        if (path === "") {
+            return {};
+        }
+
+        const legacy = /^index:(\d+)$/.exec(path);
+        if (legacy !== null) {
+            return { blockIndex: parseInt(legacy[1], 10) };
+        }
+
+        const segments = path.split("/");
+        if (segments.length % 2 !== 0) {
+            return undefined;
+        }
+
+        const route: Route = {};
+        for (let i = 0; i < segments.length; i += 2) {
+            const value = segments[i + 1];
+            const isHex = /^[0-9a-fA-F]+$/.test(value);
+            const isNumber = /^\d{1,15}$/.test(value);
+
+            switch (segments[i]) {
+                case "chain":
+                    if (!isHex) {
+                        return undefined;
+                    }
+                    route.skipchainID = value.toLowerCase();
+                    break;
+                case "block":
+                    if (isNumber) {
+                        route.blockIndex = parseInt(value, 10);
+                    } else if (isHex) {
+                        route.blockHash = value.toLowerCase();
+                    } else {
+                        return undefined;
+                    }
+                    break;
+                case "tx":
+                    if (!isNumber) {
+                        return undefined;
+                    }
+                    route.transaction = parseInt(value, 10);
+                    break;
+                case "instr":
+                    if (!isNumber) {
+                        return undefined;
+                    }
+                    route.instruction = parseInt(value, 10);
+                    break;
+                case "instance":
+                    if (!isHex) {
+                        return undefined;
+                    }
+                    route.instanceID = value.toLowerCase();
+                    break;
+                default:
+                    return undefined;
+            }
+        }
+
+        // An instruction is in a transaction, which is in a block
+        const hasBlock =
+            route.blockHash !== undefined || route.blockIndex !== undefined;
+        if (
+            (route.transaction !== undefined && !hasBlock) ||
+            (route.instruction !== undefined && route.transaction === undefined)
+        ) {
+            return undefined;
+        }
+        return route;
+    }
+
+    /**
+     * Write a route, without the "#".
+     *
+     * @static
+     * @param {Route} route
+     * @returns {string}
+     * @memberof Router
+     */
+    static format(route: Route): string {
+        const segments: string[] = [];
+        if (route.skipchainID !== undefined) {
+            segments.push("chain", route.skipchainID);
+        }
+
+        if (route.blockHash !== undefined || route.blockIndex !== undefined) {
+            segments.push(
+                "block",
+                route.blockHash !== undefined
+                    ? route.blockHash
+                    : route.blockIndex.toString()
+            );
+            if (route.transaction !== undefined) {
+                segments.push("tx", route.transaction.toString());
+                if (route.instruction !== undefined) {
+                    segments.push("instr", route.instruction.toString());
+                }
+            }
+        }
+
+        if (route.instanceID !== undefined) {
+            segments.push("instance", route.instanceID);
+        }
+        return segments.join("/");
+    }
+
+    /**
+     * The route of the current url, empty if it is not valid.
+     *
+     * @readonly
+     * @type {Route}
+     * @memberof Router
+     */
+    get route(): Route {
+        return Router.parse(window.location.hash) || {};
+    }
+
+    /**
+     * Set the explored skipchain. The selection is dropped when the
+     * skipchain changes, as it belongs to the previous one.
+     *
+     * @param {string} skipchainID : undefined for the default skipchain
+     * @memberof Router
+     */
+    showChain(skipchainID: string) {
+        if (this.route.skipchainID !== skipchainID) {
+            this.navigate({ skipchainID }, true);
+        }
+    }
+
+    /**
+     * Select a block, in a new entry of the history. Nothing changes if the
+     * block is already selected, so that its opened instruction is kept.
+     *
+     * @param {SkipBlock} block
+     * @memberof Router
+     */
+    selectBlock(block: SkipBlock) {
+        const route = this.route;
+        if (
+            route.blockIndex === block.index ||
+            route.blockHash === block.hash.toString("hex")
+        ) {
+            return;
+        }
+
+        this.navigate(
+            {
+                blockIndex: block.index,
+                instanceID: route.instanceID,
+                skipchainID: route.skipchainID,
+            },
+            false
+        );
+    }
+
+    /**
+     * Set the opened instruction of the selected block.
+     *
+     * @param {number} transaction : the index of the transaction in the block
+     * @param {number} instruction : the index of the instruction in the
+     * transaction
+     * @memberof Router
+     */
+    openInstruction(transaction: number, instruction: number) {
+        this.navigate({ ...this.route, instruction, transaction }, true);
+    }
+
+    /**
+     * Remove the instruction from the route if it is the opened one.
+     *
+     * @param {number} transaction : the index of the transaction in the block
+     * @param {number} instruction : the index of the instruction in the
+     * transaction
+     * @memberof Router
+     */
+    closeInstruction(transaction: number, instruction: number) {
+        const route = this.route;
+        if (
+            route.transaction === transaction &&
+            route.instruction === instruction
+        ) {
+            this.openInstruction(undefined, undefined);
+        }
+    }
+
+    /**
+     * Set the instance whose instructions are searched, in a new entry of
+     * the history.
+     *
+     * @param {string} instanceID : in hex, undefined when no instance is
+     * searched
+     * @memberof Router
+     */
+    searchInstance(instanceID: string) {
+        this.navigate({ ...this.route, instanceID }, false);
+    }
+
+    /**
+     * Helper: write a route in the url, without notifying the routeSubject.
+     * @param route
+     * @param replace true to replace the current entry of the history
+     */
+    private navigate(route: Route, replace: boolean) {
+        const path = Router.format(route);
+        if (path === Router.format(this.route)) {
+            return;
+        }
+
+        const url =
+            path === ""
+                ? window.location.pathname + window.location.search
+                : `#${path}`;
+        if (replace) {
+            window.history.replaceState(null, "", url);
+        } else {
+            window.history.pushState(null, "", url);
+        }
+    }
+}
@@ -1,64 +1,37 @@
-import { Roster } from "@dedis/cothority/network";
 import { SkipBlock } from "@dedis/cothority/skipchain";
 import * as d3 from "d3";
 import { Subject } from "rxjs";
 import "uikit";
 import { Block } from "./block";
+import { BlockRepository } from "./blockRepository";
 import { Flash } from "./flash";
+import { Query, QuerySyntaxError } from "./query";
 import "./stylesheets/style.scss";
 import { Utils } from "./utils";
 
 /**
  * File to launch requests when searching for a particular block or instance through the search bar
- * @param roster the roster
+ * @param repository the repository to get the blocks from
  * @param flash the flash class that handles the flash messages
  * @param initialBlock the first block displayed at the load of the chain
  * @param hashBlock0 the hash of the genesis block
  * @param blockClickedSubject the subject notified each time a block is clicked on
  * @param block Block instance
+ * @returns a function launching the search of an input with the mode selected
+ * in the drop-down menu
  * @author Sophia Artioli (sophia.artioli@epfl.ch)
  * @author Lucas Trognon <lucas.trognon@epfl.ch>
  */
 
 export function searchBar(
-    roster: Roster,
+    repository: BlockRepository,
     flash: Flash,
     initialBlock: SkipBlock,
     hashBlock0: string,
     blockClickedSubject: Subject<SkipBlock>,
     block: Block
-) {
-    d3.select("#search-input").on("keypress", () => {
-        if (d3.event.keyCode === 13) {
-            // The enter button is pressed
-
-            // Text inputted by the user in the search-bar
-            const input = d3.select("#search-input").property("value");
-
-            // Mode selected by the user in the drop-down menu
-            const searchMode = d3.select("#search-mode").property("value");
-            if (input.toString() == "") {
-                // The user hasn't inputted anything
-                // If this check is not done, submitting will look for block 0
-                return;
-            }
-            searchRequest(
-                input,
-                roster,
-                flash,
-                hashBlock0,
-                initialBlock,
-                blockClickedSubject,
-                searchMode,
-                block
-            );
-        }
-    });
-
-    // The submit button is pressed
-    d3.select("#submit-button").on("click", async () => {
-        // Text inputted by the user in the search-bar
-        const input = d3.select("#search-input").property("value");
+): (input: string) => Promise<void> {
+    const search = async (input: string) => {
         // Mode selected by the user in the drop-down menu
         const searchMode = d3.select("#search-mode").property("value");
 
@@ -70,7 +43,7 @@ export function searchBar(
 
         await searchRequest(
             input,
-            roster,
+            repository,
             flash,
             hashBlock0,
             initialBlock,
@@ -78,13 +51,30 @@ export function searchBar(
             searchMode,
             block
         );
+    };
+
+    d3.select("#search-input").on("keypress", () => {
+        if (d3.event.keyCode === 13) {
+            // The enter button is pressed
+
+            // Text inputted by the user in the search-bar
+            search(d3.select("#search-input").property("value"));
+        }
+    });
+
+    // The submit button is pressed
+    d3.select("#submit-button").on("click", async () => {
+        // Text inputted by the user in the search-bar
+        await search(d3.select("#search-input").property("value"));
     });
+
+    return search;
 }
 
 /**
  * Helper function to search for the blocks
  * @param input the input inserted by the user
- * @param roster the roster defining the blockchain nodes
+ * @param repository the repository to get the blocks from
  * @param flash the flash class that handles the flash messages
  * @param hashBlock0 the hash of the genesis block
  * @param initialBlock the first block displayed at the load of the chain
@@ -94,7 +84,7 @@ export function searchBar(
  */
 async function searchRequest(
     input: any,
-    roster: Roster,
+    repository: BlockRepository,
     flash: Flash,
     hashBlock0: string,
     initialBlock: SkipBlock,
@@ -104,11 +94,13 @@ async function searchRequest(
 ) {
     switch (searchMode) {
         case "anything":
-            if (input.length < 32) {
+            if (Query.looksLike(input.toString())) {
+                querySearch(input, flash, block);
+            } else if (input.length < 32) {
                 await indexSearch(
                     hashBlock0,
                     input,
-                    roster,
+                    repository,
                     flash,
                     initialBlock,
                     blockClickedSubject
@@ -116,21 +108,20 @@ async function searchRequest(
             } else {
                 // The input is in the form of a hash
                 try {
-                    const block = await Utils.getBlock(
-                        Buffer.from(input, "hex"),
-                        roster
+                    const found = await repository.getBlock(
+                        Buffer.from(input, "hex")
                     );
 
                     flash.display(
                         Flash.flashType.INFO,
                         "Valid search for block index: " +
-                            block.index.toString()
+                            found.index.toString()
                     );
                     await Utils.translateOnChain(
-                        block.index,
+                        found.index,
                         initialBlock.index
                     );
-                    blockClickedSubject.next(block);
+                    blockClickedSubject.next(found);
                 } catch (error) {
                     // The inputted hash is not a block
                     // Try browsing the chain for instances
@@ -147,7 +138,7 @@ async function searchRequest(
             await indexSearch(
                 hashBlock0,
                 input,
-                roster,
+                repository,
                 flash,
                 initialBlock,
                 blockClickedSubject
@@ -155,17 +146,16 @@ async function searchRequest(
             break;
         case "hash":
             try {
-                const block = await Utils.getBlock(
-                    Buffer.from(input, "hex"),
-                    roster
+                const found = await repository.getBlock(
+                    Buffer.from(input, "hex")
                 );
 
                 flash.display(
                     Flash.flashType.INFO,
-                    "Valid search for block index: " + block.index.toString()
+                    "Valid search for block index: " + found.index.toString()
                 );
-                await Utils.translateOnChain(block.index, initialBlock.index);
-                blockClickedSubject.next(block);
+                await Utils.translateOnChain(found.index, initialBlock.index);
+                blockClickedSubject.next(found);
             } catch (error) {
                 flash.display(Flash.flashType.ERROR, `Block does not exist`);
             }
@@ -178,40 +168,186 @@ async function searchRequest(
             );
             block.launchQuery(50, input.toString(), true, false); //modifed
             break;
-    }
 
-    /**
-     * Helper function to request for a searched block by index
-     * @param hashBlock0 the genesis block's hash
-     * @param input user input
-     * @param roster
-     * @param flash
-     * @param initialBlock the first block displayed by the chain
-     * @param blockClickedSubject the subject that is notified when a block is clicked
-     */
-    async function indexSearch(
-        hashBlock0: string,
-        input: any,
-        roster: Roster,
-        flash: Flash,
-        initialBlock: SkipBlock,
-        blockClickedSubject: Subject<SkipBlock>
-    ) {
-        try {
-            const block = await Utils.getBlockByIndex(
-                Utils.hex2Bytes(hashBlock0),
-                parseInt(input, 10),
-                roster
-            );
-            flash.display(
-                Flash.flashType.INFO,
-                "Valid search for block index: " + block.index.toString()
+        case "query":
+            querySearch(input, flash, block);
+            break;
+
+        case "date":
+            await dateSearch(
+                hashBlock0,
+                input,
+                repository,
+                flash,
+                initialBlock,
+                blockClickedSubject
             );
+            break;
+    }
+}
 
-            await Utils.translateOnChain(block.index, initialBlock.index);
-            blockClickedSubject.next(block);
-        } catch (error) {
-            flash.display(Flash.flashType.ERROR, "Block does not exist");
+/**
+ * Helper function to request for a searched block by index
+ * @param hashBlock0 the genesis block's hash
+ * @param input user input
+ * @param repository
+ * @param flash
+ * @param initialBlock the first block displayed by the chain
+ * @param blockClickedSubject the subject that is notified when a block is clicked
+ */
+async function indexSearch(
+    hashBlock0: string,
+    input: any,
+    repository: BlockRepository,
+    flash: Flash,
+    initialBlock: SkipBlock,
+    blockClickedSubject: Subject<SkipBlock>
+) {
+    try {
+        const found = await repository.getBlockByIndex(
+            Utils.hex2Bytes(hashBlock0),
+            parseInt(input, 10)
+        );
+        flash.display(
+            Flash.flashType.INFO,
+            "Valid search for block index: " + found.index.toString()
+        );
+
+        await Utils.translateOnChain(found.index, initialBlock.index);
+        blockClickedSubject.next(found);
+    } catch (error) {
+        flash.display(Flash.flashType.ERROR, "Block does not exist");
+    }
+}
+
+/**
+ * Helper function to browse the chain for the instructions matching a query,
+ * e.g. "contract:coin action:invoke block:1000..2000". When the query is not
+ * valid, the failing token is selected in the search bar.
+ * @param input user input
+ * @param flash
+ * @param block the Block instance displaying the results
+ */
+function querySearch(input: any, flash: Flash, block: Block) {
+    let query: Query;
+    try {
+        query = Query.parse(input.toString());
+    } catch (error) {
+        if (!(error instanceof QuerySyntaxError)) {
+            throw error;
         }
+        flash.display(Flash.flashType.ERROR, `Invalid query: ${error.message}`);
+
+        const searchInput = document.getElementById(
+            "search-input"
+        ) as HTMLInputElement;
+        searchInput.focus();
+        searchInput.setSelectionRange(error.start, error.end);
+        return;
+    }
+
+    flash.display(
+        Flash.flashType.INFO,
+        `Browsing the chain for the instructions matching ${query}`
+    );
+    block.launchSearch(50, query, false, true);
+}
+
+/**
+ * Helper function to request for the block created the closest to a date
+ * @param hashBlock0 the genesis block's hash
+ * @param input user input, e.g. "2021-01-05 14:00"
+ * @param repository
+ * @param flash
+ * @param initialBlock the first block displayed by the chain
+ * @param blockClickedSubject the subject that is notified when a block is clicked
+ */
+async function dateSearch(
+    hashBlock0: string,
+    input: any,
+    repository: BlockRepository,
+    flash: Flash,
+    initialBlock: SkipBlock,
+    blockClickedSubject: Subject<SkipBlock>
+) {
+    // Dates written with a space are read as local time like ISO ones
+    const timestamp = Date.parse(
+        input
+            .toString()
+            .trim()
+            .replace(/^(\d{4}-\d{2}-\d{2}) /, "$1T")
+    );
+    if (isNaN(timestamp)) {
+        flash.display(
+            Flash.flashType.ERROR,
+            `Invalid date: ${input}, use the format YYYY-MM-DD HH:MM`
+        );
+        return;
+    }
+
+    try {
+        const block = await findBlockByTime(
+            repository,
+            Utils.hex2Bytes(hashBlock0),
+            timestamp
+        );
+        flash.display(
+            Flash.flashType.INFO,
+            `Closest block to ${new Date(timestamp).toLocaleString()}: index ${
+                block.index
+            }`
+        );
+
+        await Utils.translateOnChain(block.index, initialBlock.index);
+        blockClickedSubject.next(block);
+    } catch (error) {
+        flash.display(
+            Flash.flashType.ERROR,
+            `Unable to search the date: ${error}`
+        );
+    }
+}
+
+/**
+ * Find the block created the closest to a timestamp. Like a search in a skip
+ * list, it follows from the genesis block the highest forward link that does
+ * not go past the timestamp, so that only a logarithmic number of blocks is
+ * fetched.
+ * @param repository the repository to get the blocks from
+ * @param genesis the hash of the genesis block
+ * @param timestamp the searched time, in milliseconds since the epoch
+ */
+async function findBlockByTime(
+    repository: BlockRepository,
+    genesis: Buffer,
+    timestamp: number
+): Promise<SkipBlock> {
+    const time = (b: SkipBlock) => repository.decoder.get(b).timestamp;
+
+    let current = await repository.getBlock(genesis);
+    let next: SkipBlock;
+    let level = current.forwardLinks.length - 1;
+    while (level >= 0) {
+        const candidate = await repository.getBlock(
+            current.forwardLinks[level].to
+        );
+        if (time(candidate) <= timestamp) {
+            // Jump and continue from the same level: the higher links of
+            // the new block lead past a block already found too late
+            current = candidate;
+            level = Math.min(level, current.forwardLinks.length - 1);
+        } else {
+            next = candidate;
+            level--;
+        }
+    }
+
+    // The searched time is between the current block and the next one
+    if (
+        next !== undefined &&
+        time(next) - timestamp < timestamp - time(current)
+    ) {
+        return next;
     }
+    return current;
 }
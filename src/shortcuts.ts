@@ -0,0 +1,214 @@
+import { SkipBlock } from "@dedis/cothority/skipchain";
+import * as d3 from "d3";
+
+import { Chain } from "./chain";
+import { CommandPalette } from "./commandPalette";
+import { Flash } from "./flash";
+import { Utils } from "./utils";
+
+/**
+ * Keyboard shortcuts of the chain:
+ * - the left and right arrows select the previous and next blocks
+ * - PageUp and PageDown follow the highest backward and forward skiplinks of
+ *   the selected block
+ * - + and - zoom in and out
+ * - / goes to the search bar
+ * - Ctrl-K opens the command palette
+ *
+ * The keys are ignored while typing in a field. The navigation actions are
+ * also added to the command palette.
+ *
+ * @export
+ * @class Shortcuts
+ */
+export class Shortcuts {
+    chain: Chain;
+    flash: Flash;
+    palette: CommandPalette;
+
+    // The block selected on the chain, from where the keys move
+    selected: SkipBlock;
+
+    /**
+     * Creates an instance of Shortcuts and listens on the keys of the page.
+     * @param {Chain} chain
+     * @param {Flash} flash
+     * @param {CommandPalette} palette
+     * @memberof Shortcuts
+     */
+    constructor(chain: Chain, flash: Flash, palette: CommandPalette) {
+        this.chain = chain;
+        this.flash = flash;
+        this.palette = palette;
+
+        chain.blockClickedSubject.subscribe({
+            next: (block) => {
+                this.selected = block;
+            },
+        });
+
+        palette.add("Select the previous block", () => this.step(-1), "←");
+        palette.add("Select the next block", () => this.step(1), "→");
+        palette.add(
+            "Follow the highest backward skiplink",
+            () => this.followSkiplink(false),
+            "PageUp"
+        );
+        palette.add(
+            "Follow the highest forward skiplink",
+            () => this.followSkiplink(true),
+            "PageDown"
+        );
+        palette.add(
+            "Go to the genesis block",
+            () => this.chain.selectBlockByIndex(this.chain.initialBlock.index),
+            "Home"
+        );
+        palette.add("Go to the last block", () => this.selectLast(), "End");
+        palette.add("Zoom in", () => chain.zoomBy(Chain.zoomFactor), "+");
+        palette.add("Zoom out", () => chain.zoomBy(1 / Chain.zoomFactor), "-");
+        palette.add("Go to the search bar", () => this.focusSearch(), "/");
+
+        // A new chain replaces the shortcuts of the previous one
+        d3.select(document).on("keydown.shortcuts", () => {
+            this.onKey(d3.event);
+        });
+    }
+
+    /**
+     * Helper: run the action of a key.
+     * @param event the keydown event
+     */
+    private onKey(event: KeyboardEvent) {
+        if ((event.ctrlKey || event.metaKey) && event.key === "k") {
+            event.preventDefault();
+            this.palette.toggle();
+            return;
+        }
+
+        // The keys are for the field being typed in, or for the palette
+        const target = event.target as HTMLElement;
+        if (
+            event.ctrlKey ||
+            event.metaKey ||
+            event.altKey ||
+            this.palette.isOpen ||
+            target.isContentEditable ||
+            ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+        ) {
+            return;
+        }
+
+        switch (event.key) {
+            case "ArrowLeft":
+                this.step(-1);
+                break;
+            case "ArrowRight":
+                this.step(1);
+                break;
+            case "PageUp":
+                this.followSkiplink(false);
+                break;
+            case "PageDown":
+                this.followSkiplink(true);
+                break;
+            case "Home":
+                this.chain.selectBlockByIndex(this.chain.initialBlock.index);
+                break;
+            case "End":
+                this.selectLast();
+                break;
+            case "+":
+            case "=":
+                this.chain.zoomBy(Chain.zoomFactor);
+                break;
+            case "-":
+                this.chain.zoomBy(1 / Chain.zoomFactor);
+                break;
+            case "/":
+                this.focusSearch();
+                break;
+            default:
+                return;
+        }
+
+        event.preventDefault();
+    }
+
+    /**
+     * Helper: select the block next to the selected block.
+     * @param direction -1 for the previous block, 1 for the next one
+     */
+    private step(direction: number) {
+        if (this.selected === undefined) {
+            this.flash.display(Flash.flashType.INFO, "Select a block first");
+            return;
+        }
+
+        const index = this.selected.index + direction;
+        const last = this.chain.lastAddedBlock.lastBlock;
+        if (
+            index < this.chain.initialBlock.index ||
+            (last !== undefined && index > last.index)
+        ) {
+            return;
+        }
+
+        this.chain.selectBlockByIndex(index);
+    }
+
+    /**
+     * Helper: select the block at the end of the highest skiplink of the
+     * selected block.
+     * @param forward true for the forward links, false for the backlinks
+     */
+    private async followSkiplink(forward: boolean) {
+        if (this.selected === undefined) {
+            this.flash.display(Flash.flashType.INFO, "Select a block first");
+            return;
+        }
+
+        const links = forward
+            ? this.selected.forwardLinks.map((link) => link.to)
+            : this.selected.backlinks;
+        if (links.length === 0) {
+            this.flash.display(
+                Flash.flashType.INFO,
+                `Block ${this.selected.index} has no ${
+                    forward ? "forward link" : "backlink"
+                }`
+            );
+            return;
+        }
+
+        try {
+            const block = await this.chain.repository.getBlock(
+                links[links.length - 1]
+            );
+            Utils.translateOnChain(block.index, this.chain.initialBlock.index);
+            this.chain.blockClickedSubject.next(block);
+        } catch (e) {
+            this.flash.display(
+                Flash.flashType.ERROR,
+                `Unable to follow the skiplink: ${e}`
+            );
+        }
+    }
+
+    /**
+     * Helper: select the last block of the chain.
+     */
+    private selectLast() {
+        const last = this.chain.lastAddedBlock.lastBlock;
+        if (last !== undefined) {
+            this.chain.selectBlockByIndex(last.index);
+        }
+    }
+
+    /**
+     * Helper: move the focus to the search bar.
+     */
+    private focusSearch() {
+        (document.getElementById("search-input") as HTMLInputElement).focus();
+    }
+}
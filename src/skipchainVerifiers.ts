@@ -0,0 +1,118 @@
+import { createHash } from "crypto";
+
+/**
+ * A verification function of the skipchain, run by the nodes on each new
+ * block.
+ */
+export interface NamedVerifier {
+    name: string;
+    // What the function checks
+    description: string;
+    // False for an ID that is not one of the known functions
+    known: boolean;
+}
+
+/**
+ * Resolves the IDs of the verification functions listed in the blocks. The
+ * nodes identify a function by the UUID (version 5, in the URL namespace) of
+ * its name, the IDs of the known functions are computed the same way.
+ *
+ * This module is also loaded by the fake conode: it must not import the
+ * modules using the DOM.
+ *
+ * @export
+ * @class SkipchainVerifiers
+ */
+export class SkipchainVerifiers {
+    // Namespace of the UUIDs created from a URL
+    static readonly namespaceURL = Buffer.from(
+        "6ba7b8119dad11d180b400c04fd430c8",
+        "hex"
+    );
+
+    // Names and descriptions of the verification functions of the skipchain
+    // and of ByzCoin
+    static readonly known = new Map<string, string>([
+        [
+            "Base",
+            "Checks the structure of the block: its height, its backlinks and that it follows the previous block.",
+        ],
+        [
+            "Root",
+            "Checks that the chain is a root chain, whose blocks only hold the rosters of other chains.",
+        ],
+        [
+            "Control",
+            "Checks that the chain is the child of a root chain, and that no newer parent exists.",
+        ],
+        [
+            "Data",
+            "Checks that the chain is a data chain under a control chain.",
+        ],
+        [
+            "ByzCoin",
+            "Replays the transactions of the block and checks the resulting state, the hashes of its header and its timestamp.",
+        ],
+    ]);
+
+    // Known functions by ID, in hex
+    private static byID: Map<string, string>;
+
+    /**
+     * Compute the ID of a verification function from its name.
+     *
+     * @static
+     * @param {string} name
+     * @returns {Buffer} the UUID of the name, 16 bytes
+     * @memberof SkipchainVerifiers
+     */
+    static id(name: string): Buffer {
+        const uuid = createHash("sha1")
+            .update(SkipchainVerifiers.namespaceURL)
+            .update(name)
+            .digest()
+            .slice(0, 16);
+        // Version 5 and RFC 4122 variant
+        // tslint:disable-next-line:no-bitwise
+        uuid[6] = (uuid[6] & 0x0f) | 0x50;
+        // tslint:disable-next-line:no-bitwise
+        uuid[8] = (uuid[8] & 0x3f) | 0x80;
+        return uuid;
+    }
+
+    /**
+     * Find the verification function of an ID.
+     *
+     * @static
+     * @param {Buffer} id : an ID of the verifiers of a block
+     * @returns {NamedVerifier} an unknown verifier if the ID is not the one
+     * of a known function
+     * @memberof SkipchainVerifiers
+     */
+    static resolve(id: Buffer): NamedVerifier {
+        if (SkipchainVerifiers.byID === undefined) {
+            SkipchainVerifiers.byID = new Map();
+            for (const known of SkipchainVerifiers.known.keys()) {
+                SkipchainVerifiers.byID.set(
+                    SkipchainVerifiers.id(known).toString("hex"),
+                    known
+                );
+            }
+        }
+
+        const name = SkipchainVerifiers.byID.get(id.toString("hex"));
+        if (name === undefined) {
+            return {
+                description:
+                    "This ID is not one of the verification functions known by the explorer.",
+                known: false,
+                name: "Unknown verifier",
+            };
+        }
+        return {
+            description: SkipchainVerifiers.known.get(name),
+            known: true,
+            name,
+        };
+    }
+}
@@ -0,0 +1,417 @@
+import { SkipBlock } from "@dedis/cothority/skipchain";
+import * as d3 from "d3";
+
+import { Chain } from "./chain";
+import { Flash } from "./flash";
+import { Utils } from "./utils";
+
+/**
+ * A step of a path along the skiplinks, from a block to another one that is
+ * linked to it.
+ */
+export interface Hop {
+    from: number;
+    to: number;
+    // Level of the link, the blocks are baseHeight^level apart
+    level: number;
+}
+
+/**
+ * Shortest path along the skiplinks between the selected block and a target
+ * block. The path can use the forward links and the backlinks: it follows
+ * the blocks whose height allows the longest links, possibly past the target.
+ *
+ * The path is computed from the heights the blocks have in a skipchain, then
+ * the links of its blocks are checked. The arrows of the path are
+ * highlighted on the chain and its hops are listed in the detail panel, with
+ * the links that are missing, e.g. a forward link not created yet.
+ *
+ * @export
+ * @class SkiplinkPath
+ */
+export class SkiplinkPath {
+    chain: Chain;
+    flash: Flash;
+
+    // The selected block, from where a new path starts
+    source: SkipBlock;
+    // Indexes of the blocks at the ends of the path, undefined when there is
+    // no path
+    from: number;
+    target: number;
+    // True when the next clicked block is the target
+    picking = false;
+
+    private hops: Hop[] = [];
+    // Problem of each hop, undefined when its link is fine and null while
+    // the link is checked
+    private problems: string[] = [];
+    // Incremented by each new path, so that an older check is dropped
+    private generation = 0;
+
+    /**
+     * Creates an instance of SkiplinkPath, its part of the detail panel
+     * follows the selected block. The path stays until another one is
+     * found or it is cleared.
+     * @param {Chain} chain
+     * @param {Flash} flash
+     * @memberof SkiplinkPath
+     */
+    constructor(chain: Chain, flash: Flash) {
+        this.chain = chain;
+        this.flash = flash;
+
+        // The panel is filled after the details of the block
+        chain.blockClickedSubject.subscribe({
+            next: (block) => {
+                if (this.picking) {
+                    this.picking = false;
+                    this.find(block.index);
+                }
+                this.source = block;
+                this.draw();
+            },
+        });
+    }
+
+    /**
+     * Compute the height of a block of a skipchain, it grows with the number
+     * of times its index can be divided by baseHeight.
+     *
+     * @static
+     * @param {number} index
+     * @param {number} baseHeight
+     * @param {number} maxHeight
+     * @returns {number}
+     * @memberof SkiplinkPath
+     */
+    static height(
+        index: number,
+        baseHeight: number,
+        maxHeight: number
+    ): number {
+        let height = 1;
+        while (
+            height < maxHeight &&
+            index % Math.pow(baseHeight, height) === 0
+        ) {
+            height++;
+        }
+        return height;
+    }
+
+    /**
+     * Find a path with the fewest hops between two blocks, with a breadth
+     * first search along the links of the blocks. A path going further past
+     * its ends than the smallest link longer than the distance between them
+     * is never shorter, so the search stays within that span.
+     *
+     * @static
+     * @param {number} from : index of the first block
+     * @param {number} to : index of the last block
+     * @param {number} lastIndex : index of the last block of the chain, the
+     * path does not go further
+     * @param {number} baseHeight
+     * @param {number} maxHeight
+     * @returns {Hop[]} the hops from the first block, undefined if there is
+     * no path
+     * @memberof SkiplinkPath
+     */
+    static shortestPath(
+        from: number,
+        to: number,
+        lastIndex: number,
+        baseHeight: number,
+        maxHeight: number
+    ): Hop[] {
+        let span = 1;
+        while (span < Math.abs(to - from)) {
+            span *= baseHeight;
+        }
+        const first = Math.max(Math.min(from, to) - span, 0);
+        const last = Math.min(Math.max(from, to) + span, lastIndex);
+
+        // Block from where each block of the span is reached, by offset from
+        // the first one, -1 if it is not reached yet
+        const previous = new Int32Array(last - first + 1).fill(-1);
+        previous[from - first] = from;
+
+        let reached = [from];
+        while (reached.length > 0 && previous[to - first] === -1) {
+            const next: number[] = [];
+            for (const index of reached) {
+                const height = SkiplinkPath.height(
+                    index,
+                    baseHeight,
+                    maxHeight
+                );
+                for (let level = height - 1; level >= 0; level--) {
+                    const step = Math.pow(baseHeight, level);
+                    for (const linked of [index + step, index - step]) {
+                        if (
+                            linked >= first &&
+                            linked <= last &&
+                            previous[linked - first] === -1
+                        ) {
+                            previous[linked - first] = index;
+                            next.push(linked);
+                        }
+                    }
+                }
+            }
+            reached = next;
+        }
+
+        if (previous[to - first] === -1) {
+            return undefined;
+        }
+
+        const hops: Hop[] = [];
+        for (let index = to; index !== from; index = previous[index - first]) {
+            const before = previous[index - first];
+            const distance = Math.abs(index - before);
+            let level = 0;
+            for (let step = 1; step < distance; step *= baseHeight) {
+                level++;
+            }
+            hops.unshift({ from: before, level, to: index });
+        }
+        return hops;
+    }
+
+    /**
+     * Compute the path from the selected block to a target block, highlight
+     * it and check its links.
+     *
+     * @param {number} target : index of the target block
+     * @memberof SkiplinkPath
+     */
+    async find(target: number) {
+        const genesis = this.chain.initialBlock;
+        const last = this.chain.lastAddedBlock.lastBlock;
+        const lastIndex = last !== undefined ? last.index : this.source.index;
+        if (isNaN(target) || target < genesis.index || target > lastIndex) {
+            this.flash.display(
+                Flash.flashType.WARNING,
+                `The target must be a block between ${genesis.index} and ${lastIndex}`
+            );
+            return;
+        }
+
+        this.from = this.source.index;
+        this.target = target;
+        this.hops =
+            SkiplinkPath.shortestPath(
+                this.from,
+                target,
+                lastIndex,
+                genesis.baseHeight,
+                genesis.maxHeight
+            ) || [];
+        this.problems = this.hops.map(() => null);
+        const generation = ++this.generation;
+
+        this.chain.renderer.highlightLinks(
+            this.hops.map((hop): [number, number] => [
+                Math.min(hop.from, hop.to),
+                Math.max(hop.from, hop.to),
+            ])
+        );
+        // The path can go past its ends
+        const indexes = [this.from, ...this.hops.map((hop) => hop.to)];
+        Utils.zoomOnChain(Math.min(...indexes), Math.max(...indexes));
+        this.draw();
+
+        try {
+            const problems = await this.check(this.hops);
+            if (generation !== this.generation) {
+                return;
+            }
+
+            this.problems = problems;
+            this.draw();
+            const nbMissing = problems.filter((p) => p !== undefined).length;
+            if (nbMissing > 0) {
+                this.flash.display(
+                    Flash.flashType.WARNING,
+                    `${nbMissing} link(s) of the path from block ${this.from} to block ${target} are missing`
+                );
+            }
+        } catch (e) {
+            this.flash.display(
+                Flash.flashType.ERROR,
+                `Unable to check the links of the path: ${e}`
+            );
+        }
+    }
+
+    /**
+     * Remove the path and its highlight.
+     *
+     * @memberof SkiplinkPath
+     */
+    clear() {
+        this.generation++;
+        this.from = undefined;
+        this.target = undefined;
+        this.hops = [];
+        this.problems = [];
+        this.chain.renderer.highlightLinks([]);
+    }
+
+    /**
+     * Helper: check that the blocks of the hops are linked, in the direction
+     * of the hop or at least in the other direction.
+     * @param hops
+     * @returns the problem of each hop, undefined if its link is fine
+     */
+    private async check(hops: Hop[]): Promise<string[]> {
+        const genesis = this.chain.initialBlock;
+        const indexes = new Set<number>();
+        hops.forEach((hop) => indexes.add(hop.from).add(hop.to));
+
+        const blocks = new Map<number, SkipBlock>();
+        for (const index of indexes) {
+            blocks.set(
+                index,
+                await this.chain.repository.getBlockByIndex(genesis.hash, index)
+            );
+        }
+
+        return hops.map((hop) => {
+            const from = blocks.get(hop.from);
+            const to = blocks.get(hop.to);
+            const forward = hop.to > hop.from;
+            const [older, newer] = forward ? [from, to] : [to, from];
+
+            const forwardLink = older.forwardLinks[hop.level];
+            const hasForward =
+                forwardLink !== undefined && forwardLink.to.equals(newer.hash);
+            const backlink = newer.backlinks[hop.level];
+            const hasBacklink =
+                backlink !== undefined && backlink.equals(older.hash);
+
+            if (hasForward && hasBacklink) {
+                return undefined;
+            }
+            if (hasBacklink) {
+                return `missing forward link ${hop.level} on block ${older.index}`;
+            }
+            if (hasForward) {
+                return `missing backlink ${hop.level} on block ${newer.index}`;
+            }
+            return `blocks ${older.index} and ${newer.index} are not linked`;
+        });
+    }
+
+    /**
+     * Helper: add the part of the path to the detail panel: the choice of the
+     * target and the list of the hops.
+     */
+    private draw() {
+        const container = d3.select(".block-detail-container");
+        container.select(".skiplink-path").remove();
+        if (this.source === undefined || container.select("ul").empty()) {
+            return;
+        }
+
+        const card = container
+            .append("div")
+            .attr("class", "uk-card uk-card-default skiplink-path")
+            .attr("style", "outline: groove rgba(204, 204, 204, 0.3);");
+        card.append("div")
+            .attr("class", "uk-card-header uk-padding-small")
+            .append("h3")
+            .attr("class", "block-card-content")
+            .text("Skiplink path")
+            .attr(
+                "uk-tooltip",
+                "The fewest links to follow from this block to another one, forward and backward"
+            );
+
+        const body = card
+            .append("div")
+            .attr("class", "uk-card-body uk-padding-small");
+        const form = body.append("p");
+        form.append("span").text(`From block ${this.source.index} to block `);
+        const input = form
+            .append("input")
+            .attr("class", "uk-input uk-form-small uk-form-width-xsmall")
+            .attr("type", "number")
+            .attr("min", 0);
+        input.on("keypress", () => {
+            if (d3.event.keyCode === 13) {
+                this.find(parseInt(input.property("value"), 10));
+            }
+        });
+        form.append("button")
+            .attr("class", "uk-button uk-button-default uk-button-small")
+            .text("Find")
+            .on("click", () => {
+                this.find(parseInt(input.property("value"), 10));
+            });
+        form.append("button")
+            .attr("class", "uk-button uk-button-default uk-button-small")
+            .attr("uk-tooltip", "The next block clicked on is the target")
+            .text(this.picking ? "Click on a block…" : "Pick on the chain")
+            .on("click", () => {
+                this.picking = !this.picking;
+                this.draw();
+            });
+        if (this.target !== undefined) {
+            form.append("button")
+                .attr("class", "uk-button uk-button-default uk-button-small")
+                .text("Clear")
+                .on("click", () => {
+                    this.clear();
+                    this.draw();
+                });
+        }
+
+        if (this.target === undefined) {
+            return;
+        }
+        if (this.hops.length === 0) {
+            body.append("p").text(
+                this.target === this.from
+                    ? "The target is the block the path starts from."
+                    : "No path found."
+            );
+            return;
+        }
+
+        body.append("p").text(
+            `From block ${this.from} to block ${this.target}, ${this.hops.length} hop(s):`
+        );
+        const list = body.append("ol").attr("class", "uk-list uk-list-divider");
+        this.hops.forEach((hop, i) => {
+            const item = list.append("li");
+            const badge = item
+                .append("span")
+                .attr("class", "uk-badge")
+                .text(`Block ${hop.to}`)
+                .on("click", () => {
+                    this.chain.selectBlockByIndex(hop.to);
+                });
+            Utils.clickable(badge);
+            item.insert("span", ":first-child").text(
+                `${hop.to > hop.from ? "Forward link" : "Backlink"} ${
+                    hop.level
+                } from block ${hop.from} to `
+            );
+
+            const problem = this.problems[i];
+            if (problem === null) {
+                item.append("span")
+                    .attr("class", "skiplink-check")
+                    .text(" checking…");
+            } else if (problem !== undefined) {
+                item.append("span")
+                    .attr("class", "skiplink-problem")
+                    .text(` ⚠ ${problem}`);
+            } else {
+                item.append("span").attr("class", "skiplink-check").text(" ✓");
+            }
+        });
+    }
+}
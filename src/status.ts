@@ -1,16 +1,10 @@
-import {
-    PaginateRequest,
-    PaginateResponse,
-} from "@dedis/cothority/byzcoin/proto/stream";
 import { Roster } from "@dedis/cothority/network";
 import { SkipBlock } from "@dedis/cothority/skipchain";
 import { StatusRPC } from "@dedis/cothority/status";
-import { WebSocketConnection } from "@dedis/cothority/network";
-import { ByzCoinRPC, Instruction } from "@dedis/cothority/byzcoin";
+import { BlockRepository } from "./blockRepository";
 import { Flash } from "./flash";
+import { Participation } from "./participation";
 import * as d3 from "d3";
-import { Utils } from "./utils";
-import DataBody from "@dedis/cothority/byzcoin/proto/data-body";
 import { curveLinear } from "d3";
 
 /**
@@ -25,14 +19,25 @@ import { curveLinear } from "d3";
 export class Status {
     roster: Roster;
 
+    repository: BlockRepository;
+
     initialBlock: SkipBlock;
 
     flash: Flash;
 
+    // Which nodes sign the blocks
+    participation: Participation;
+
     static statusInterval: NodeJS.Timer;
 
-    constructor(roster: Roster, initialBlock: SkipBlock, flash: Flash) {
+    constructor(
+        roster: Roster,
+        repository: BlockRepository,
+        initialBlock: SkipBlock,
+        flash: Flash
+    ) {
         this.roster = roster;
+        this.repository = repository;
         this.initialBlock = initialBlock;
         this.flash = flash;
 
@@ -83,11 +88,17 @@ export class Status {
 
         const nodeLastIndex = Object.keys(statusRPC["conn"]).length;
 
+        // the status of the nodes tells the connection manager which ones
+        // to use first
+        const connections = repository.connections;
+        const nodeAddress = (i: number) => roster.list[i].getWebSocketAddress();
+
         // populate initial table
         for (let i = 0; i < nodeLastIndex; i++) {
             statusRPC
                 .getStatus(i)
                 .then((status) => {
+                    connections.markHealthy(nodeAddress(i));
                     // infos (+advanced infos on hover)
                     const uptime = status
                         .getStatus("Generic")
@@ -132,6 +143,7 @@ export class Status {
                     tableElement.append("td").text(uptimeString);
                 })
                 .catch((error) => {
+                    connections.markFailed(nodeAddress(i));
                     const downNode = statusRPC["conn"][i];
                     const tableElement = tableBody.append("tr");
                     const elementName = tableElement.append("td");
@@ -154,6 +166,7 @@ export class Status {
                 statusRPC
                     .getStatus(i)
                     .then((status) => {
+                        connections.markHealthy(nodeAddress(i));
                         // upadted infos (+advanced infos on hover)
                         const uptime = status
                             .getStatus("Generic")
@@ -200,6 +213,7 @@ export class Status {
                     })
                     .catch((error) => {
                         // no update, mark node as down
+                        connections.markFailed(nodeAddress(i));
                         const downNode = statusRPC["conn"][i];
 
                         d3.select("#status-name-" + i)
@@ -210,110 +224,50 @@ export class Status {
             }
         }, 10 * 1000); // update every 10 second
 
+        // The uptime does not tell if a node takes part in the consensus
+        this.participation = new Participation(
+            mainDiv,
+            repository,
+            flash,
+            initialBlock
+        );
+
         // SECOND PART Statistics of the 1000 last blocks
         // fetch 1000 last block infos
-        try {
-            var conn = new WebSocketConnection(
-                this.roster.list[0].getWebSocketAddress(),
-                ByzCoinRPC.serviceName
-            );
-        } catch (error) {
-            this.flash.display(
-                Flash.flashType.ERROR,
-                `error creating conn: ${error}`
-            );
-            return;
-        }
-        const initialBlockID = Utils.bytes2String(initialBlock.hash);
-        const bid = Buffer.from(initialBlockID, "hex");
-        const message = new PaginateRequest({
-            startid: bid,
-            pagesize: 1000,
-            numpages: 1,
-            backward: true,
-        });
-
         let chartData: [number, number][] = [];
         let contractData: Map<string, number> = new Map();
         let maxTx = 0;
         let totalTx = 0;
         let validatedTx = 0;
         let nbFetchedBlocks;
-        conn.sendStream<PaginateResponse>(message, PaginateResponse).subscribe({
-            // fetch next block
-            complete: () => {
-                // ...
-            },
+        this.repository.getBlocks(initialBlock.hash, 1000, 1, true).subscribe({
             error: (err: Error) => {
                 this.flash.display(Flash.flashType.ERROR, `error: ${err}`);
             },
-            next: ([data, ws]) => {
-                nbFetchedBlocks = data.blocks.length;
+            next: ([, blocks]) => {
+                nbFetchedBlocks = blocks.length;
                 for (let i = 0; i < nbFetchedBlocks; i++) {
-                    const block = data.blocks[i];
-
-                    const body = DataBody.decode(block.payload);
-                    const totalTransaction = body.txResults.length;
+                    const block = blocks[i];
 
-                    var totalInstructions = 0;
-
-                    for (let k = 0; k < body.txResults.length; k++) {
-                        totalInstructions +=
-                            body.txResults[k].clientTransaction.instructions
-                                .length;
-                    }
+                    const decoded = this.repository.decoder.get(block);
+                    const totalTransaction = decoded.nbTransactions;
 
                     chartData[nbFetchedBlocks - 1 - i] = [
                         block.index,
-                        totalInstructions,
+                        decoded.nbInstructions,
                     ];
 
                     totalTx += totalTransaction;
                     if (totalTransaction > maxTx) {
                         maxTx = totalTransaction;
                     }
+                    validatedTx += decoded.nbAccepted;
                     // count all different contract types
-                    body.txResults.forEach((transaction, i) => {
-                        const txInstruction =
-                            transaction.clientTransaction.instructions[0];
-                        if (transaction.accepted) {
-                            validatedTx += 1;
-                        }
-                        if (txInstruction.type == Instruction.typeInvoke) {
-                            const contractID = txInstruction.invoke.contractID;
-                            if (contractData.has(contractID)) {
-                                contractData.set(
-                                    contractID,
-                                    contractData.get(contractID) + 1
-                                );
-                            } else {
-                                contractData.set(contractID, 1);
-                            }
-                        } else if (
-                            txInstruction.type === Instruction.typeSpawn
-                        ) {
-                            const contractID = txInstruction.invoke.contractID;
-                            if (contractData.has(contractID)) {
-                                contractData.set(
-                                    contractID,
-                                    contractData.get(contractID) + 1
-                                );
-                            } else {
-                                contractData.set(contractID, 1);
-                            }
-                        } else if (
-                            txInstruction.type === Instruction.typeDelete
-                        ) {
-                            const contractID = txInstruction.delete.contractID;
-                            if (contractData.has(contractID)) {
-                                contractData.set(
-                                    contractID,
-                                    contractData.get(contractID) + 1
-                                );
-                            } else {
-                                contractData.set(contractID, 1);
-                            }
-                        }
+                    decoded.contracts.forEach((count, contractID) => {
+                        contractData.set(
+                            contractID,
+                            (contractData.get(contractID) || 0) + count
+                        );
                     });
                 }
 
@@ -0,0 +1,539 @@
+import { SkipBlock } from "@dedis/cothority/skipchain";
+import * as blockies from "blockies-ts";
+import * as d3 from "d3";
+import { Subject } from "rxjs";
+
+import { BlockColoring } from "./blockColoring";
+import { DecodedBlock } from "./blockDecoder";
+import { Chain } from "./chain";
+import { ChainRenderer } from "./chainRenderer";
+import { Flash } from "./flash";
+import { Utils } from "./utils";
+
+/**
+ * Renderer creating svg elements for each block, arrow and circle. It is
+ * simple to inspect but becomes slow with thousands of blocks, the chain is
+ * drawn with it when the url contains "?renderer=svg".
+ *
+ * @author Noémien Kocher (noémien.kocher@epfl.ch)
+ * @author Sophia Artioli (sophia.artioli@epfl.ch)
+ * @export
+ * @class SvgRenderer
+ * @implements {ChainRenderer}
+ */
+export class SvgRenderer implements ChainRenderer {
+    readonly linkClickedSubject = new Subject<[SkipBlock, number]>();
+    readonly linkDoubleClickedSubject = new Subject<[SkipBlock, number]>();
+
+    // The group that contains the blocks on the chain.
+    readonly gblocks: any;
+    // The group that contains the arrows between blocks.
+    readonly garrow: any;
+    // The groups that contains the circles on the blocks of the chain
+    readonly gcircle: any;
+    readonly blockies: any;
+
+    flash: Flash;
+    blockClickedSubject: Subject<SkipBlock>;
+    coloring: BlockColoring;
+
+    // Highlighted links, as "<from index>-<to index>"
+    private highlighted = new Set<string>();
+    // The blocks lower than minHeight are greyed out, or hidden, and only the
+    // arrows of their levels and above are drawn
+    private minHeight = 1;
+    private hideFiltered = false;
+
+    /**
+     * Creates an instance of SvgRenderer and its groups in the svg.
+     * @param {*} svg : the svg container of the chain
+     * @param {Flash} flash
+     * @param {Subject<SkipBlock>} blockClickedSubject : notified when a block
+     * is clicked on
+     * @param {BlockColoring} coloring : gives the colours of the blocks
+     * @memberof SvgRenderer
+     */
+    constructor(
+        svg: any,
+        flash: Flash,
+        blockClickedSubject: Subject<SkipBlock>,
+        coloring: BlockColoring
+    ) {
+        this.flash = flash;
+        this.blockClickedSubject = blockClickedSubject;
+        this.coloring = coloring;
+
+        // This group will contain the blocks
+        this.gblocks = svg.append("g").attr("class", "gblocks");
+
+        // This group will contain the arrows between blocks
+        this.garrow = svg.append("g").attr("class", "garrow");
+
+        // This group will contain the circles. We need two separate groups because the
+        // transform on the text group should not change the scale to keep the text
+        // readable
+        this.gcircle = svg.append("g").attr("class", "gcircle");
+        this.blockies = svg.append("g").attr("class", "blockies");
+
+        // The blocks given a colour with setBlockColor keep it
+        coloring.changedSubject.subscribe({
+            next: () => {
+                this.gblocks
+                    .selectAll("rect:not(.colored)")
+                    .attr("fill", (decoded: DecodedBlock) =>
+                        coloring.color(decoded)
+                    );
+            },
+        });
+    }
+
+    /**
+     * Appends a block to the blockchain.
+     * @param x horizontal position where the block should be appended
+     * @param block the block to append
+     * @param decoded the summary of the block
+     */
+    addBlock(x: number, block: SkipBlock, decoded: DecodedBlock) {
+        const rect = this.gblocks
+            .append("rect")
+            .datum(decoded)
+            .attr("data-index", block.index)
+            .attr("data-height", block.height)
+            .attr("id", Utils.bytes2String(block.hash))
+            .attr("width", Chain.blockWidth)
+            // Heights are described by level
+            // (Chain.svgHeight / Chain.maxHeightBlock) is the height a level to fit the chain height
+            .attr(
+                "height",
+                block.height * (Chain.svgHeight / Chain.maxHeightBlock)
+            )
+            .attr("x", x) // The blocks are appended following the transform of the chain
+            .attr("y", 20) // Blocks are appended below the axis
+            .attr("fill", this.coloring.color(decoded))
+            .on("click", () => {
+                this.blockClickedSubject.next(block);
+            })
+            .on("mouseover", function () {
+                d3.select(this).style("cursor", "pointer");
+            })
+            .on("mouseout", function () {
+                d3.select(this).style("cursor", "default");
+            });
+        this.filter(rect, true);
+
+        this.appendCircleInBlock(x, block, decoded);
+    }
+
+    /**
+     * Appends the arrow of a link between two blocks.
+     * @param xTrans horizontal position of the block the arrow starts from
+     * @param skipBlockToIndex ending point of the arrow
+     * @param skipBlockFrom starting point of the arrow
+     * @param height the y coordinate where the arrow is appended on the blocks
+     * @author Sophia Artioli <sophia.artioli@epfl.ch>
+     */
+    addArrow(
+        xTrans: number,
+        skipBlockToIndex: number,
+        skipBlockFrom: SkipBlock,
+        height: number
+    ) {
+        if (height === 0) {
+            // Consecutive blocks
+            const line = this.garrow
+                .append("line")
+                .attr("data-index", skipBlockFrom.index)
+                .attr("data-to", skipBlockToIndex)
+                .attr("data-height", height + 1)
+                .classed(
+                    "highlighted-link",
+                    this.highlighted.has(
+                        `${skipBlockFrom.index}-${skipBlockToIndex}`
+                    )
+                );
+            this.filter(line);
+            line.attr("x1", xTrans + Chain.blockWidth)
+                .attr("y1", Chain.blockHeight / 2 + Chain.axisPadding)
+                .attr("x2", Chain.layout.indexToX(skipBlockToIndex))
+                .attr("y2", Chain.blockHeight / 2 + Chain.axisPadding)
+                .attr("stroke-width", 2)
+                .attr("stroke", "#808080");
+        } else {
+            const tooltip = d3.select(".tooltip");
+            // Blocks that are minimum two indexes away
+            const highlighted = this.highlighted.has(
+                `${skipBlockFrom.index}-${skipBlockToIndex}`
+            );
+            const line = this.garrow
+                .append("line")
+                .attr("data-index", skipBlockFrom.index)
+                .attr("data-to", skipBlockToIndex)
+                .attr("data-height", height + 1)
+                .classed("highlighted-link", highlighted);
+            this.filter(line);
+            // Starting point of the arrow: Right edge of the block
+            line.attr("x1", xTrans + Chain.blockWidth)
+                .attr(
+                    "x2",
+                    Chain.layout.indexToX(skipBlockToIndex) -
+                        Chain.blockPadding +
+                        2
+                ) // Arrows are appended to each level of height
+                .attr("y1", Chain.getLinkY(height)) // Ending point of the arrow: left-edge of the block
+                .attr("y2", Chain.getLinkY(height))
+                .attr(
+                    "marker-end",
+                    "url(#" +
+                        skipBlockToIndex.toString() +
+                        "-" +
+                        height.toString() +
+                        ")"
+                )
+                .attr("stroke-width", 2.8)
+                .attr("stroke", "#A0A0A0");
+            // Enables translation to the block the arrow is pointing to
+            let timeout: NodeJS.Timeout;
+            line.on("click", () => {
+                clearTimeout(timeout);
+                timeout = setTimeout(() => {
+                    this.linkClickedSubject.next([
+                        skipBlockFrom,
+                        skipBlockToIndex,
+                    ]);
+                }, 300);
+            }).on("dblclick", () => {
+                clearTimeout(timeout);
+                this.linkDoubleClickedSubject.next([
+                    skipBlockFrom,
+                    skipBlockToIndex,
+                ]);
+            });
+
+            // Arrow head
+            const defs = this.garrow
+                .append("svg:defs")
+                .attr("data-index", skipBlockFrom.index)
+                .attr("data-to", skipBlockToIndex)
+                .attr("data-height", height + 1)
+                .classed("highlighted-link", highlighted);
+            this.filter(defs);
+            const triangle = defs.append("svg:marker");
+            triangle
+                .attr(
+                    "id",
+                    skipBlockToIndex.toString() + "-" + height.toString()
+                ) // Markers have to have different id's otherwise they will not change color on hover
+                .attr("refX", 9.4)
+                .attr("refY", 6.5)
+                .attr("markerWidth", 17)
+                .attr("markerHeight", 15)
+                .attr("strokeWidth", 5)
+                .attr("fill", "#A0A0A0")
+                .attr("markerUnits", "userSpaceOnUse") // Makes width of stroke independant from path
+                .attr("orient", "auto-start-reverse")
+                .append("path")
+                .attr("d", "M 0 0 L 19 7 L 0 14 z");
+
+            // Arrows change color on hover
+            triangle.on("mouseover", function () {
+                d3.select(this).style("stroke", "var(--selected-colour");
+                triangle.style("fill", "var(--selected-colour");
+                d3.select(this).style("cursor", "pointer");
+            });
+            line.on("mouseover", function () {
+                d3.select(this).style("stroke", "var(--selected-colour");
+                triangle.style("fill", "var(--selected-colour");
+                d3.select(this).style("cursor", "pointer");
+
+                tooltip.transition().duration(200).style("opacity", 1);
+                tooltip
+                    .html(
+                        `From block ${skipBlockFrom.index} to ${skipBlockToIndex}`
+                    )
+                    .style(
+                        "left",
+                        d3.event.x -
+                            parseInt(tooltip.style("width"), 10) / 2 +
+                            "px"
+                    )
+                    .style("top", d3.event.y - 30 + "px");
+            });
+
+            triangle.on("mouseout", () => {
+                line.style("stroke", "#A0A0A0");
+                triangle.style("fill", "#A0A0A0");
+                line.style("cursor", "default");
+            });
+            line.on("mouseout", () => {
+                line.style("stroke", "#A0A0A0");
+                triangle.style("fill", "#A0A0A0");
+                line.style("cursor", "default");
+                tooltip
+                    .transition()
+                    .duration(100)
+                    .style("opacity", 0)
+                    .style("pointer-events", "none");
+            });
+            line.on("mousemove", () => {
+                tooltip
+                    .html(
+                        `From block ${skipBlockFrom.index} to ${skipBlockToIndex}`
+                    )
+                    .style(
+                        "left",
+                        d3.event.x -
+                            parseInt(tooltip.style("width"), 10) / 2 +
+                            "px"
+                    )
+                    .style("top", d3.event.y - 30 + "px");
+            });
+        }
+    }
+
+    removeBlocks(from: number, to: number) {
+        for (const group of [
+            this.gblocks,
+            this.garrow,
+            this.gcircle,
+            this.blockies,
+        ]) {
+            group
+                .selectAll("[data-index]")
+                .filter(function () {
+                    const index = parseInt(this.getAttribute("data-index"), 10);
+                    return index >= from && index <= to;
+                })
+                .remove();
+        }
+    }
+
+    setTransform(transform: { x: number; y: number; k: number }) {
+        // Horizontal transformation on the blocks only (sets Y scale to 1)
+        const transformString =
+            "translate(" +
+            transform.x +
+            "," +
+            "0) scale(" +
+            transform.k +
+            "," +
+            "1" +
+            ")";
+
+        let transformCircle =
+            "translate(" +
+            transform.x +
+            "," +
+            "32) scale(" +
+            transform.k +
+            "," +
+            transform.k +
+            ")";
+
+        if (transform.k <= 0.99) {
+            transformCircle =
+                "translate(" +
+                transform.x +
+                "," +
+                "0) scale(" +
+                "0" +
+                "," +
+                "0" +
+                ")";
+        }
+
+        // The blocks, arrows, circles follow the transformations of the chain.
+        this.gblocks.attr("transform", transformString);
+        this.garrow.attr("transform", transformString);
+        this.gcircle.attr("transform", transformCircle);
+        this.blockies.attr("transform", transformCircle);
+    }
+
+    setBlockColor(block: SkipBlock, color: string) {
+        const rect = this.selectBlock(block);
+        rect.classed("colored", color !== undefined).attr(
+            "fill",
+            color !== undefined
+                ? color
+                : (decoded: DecodedBlock) => this.coloring.color(decoded)
+        );
+    }
+
+    setBlockOutline(block: SkipBlock, color: string, width: number) {
+        this.selectBlock(block)
+            .attr("stroke", color)
+            .attr("stroke-width", width);
+    }
+
+    setHeightFilter(minHeight: number, hide: boolean) {
+        this.minHeight = minHeight;
+        this.hideFiltered = hide;
+
+        const self = this;
+        for (const group of [
+            this.gblocks,
+            this.garrow,
+            this.gcircle,
+            this.blockies,
+        ]) {
+            group.selectAll("[data-height]").each(function () {
+                self.filter(d3.select(this), group === self.gblocks);
+            });
+        }
+    }
+
+    highlightLinks(links: [number, number][]) {
+        this.highlighted = new Set(links.map(([from, to]) => `${from}-${to}`));
+        const highlighted = this.highlighted;
+        this.garrow
+            .selectAll("[data-to]")
+            .classed("highlighted-link", function () {
+                return highlighted.has(
+                    `${this.getAttribute("data-index")}-${this.getAttribute(
+                        "data-to"
+                    )}`
+                );
+            });
+    }
+
+    /**
+     * Helper: grey out or hide an element lower than the height filter, the
+     * height of an arrow is its level plus one.
+     * @param element the d3 selection of the element, with a data-height
+     * @param greyed true if the element is greyed out instead of hidden, e.g.
+     * a block
+     */
+    private filter(element: any, greyed = false) {
+        const filtered =
+            parseInt(element.attr("data-height"), 10) < this.minHeight;
+        element
+            .classed(
+                "greyed-by-filter",
+                filtered && greyed && !this.hideFiltered
+            )
+            .classed(
+                "hidden-by-filter",
+                filtered && (!greyed || this.hideFiltered)
+            );
+    }
+
+    /**
+     * Helper: select the rectangle of a block, empty if it is not loaded.
+     * @param block
+     */
+    private selectBlock(block: SkipBlock) {
+        return this.gblocks.select(`[id = "${block.hash.toString("hex")}"]`);
+    }
+
+    /**
+     * Helper for addBlock: appends the circles counting the transactions and
+     * the blocky of the hash in a block.
+     * @param xTranslate horizontal position where the text should be displayed
+     * @param block: skipBlock
+     * @param decoded the summary of the block
+     * @author Sophia Artioli <sophia.artioli@epfl.ch>
+     */
+    private appendCircleInBlock(
+        xTranslate: number,
+        block: SkipBlock,
+        decoded: DecodedBlock
+    ) {
+        const self = this;
+        const txAccepted = decoded.nbAccepted;
+        const txRefused = decoded.nbRejected;
+        const xAccepted = xTranslate + 15;
+        const xRefused = xTranslate + Chain.blockWidth - 15;
+        const tooltip = d3.select(".tooltip");
+        this.gcircle
+            .append("circle")
+            .attr("data-index", block.index)
+            .attr("data-height", block.height)
+            .classed("hidden-by-filter", block.height < self.minHeight)
+            .attr("cx", xAccepted)
+            .attr("r", 4)
+            .attr("stroke", "#b3ffb3")
+            .attr("fill-opacity", 0)
+            .attr("uk-tooltip", `${txAccepted} accepted transactions`)
+            .on("mouseover", function () {
+                d3.select(this).style("stroke", "#00cc00");
+            })
+            .on("mouseout", function () {
+                d3.select(this).style("stroke", "#b3ffb3");
+            });
+
+        const blocky = blockies.create({
+            seed: Utils.bytes2String(block.hash),
+        });
+        this.blockies
+            .append("svg:image")
+            .attr("data-index", block.index)
+            .attr("data-height", block.height)
+            .classed("hidden-by-filter", block.height < self.minHeight)
+            .attr("xlink:href", blocky.toDataURL())
+            .attr("src", blocky.toDataURL())
+            .attr("uk-tooltip", `hash:${Utils.bytes2String(block.hash)}`)
+            .attr("x", xTranslate + 30)
+            .attr("y", -4)
+            .attr("width", 9)
+            .attr("height", 9)
+            .attr("opacity", 0.6)
+            .attr("text", txRefused)
+            .attr("dx", 40)
+            .on("click", () => {
+                Utils.copyToClipBoard(
+                    Utils.bytes2String(block.hash),
+                    this.flash
+                );
+            })
+            .on("mouseover", function () {
+                d3.select(this).style("cursor", "pointer");
+                tooltip.transition().duration(200).style("opacity", 1);
+                tooltip
+                    .html(`Block hash: ${Utils.bytes2String(block.hash)}`)
+                    .style(
+                        "left",
+                        d3.event.x -
+                            parseInt(tooltip.style("width"), 10) / 2 +
+                            "px"
+                    )
+                    .style("top", d3.event.y - 30 + "px");
+            })
+            .on("mouseout", function () {
+                d3.select(this).style("cursor", "default");
+                tooltip
+                    .transition()
+                    .duration(100)
+                    .style("opacity", 0)
+                    .style("pointer-events", "none");
+            })
+            .on("mousemove", () => {
+                tooltip
+
+                    .html(`Block hash: ${Utils.bytes2String(block.hash)}`)
+
+                    .style(
+                        "left",
+                        d3.event.x -
+                            parseInt(tooltip.style("width"), 10) / 2 +
+                            "px"
+                    )
+                    .style("top", d3.event.y - 30 + "px");
+            });
+
+        this.gcircle
+            .append("circle")
+            .attr("data-index", block.index)
+            .attr("data-height", block.height)
+            .classed("hidden-by-filter", block.height < self.minHeight)
+            .attr("cx", xRefused)
+            .attr("r", 4)
+            .attr("stroke", "#EF5959")
+            .attr("fill-opacity", 0)
+            .attr("uk-tooltip", `${txRefused} rejected transactions`)
+            .on("mouseover", function () {
+                d3.select(this).style("stroke", "#d11515");
+            })
+            .on("mouseout", function () {
+                d3.select(this).style("stroke", "#EF5959");
+            });
+    }
+}
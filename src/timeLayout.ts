@@ -0,0 +1,154 @@
+import * as d3 from "d3";
+
+import { DecodedBlock } from "./blockDecoder";
+import { Chain } from "./chain";
+import { ChainLayout } from "./chainLayout";
+import { IndexLayout } from "./indexLayout";
+
+/**
+ * Layout placing the blocks by the time they were created, so that the idle
+ * periods and the bursts of blocks show on the chain. The scale is chosen so
+ * that blocks created at the average pace of the chain are as far apart as
+ * with the IndexLayout.
+ *
+ * The time of the blocks that are not loaded is interpolated between the
+ * closest loaded blocks. Until the last block of the chain is known, the
+ * blocks are placed by index.
+ *
+ * @export
+ * @class TimeLayout
+ * @implements {ChainLayout}
+ */
+export class TimeLayout implements ChainLayout {
+    // The time between two blocks is marked as idle when it is this many
+    // times the average time between blocks
+    static readonly idleFactor = 10;
+
+    // Time of the genesis block, at position 0
+    private start: number;
+    // Average time between two blocks, in milliseconds
+    private interval: number;
+    // Pixels by millisecond, undefined until the extent is known
+    private rate: number;
+    // Known blocks sorted by index, and their times
+    private readonly indexes: number[] = [];
+    private readonly times: number[] = [];
+    private readonly fallback = new IndexLayout();
+
+    init(genesis: DecodedBlock, last: DecodedBlock) {
+        this.start = genesis.timestamp;
+        this.interval = Math.max(
+            1,
+            (last.timestamp - genesis.timestamp) /
+                Math.max(1, last.index - genesis.index)
+        );
+        this.rate = Chain.unitBlockAndPaddingWidth / this.interval;
+
+        this.addBlock(genesis);
+        this.addBlock(last);
+    }
+
+    addBlock(block: DecodedBlock) {
+        const i = d3.bisectLeft(this.indexes, block.index);
+        if (this.indexes[i] === block.index) {
+            this.times[i] = block.timestamp;
+        } else {
+            this.indexes.splice(i, 0, block.index);
+            this.times.splice(i, 0, block.timestamp);
+        }
+    }
+
+    indexToX(index: number): number {
+        if (this.rate === undefined) {
+            return this.fallback.indexToX(index);
+        }
+        return (this.indexToTime(index) - this.start) * this.rate;
+    }
+
+    xToIndex(x: number): number {
+        if (this.rate === undefined) {
+            return this.fallback.xToIndex(x);
+        }
+
+        const time = this.start + x / this.rate;
+        const last = this.times.length - 1;
+        const i = d3.bisectLeft(this.times, time);
+        if (i === 0) {
+            return this.indexes[0] - (this.times[0] - time) / this.interval;
+        }
+        if (i > last) {
+            return (
+                this.indexes[last] + (time - this.times[last]) / this.interval
+            );
+        }
+
+        const ratio =
+            this.times[i] === this.times[i - 1]
+                ? 0
+                : (time - this.times[i - 1]) /
+                  (this.times[i] - this.times[i - 1]);
+        return (
+            this.indexes[i - 1] +
+            ratio * (this.indexes[i] - this.indexes[i - 1])
+        );
+    }
+
+    idleBefore(index: number): number {
+        if (this.rate === undefined) {
+            return 0;
+        }
+
+        const i = d3.bisectLeft(this.indexes, index);
+        if (
+            i === 0 ||
+            this.indexes[i] !== index ||
+            this.indexes[i - 1] !== index - 1
+        ) {
+            return 0;
+        }
+
+        const gap = this.times[i] - this.times[i - 1];
+        return gap > TimeLayout.idleFactor * this.interval ? gap : 0;
+    }
+
+    createAxis(width: number): any {
+        if (this.rate === undefined) {
+            return this.fallback.createAxis(width);
+        }
+
+        const scale = d3
+            .scaleTime()
+            .domain([
+                new Date(this.start),
+                new Date(this.start + width / this.rate),
+            ])
+            .range([0, width]);
+        return d3.axisBottom(scale);
+    }
+
+    /**
+     * Helper: get the time of a block, interpolated between the closest
+     * known blocks if it is not loaded.
+     * @param index
+     */
+    private indexToTime(index: number): number {
+        const last = this.indexes.length - 1;
+        const i = d3.bisectLeft(this.indexes, index);
+        if (this.indexes[i] === index) {
+            return this.times[i];
+        }
+        if (i === 0) {
+            return this.times[0] - (this.indexes[0] - index) * this.interval;
+        }
+        if (i > last) {
+            return (
+                this.times[last] + (index - this.indexes[last]) * this.interval
+            );
+        }
+
+        const ratio =
+            (index - this.indexes[i - 1]) /
+            (this.indexes[i] - this.indexes[i - 1]);
+        return this.times[i - 1] + ratio * (this.times[i] - this.times[i - 1]);
+    }
+}
@@ -0,0 +1,31 @@
+import { IConnection, WebSocketConnection } from "@dedis/cothority/network";
+
+/**
+ * Creates the connections used to talk to the conodes. The explorer uses
+ * websockets, other implementations can serve the requests without the
+ * network, for example FakeConode.
+ *
+ * @export
+ * @interface Transport
+ */
+export interface Transport {
+    /**
+     * Create a connection to a service of a node.
+     * @param address the websocket address of the node
+     * @param service the name of the service
+     */
+    connect(address: string, service: string): IConnection;
+}
+
+/**
+ * Transport talking to the conodes through websockets.
+ *
+ * @export
+ * @class WebSocketTransport
+ * @implements {Transport}
+ */
+export class WebSocketTransport implements Transport {
+    connect(address: string, service: string): IConnection {
+        return new WebSocketConnection(address, service);
+    }
+}
@@ -1,15 +1,28 @@
-import { DataHeader } from "@dedis/cothority/byzcoin/proto";
-import { DataBody } from "@dedis/cothority/byzcoin/proto";
-
 import { Roster } from "@dedis/cothority/network";
 import { SkipBlock } from "@dedis/cothority/skipchain";
-import { SkipchainRPC } from "@dedis/cothority/skipchain";
 import * as blockies from "blockies-ts";
 import * as d3 from "d3";
+import { DecodedBlock } from "./blockDecoder";
 import { Chain } from "./chain";
 import { Flash } from "./flash";
 
+/**
+ * A node of a roster, as shown in the details of the blocks.
+ */
+export interface RosterNode {
+    // Position in the roster, the first node leads the consensus
+    position: number;
+    leader: boolean;
+    description: string;
+    address: string;
+    // Public key, in hex
+    publicKey: string;
+}
+
 export class Utils {
+    // Number of hex characters of a public key shown before it is cut
+    static readonly shortKeyLength = 16;
+
     /**
      * Convert bytes to string.
      * @param b buffer to convert
@@ -57,56 +70,14 @@ export class Utils {
         return this.bytes2String(block.forwardLinks[0].to);
     }
 
-    /**
-     * @author Sophia Artioli (sophia.artioli@epfl.ch)
-     *
-     * Get the skipBlock by its hash and roster
-     * @param hash the hash the requested block
-     * @param roster roster that validated the block
-     */
-    static async getBlock(hash: Buffer, roster: Roster): Promise<SkipBlock> {
-        return await new Promise<SkipBlock>((resolve, reject) => {
-            new SkipchainRPC(roster)
-                .getSkipBlock(hash)
-                .then((skipblock) => resolve(skipblock))
-                .catch((e) => {
-                    reject(e);
-                });
-        });
-    }
-
-    /**
-     * @author Sophia Artioli (sophia.artioli@epfl.ch)
-     *
-     * Gets the skipBlock by its hash and roster
-     * @param genesis hash of the first block of the chain
-     * @param index the index of the requested block
-     * @param roster roster that validated the block
-     */
-    static async getBlockByIndex(
-        genesis: Buffer,
-        index: number,
-        roster: Roster
-    ): Promise<SkipBlock> {
-        return await new Promise<SkipBlock>((resolve, reject) => {
-            new SkipchainRPC(roster)
-                .getSkipBlockByIndex(genesis, index)
-                .then((skipblock) => resolve(skipblock.skipblock))
-                .catch((e) => {
-                    reject(e);
-                });
-        });
-    }
-
     /**
      *
      * @author Lucas Trognon (lucas.trognon@epfl.ch)
      * Formats and outputs the date at which a block was validated
      * @param block block of which we want the validation time
      */
-    static getTimeString(block: SkipBlock): string {
-        const timestamp = Number(DataHeader.decode(block.data).timestamp);
-        const date = new Date(timestamp / 1000_000);
+    static getTimeString(block: DecodedBlock): string {
+        const date = new Date(block.timestamp);
         const hours = date.getHours();
         const minutes = "0" + date.getMinutes();
         const seconds = "0" + date.getSeconds();
@@ -155,7 +126,9 @@ export class Utils {
         const newZoom = d3.zoomIdentity
             .translate(
                 //-5 because we want to land in the middle of the chain
-                -(goalBlock - 5) * Chain.unitBlockAndPaddingWidth + 0.2,
+                -Chain.layout.indexToX(goalBlock) +
+                    5 * Chain.unitBlockAndPaddingWidth +
+                    0.2,
                 0
             )
             .scale(1);
@@ -171,6 +144,26 @@ export class Utils {
             .call(Chain.zoom.transform, newZoom);
     }
 
+    /**
+     * Zoom the chain so that a range of blocks fills the view.
+     * @param firstBlock index of the first block of the range
+     * @param lastBlock index of the last block of the range
+     */
+    static zoomOnChain(firstBlock: number, lastBlock: number) {
+        const width = parseInt(d3.select("#svg-container").style("width"), 10);
+        const start = Chain.layout.indexToX(firstBlock);
+        const k = Math.min(
+            Chain.zoom.scaleExtent()[1],
+            width / (Chain.layout.indexToX(lastBlock + 1) - start)
+        );
+        const newZoom = d3.zoomIdentity.translate(-start * k, 0).scale(k);
+
+        d3.select("#svg-container")
+            .transition()
+            .duration(1000)
+            .call(Chain.zoom.transform, newZoom);
+    }
+
     /**
      * @author Noémien Kocher (noémien.kocher@epfl.ch)
      *
@@ -194,6 +187,24 @@ export class Utils {
         return { left: Math.max(0, leftBlockIndex), right: rightBlockIndex };
     }
 
+    /**
+     * Converts a transform of the chain to the indexes of the visible blocks,
+     * placed by the layout of the chain.
+     * @param transform d3 transformation
+     * @param chainWidth the width of the chain
+     */
+    static transformToChainIndexes(
+        transform: any,
+        chainWidth: number
+    ): { left: number; right: number } {
+        const left = Chain.layout.xToIndex(-transform.x / transform.k);
+        const right = Chain.layout.xToIndex(
+            (chainWidth - transform.x) / transform.k
+        );
+
+        return { left: Math.max(0, left), right };
+    }
+
     /**
      *  @author Lucas Trognon (lucas.trognon@epfl.ch)
      *
@@ -268,19 +279,39 @@ export class Utils {
         });
     }
 
-    static getTransactionRatio(block: SkipBlock): [number, number] {
-        let accepted = 0;
-        let rejected = 0;
-        const body = DataBody.decode(block.payload);
-        body.txResults.forEach((transaction) => {
-            if (transaction.accepted) {
-                accepted++;
-            } else {
-                rejected++;
-            }
-        });
-        return [accepted, rejected];
+    /**
+     * Describe the nodes of a roster, in the order of the roster.
+     * @param roster
+     */
+    static rosterNodes(roster: Roster): RosterNode[] {
+        return roster.list.map((node, i) => ({
+            address: node.address,
+            description: node.description,
+            leader: i === 0,
+            position: i,
+            publicKey: node.public.toString("hex"),
+        }));
     }
+
+    /**
+     * Lists the nodes of a roster for a tooltip, a line per node with its
+     * position, description, address and the start of its public key.
+     * @param roster
+     */
+    static rosterTooltip(roster: Roster): string {
+        return Utils.rosterNodes(roster)
+            .map(
+                (node) =>
+                    `${node.position}${node.leader ? " (leader)" : ""}: ${
+                        node.description
+                    }, ${node.address}, ${node.publicKey.slice(
+                        0,
+                        Utils.shortKeyLength
+                    )}…`
+            )
+            .join("<br/>");
+    }
+
     /**
      * @author Rosa José Sara
      * @returns the svg script for the download icon
@@ -2,11 +2,15 @@ const path = require("path");
 const NodePolyfillPlugin = require('node-polyfill-webpack-plugin')
 
 module.exports = {
-    entry: ["@babel/polyfill", "./src/index.ts"],
+    entry: {
+        bundle: ["@babel/polyfill", "./src/index.ts"],
+        // Worker decoding the blocks, loaded by src/blockDecoder.ts
+        decoder: ["@babel/polyfill", "./src/decoderWorker.ts"],
+    },
     devtool: 'inline-source-map',
     mode: 'development',
     output: {
-        filename: "bundle.min.js",
+        filename: "[name].min.js",
         path: path.resolve(__dirname, "dist"),
         library: "jsapp",
         libraryTarget: "umd",
@@ -38,6 +42,7 @@ module.exports = {
                 include: [
                     /.\/src/
                 ],
+                exclude: /decoderWorker\.ts$/,
                 use: [
                     {
                         loader: "babel-loader",
@@ -48,6 +53,26 @@ module.exports = {
                     "ts-loader",
                 ],
             },
+            {
+                // The worker is compiled with the types of a worker scope
+                // instead of the ones of a page
+                test: /decoderWorker\.ts$/,
+                use: [
+                    {
+                        loader: "babel-loader",
+                        options: {
+                            presets: ["@babel/preset-env"],
+                        },
+                    },
+                    {
+                        loader: "ts-loader",
+                        options: {
+                            configFile: "tsconfig.worker.json",
+                            instance: "worker",
+                        },
+                    },
+                ],
+            },
             {
                 test: /\.s[ac]ss$/i,
                 use: [